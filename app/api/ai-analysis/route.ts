@@ -1,5 +1,5 @@
 /**
- * Server-side AI Deep Dive analysis endpoint using Claude 3.5 Sonnet
+ * Server-side AI Deep Dive analysis endpoint using the configured LLM provider
  * Processes collection data and analytics to generate investment insights
  * 
  * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
@@ -9,14 +9,14 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { createAnthropic } from '@ai-sdk/anthropic';
 import { generateText } from 'ai';
+import { getLanguageModel, getModelLabel, isLlmConfigured } from '@/lib/llm-provider';
 import type { Collection } from '@/lib/collections-data';
 import type { MarketAnalytics, HolderAnalytics, ActivityAnalytics, AIAnalytics } from '@/lib/analytics-service';
 
 /**
  * Server-side AI analysis endpoint for investment thesis generation
- * Receives collection and analytics data, returns Claude 3.5 Sonnet analysis
+ * Receives collection and analytics data, returns LLM analysis
  */
 export async function POST(request: NextRequest) {
   try {
@@ -35,15 +35,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Check for API key
-    if (!process.env.ANTHROPIC_API_KEY) {
+    // Check provider credentials
+    if (!isLlmConfigured()) {
       return NextResponse.json(
-        { error: 'Anthropic API key not configured' },
+        { error: `AI provider not configured (${getModelLabel()})` },
         { status: 500 }
       );
     }
 
-    console.log(`🧠 API: Starting Claude AI analysis for ${collection.name}...`);
+    console.log(`🧠 API: Starting ${getModelLabel()} analysis for ${collection.name}...`);
 
     // Prepare comprehensive analysis context
     const hasMarketData = !!marketHealth;
@@ -56,6 +56,7 @@ export async function POST(request: NextRequest) {
 COLLECTION DATA:
 Name: ${collection.name || 'Unnamed Collection'}
 Symbol: ${collection.symbol || 'N/A'}
+Token Standard: ${collection.standard?.toUpperCase() || 'Unknown'}${collection.standard === 'erc1155' ? ' (multi-edition - supply counts every edition copy)' : ''}
 Supply: ${collection.totalSupply || 'Unknown'}
 Current Holders: ${collection.owners || 'Unknown'}
 Contract: ${collection.contractAddress}
@@ -63,24 +64,30 @@ Contract: ${collection.contractAddress}
 ON-CHAIN ANALYTICS:
 ${hasMarketData ? `📈 MARKET HEALTH:
 • Momentum: ${marketHealth.momentum} trend
-• Recent Activity: ${marketHealth.transferCount24h} transfers in 24h
-• Active Traders: ${marketHealth.uniqueTraders24h} unique addresses
+• Transfers: ${marketHealth.windows['24h'].transfers} (24h) / ${marketHealth.windows['7d'].transfers} (7d) / ${marketHealth.windows['30d'].transfers} (30d)
+• Active Traders: ${marketHealth.windows['24h'].traders} (24h) / ${marketHealth.windows['7d'].traders} (7d) / ${marketHealth.windows['30d'].traders} (30d) unique addresses
+• Sales: ${marketHealth.windows['30d'].sales} in 30d totalling ${marketHealth.windows['30d'].volume} ETH
 • Liquidity Score: ${marketHealth.liquidityScore}/100
-• Avg Transaction: ${marketHealth.avgTransactionValue} ETH` : '📈 Market data unavailable'}
+• Avg Sale Price: ${marketHealth.avgTransactionValue} ETH${marketHealth.sales ? `
+• Marketplace Floor: ${marketHealth.sales.floorPrice ?? 'n/a'} ETH | Median Sale (30d): ${marketHealth.sales.medianSale30d ?? 'n/a'} ETH | Marketplace Volume (30d): ${marketHealth.sales.volume30d} ETH` : ''}` : '📈 Market data unavailable'}
 
 ${hasHolderData ? `👥 HOLDER ANALYSIS:
 • Distribution: ${holderAnalysis.distribution} ownership pattern
-• Concentration Risk: ${holderAnalysis.concentrationRatio}% held by top holders
+• Concentration Risk: ${holderAnalysis.concentrationRatio}% held by top 10 holders
+• Gini Coefficient: ${holderAnalysis.giniCoefficient} (0 = equal, 1 = single owner)
+• Nakamoto Coefficient: ${holderAnalysis.nakamotoCoefficient} holders control >50% of supply
 • Total Holders: ${holderAnalysis.totalHolders}
 • Whale Count: ${holderAnalysis.whaleHolders} major holders (>5% supply)
-• Cross-Collection Holders: ${holderAnalysis.crossCollectionHolders} diversified collectors` : '👥 Holder data unavailable'}
+• Cross-Collection Holders: ${holderAnalysis.crossCollectionHolders} also hold other Shape collections${holderAnalysis.tokenBreakdown ? `
+• Largest Editions: ${holderAnalysis.tokenBreakdown.slice(0, 5).map(token => `#${token.tokenId} (${token.supply} copies, ${token.holders} holders)`).join(', ')}` : ''}` : '👥 Holder data unavailable'}
 
 ${hasActivityData ? `⚡ ACTIVITY TRENDS:
 • Trading Pattern: ${activityTrends.tradingPattern}
-• Transfer Velocity: ${activityTrends.transferVelocity} daily transfers
-• Gas Efficiency: ${activityTrends.gasEfficiency} (Shape Network optimized)
+• Transfer Velocity: ${activityTrends.transferVelocity} daily transfers over ${activityTrends.windowDays} days
+• Weekly Transfers (oldest → newest): ${activityTrends.weeklyTransfers.join(', ')}
+• Gas Efficiency: ${activityTrends.gasEfficiency}${activityTrends.avgGasPerTransfer !== null ? ` (${activityTrends.avgGasPerTransfer.toLocaleString()} gas per transfer)` : ''}
 • Peak Activity: ${activityTrends.peakActivity}
-• Trend Direction: ${activityTrends.trendDirection}` : '⚡ Activity data unavailable'}
+• Trend Direction: ${activityTrends.trendDirection} (regression over weekly buckets)` : '⚡ Activity data unavailable'}
 
 ANALYSIS REQUIREMENTS:
 Provide a professional investment analysis as JSON with this exact structure:
@@ -107,13 +114,9 @@ ANALYSIS GUIDELINES:
 
 Focus on providing actionable investment insights that combine technical analysis with cultural understanding of the Shape Network ecosystem.`;
 
-    // Generate Claude analysis
-    const anthropic = createAnthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY,
-    });
-
+    // Generate analysis with the configured provider
     const { text } = await generateText({
-      model: anthropic('claude-3-5-sonnet-20241022'),
+      model: getLanguageModel(),
       prompt,
     });
 
@@ -0,0 +1,15 @@
+/**
+ * Activity trends endpoint - heatmap, velocity, weekly trend and gas usage
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { createAnalyticsHandler } from '@/lib/analytics-route';
+
+/**
+ * GET /api/analytics/0x.../activity
+ */
+export const GET = createAnalyticsHandler('activity');
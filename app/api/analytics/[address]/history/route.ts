@@ -0,0 +1,67 @@
+/**
+ * Analytics history endpoint - recorded snapshots and period-over-period deltas
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress } from 'viem';
+import { z } from 'zod';
+import { computeSnapshotDeltas, getAnalyticsHistory } from '@/lib/analytics-snapshots';
+
+const historyQuerySchema = z.object({
+  address: z.string().refine((val) => isAddress(val), {
+    message: 'Invalid Ethereum address format',
+  }),
+  days: z.coerce.number().int().min(1).max(180).default(30),
+  period: z.coerce.number().int().min(1).max(90).default(7),
+});
+
+/**
+ * Returns a collection's snapshot history with deltas against `period` days earlier
+ * GET /api/analytics/0x.../history?days=30&period=7
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ address: string }> }
+) {
+  const { address } = await params;
+  const searchParams = request.nextUrl.searchParams;
+
+  const validation = historyQuerySchema.safeParse({
+    address,
+    days: searchParams.get('days') ?? undefined,
+    period: searchParams.get('period') ?? undefined,
+  });
+  if (!validation.success) {
+    return NextResponse.json(
+      {
+        error: 'Validation failed',
+        details: validation.error.errors,
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { days, period } = validation.data;
+
+    // Deltas may need a baseline older than the returned range
+    const [history, deltaHistory] = await Promise.all([
+      getAnalyticsHistory(address, days),
+      getAnalyticsHistory(address, period * 2),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      history,
+      deltas: computeSnapshotDeltas(deltaHistory, period),
+    });
+  } catch (error) {
+    console.error(`❌ API: Analytics history failed for ${address}:`, error);
+    return NextResponse.json({ error: 'Failed to load analytics history' }, { status: 500 });
+  }
+}
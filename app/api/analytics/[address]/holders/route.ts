@@ -0,0 +1,15 @@
+/**
+ * Holder distribution endpoint - concentration, whales and cross-collection overlap
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { createAnalyticsHandler } from '@/lib/analytics-route';
+
+/**
+ * GET /api/analytics/0x.../holders
+ */
+export const GET = createAnalyticsHandler('holders');
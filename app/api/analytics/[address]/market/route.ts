@@ -0,0 +1,15 @@
+/**
+ * Market health endpoint - windowed transfers, sales and momentum
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { createAnalyticsHandler } from '@/lib/analytics-route';
+
+/**
+ * GET /api/analytics/0x.../market
+ */
+export const GET = createAnalyticsHandler('market');
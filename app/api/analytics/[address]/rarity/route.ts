@@ -0,0 +1,15 @@
+/**
+ * Trait rarity endpoint - trait frequencies and tokens ranked by rarity
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { createAnalyticsHandler } from '@/lib/analytics-route';
+
+/**
+ * GET /api/analytics/0x.../rarity
+ */
+export const GET = createAnalyticsHandler('rarity');
@@ -0,0 +1,63 @@
+/**
+ * Holder overlap graph endpoint - Jaccard matrix across every approved collection
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminToken } from '@/lib/admin-auth';
+import { enforceRateLimit } from '@/lib/analytics-route';
+import { getHolderOverlapGraph } from '@/lib/holder-overlap';
+
+/**
+ * Returns the persisted overlap graph, rebuilding it when stale
+ * GET /api/analytics/overlap/graph
+ */
+export async function GET(request: NextRequest) {
+  const limited = enforceRateLimit(request);
+  if (limited) return limited;
+
+  try {
+    const graph = await getHolderOverlapGraph();
+
+    return NextResponse.json({
+      success: true,
+      graph,
+    });
+  } catch (error) {
+    console.error('❌ API: Holder overlap graph failed:', error);
+    return NextResponse.json({ error: 'Failed to build holder overlap graph' }, { status: 500 });
+  }
+}
+
+/**
+ * Forces a rebuild, for external schedulers or after registry changes
+ * POST /api/analytics/overlap/graph
+ * Headers: x-admin-token (ANALYTICS_ADMIN_TOKEN)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const unauthorized = requireAdminToken(request, 'ANALYTICS_ADMIN_TOKEN');
+    if (unauthorized) return unauthorized;
+
+    const graph = await getHolderOverlapGraph({ forceRefresh: true });
+
+    return NextResponse.json({
+      success: true,
+      graph,
+    });
+  } catch (error) {
+    console.error('❌ API: Holder overlap graph rebuild failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Holder overlap graph rebuild failed',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Holder overlap endpoint - shared holders between 2-4 collections
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { computeHolderOverlap } from '@/lib/analytics-engine';
+import { enforceRateLimit, findApprovedCollection } from '@/lib/analytics-route';
+import { compareAddressesSchema } from '@/lib/comparison-schema';
+
+/**
+ * Counts holders shared by each pair of collections and by all of them
+ * GET /api/analytics/overlap?addresses=0x...,0x...
+ */
+export async function GET(request: NextRequest) {
+  const limited = enforceRateLimit(request);
+  if (limited) return limited;
+
+  const validation = compareAddressesSchema.safeParse(
+    request.nextUrl.searchParams.get('addresses')?.split(',').map(address => address.trim()) ?? []
+  );
+  if (!validation.success) {
+    return NextResponse.json(
+      {
+        error: 'Validation failed',
+        details: validation.error.errors,
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const collections = await Promise.all(validation.data.map(findApprovedCollection));
+    const unknown = validation.data.filter((_, i) => !collections[i]);
+    if (unknown.length > 0) {
+      return NextResponse.json({ error: `Unknown collection: ${unknown.join(', ')}` }, { status: 404 });
+    }
+
+    const overlap = await computeHolderOverlap(collections.filter(c => c !== undefined));
+
+    return NextResponse.json({
+      success: true,
+      overlap,
+    });
+  } catch (error) {
+    console.error('❌ API: Holder overlap failed:', error);
+    return NextResponse.json({ error: 'Failed to compute holder overlap' }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Analytics snapshot trigger - records market, holder and activity history for every collection
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminToken } from '@/lib/admin-auth';
+import { recordAnalyticsSnapshots } from '@/lib/analytics-snapshots';
+
+/**
+ * Runs one snapshot pass, for external schedulers (cron, CI) or manual backfills
+ * POST /api/analytics/snapshots
+ * Headers: x-admin-token (ANALYTICS_ADMIN_TOKEN)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const unauthorized = requireAdminToken(request, 'ANALYTICS_ADMIN_TOKEN');
+    if (unauthorized) return unauthorized;
+
+    const result = await recordAnalyticsSnapshots();
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+    });
+  } catch (error) {
+    console.error('❌ API: Analytics snapshot run failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Analytics snapshot run failed',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -8,57 +8,228 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { analyzePersonaCollections } from '@/lib/ai-service';
-import { PERSONA_DEFINITIONS, type PersonaType, type Collection } from '@/lib/collections-data';
+import { z } from 'zod';
+import { isAddress } from 'viem';
+import { analyzePersonaCollections, CurationError, type BlendComponent, type PersonaAnalysisResult } from '@/lib/ai-service';
+import { findPersona, getPersonaDefinitions } from '@/lib/persona-registry';
+import { curationOptionsSchema } from '@/lib/curation-schema';
+import { getStoredOverlapGraph } from '@/lib/holder-overlap';
+import { mapCollectorAffinities } from '@/lib/overlap-graph';
+import { loadCurationImages } from '@/lib/image-cache';
+import { getModelLabel, supportsVision } from '@/lib/llm-provider';
+import { holdCuration } from '@/lib/curation-playlists';
+import { getCollectionCache } from '@/lib/collections-cache';
+import {
+  blendWithCoOwnership,
+  coOwnershipAnalysis,
+  DEFAULT_CO_OWNERSHIP_WEIGHT,
+  recommendByCoOwnership,
+} from '@/lib/co-ownership-recommender';
+import { type PersonaType } from '@/lib/collections-data';
+
+/** Optional blended persona profile produced by the onboarding quiz */
+const blendSchema = z.object({
+  primary: z.string(),
+  weights: z.record(z.string(), z.number().min(0).max(1)),
+  explanation: z.string().optional(),
+});
+
+/** Candidate collection addresses - resolved against the approved collection cache */
+const collectionsSchema = z.array(
+  z.string().refine((val) => isAddress(val), {
+    message: 'Invalid Ethereum address format',
+  })
+).min(1).max(200);
+
+/** Collections the user already holds - seeds for co-ownership recommendations */
+const seedsSchema = z.array(
+  z.string().refine((val) => isAddress(val), {
+    message: 'Invalid Ethereum address format',
+  })
+).max(200).default([]);
+
+/** HTTP status per curation failure: upstream model down vs. unusable model output */
+const CURATION_ERROR_STATUS = {
+  model_unavailable: 503,
+  invalid_output: 502,
+} as const;
 
 /**
  * Server-side AI processing endpoint for persona analysis
  * Validates inputs and delegates to Claude 3.5 Sonnet analysis service
+ * Body: { persona, collections: ["0x..."], blend?, mode?, topPicks?, coOwnershipWeight?, seeds? }
  */
 export async function POST(request: NextRequest) {
   try {
-    const { persona, collections } = await request.json();
+    const { persona, collections, blend, mode, topPicks, coOwnershipWeight, seeds } = await request.json();
 
     // Validate inputs
-    if (!persona || !Array.isArray(collections)) {
+    if (typeof persona !== 'string' || !persona) {
       return NextResponse.json(
-        { error: 'Invalid request: persona and collections array required' },
+        { error: 'Invalid request: persona required' },
         { status: 400 }
       );
     }
 
-    if (!PERSONA_DEFINITIONS[persona as PersonaType]) {
+    const collectionsValidation = collectionsSchema.safeParse(collections);
+    if (!collectionsValidation.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: collectionsValidation.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Ranking mode and top picks cap are configurable per request
+    const optionsValidation = curationOptionsSchema.safeParse({ mode, topPicks, coOwnershipWeight });
+    if (!optionsValidation.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: optionsValidation.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const seedsValidation = seedsSchema.safeParse(seeds);
+    if (!seedsValidation.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: seedsValidation.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Get persona definition from the persona registry
+    const personas = await getPersonaDefinitions();
+    const personaDefinition = findPersona(personas, persona);
+
+    if (!personaDefinition) {
       return NextResponse.json(
         { error: `Unknown persona: ${persona}` },
         { status: 400 }
       );
     }
 
-    // Get persona definition
-    const personaDefinition = PERSONA_DEFINITIONS[persona as PersonaType];
+    // Resolve blended quiz profile against the persona registry
+    let blendComponents: BlendComponent[] | undefined;
+    if (blend !== undefined) {
+      const blendValidation = blendSchema.safeParse(blend);
+      if (!blendValidation.success) {
+        return NextResponse.json(
+          {
+            error: 'Validation failed',
+            details: blendValidation.error.errors,
+          },
+          { status: 400 }
+        );
+      }
+
+      blendComponents = Object.entries(blendValidation.data.weights)
+        .flatMap(([id, weight]) => {
+          const component = findPersona(personas, id);
+          return component && weight > 0 ? [{ persona: component, weight }] : [];
+        });
+    }
+
+    // Candidates come from the approved cache - clients only choose which ones
+    const { collections: approved } = await getCollectionCache();
+    const approvedByAddress = new Map(approved.map(c => [c.contractAddress.toLowerCase(), c]));
+    const candidates = Array.from(new Set(collectionsValidation.data.map(address => address.toLowerCase())))
+      .map(address => approvedByAddress.get(address))
+      .filter(c => c !== undefined);
+
+    if (candidates.length === 0) {
+      return NextResponse.json(
+        { error: 'None of the requested collections are approved' },
+        { status: 400 }
+      );
+    }
+
+    // Co-ownership is a supporting signal - curation proceeds without it
+    const graph = await getStoredOverlapGraph().catch(error => {
+      console.warn('⚠️ API: Holder overlap graph unavailable:', error);
+      return null;
+    });
+    const affinities = graph ? mapCollectorAffinities(graph, candidates.map(c => c.contractAddress)) : {};
+    const coOwnership = graph ? recommendByCoOwnership(graph, candidates, seedsValidation.data) : [];
+    const options = optionsValidation.data;
+
+    // Sample artwork lets vision models judge aesthetics - curation proceeds on text without it
+    const images = supportsVision()
+      ? await loadCurationImages(candidates.map(c => c.contractAddress)).catch(error => {
+          console.warn('⚠️ API: Collection artwork unavailable:', error);
+          return {};
+        })
+      : {};
 
-    console.log(`🤖 API: Starting AI analysis for ${persona.toUpperCase()} persona...`);
+    console.log(`🤖 API: Starting AI analysis for ${persona.toUpperCase()} persona${blendComponents ? ' (blended profile)' : ''}...`);
 
-    // Perform AI analysis server-side
-    const analysis = await analyzePersonaCollections(
-      persona as PersonaType,
+    // Perform AI analysis server-side, falling back to co-ownership alone when the model fails
+    let analysis: PersonaAnalysisResult;
+    try {
+      analysis = blendWithCoOwnership(
+        await analyzePersonaCollections(
+          persona as PersonaType,
+          personaDefinition,
+          candidates,
+          blendComponents,
+          options,
+          affinities,
+          images
+        ),
+        coOwnership,
+        options.coOwnershipWeight ?? DEFAULT_CO_OWNERSHIP_WEIGHT,
+        options.topPicks
+      );
+    } catch (error) {
+      if (!(error instanceof CurationError) || !coOwnership.some(c => c.score > 0)) throw error;
+
+      console.warn(`⚠️ API: AI curation failed (${error.kind}), serving co-ownership recommendations`);
+      const seeded = seedsValidation.data.some(seed => graph?.nodes.some(n => n.contractAddress === seed.toLowerCase()));
+      analysis = coOwnershipAnalysis(coOwnership, seeded, options);
+    }
+
+    console.log(`✅ API: ${analysis.source} analysis complete - ${analysis.selectedCollections.length} collections selected`);
+
+    // Held server-side until the user shares it via POST /api/playlists
+    const shareId = holdCuration(
       personaDefinition,
-      collections as Collection[]
+      analysis,
+      analysis.source === 'co-ownership' ? 'co-ownership' : getModelLabel()
     );
 
-    console.log(`✅ API: AI analysis complete - ${analysis.selectedCollections.length} collections selected`);
-
     return NextResponse.json({
       success: true,
       analysis: {
         selectedCollections: analysis.selectedCollections,
+        curated: analysis.curated,
+        mode: analysis.mode,
         reasoning: analysis.reasoning,
-        confidence: analysis.confidence
+        confidence: analysis.confidence,
+        source: analysis.source,
+        shareId
       }
     });
 
   } catch (error) {
     console.error('❌ API: AI analysis failed:', error);
+
+    if (error instanceof CurationError) {
+      return NextResponse.json(
+        {
+          error: 'AI analysis failed',
+          kind: error.kind,
+          details: error.message
+        },
+        { status: CURATION_ERROR_STATUS[error.kind] }
+      );
+    }
     
     return NextResponse.json(
       { 
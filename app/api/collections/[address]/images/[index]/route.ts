@@ -0,0 +1,75 @@
+/**
+ * Collection artwork endpoint - cached WebP thumbnails of sampled tokens
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress } from 'viem';
+import { z } from 'zod';
+import { findApprovedCollection } from '@/lib/analytics-route';
+import { getThumbnail } from '@/lib/image-cache';
+
+const imageParamsSchema = z.object({
+  address: z.string().refine((val) => isAddress(val), {
+    message: 'Invalid Ethereum address format',
+  }),
+  index: z.coerce.number().int().min(0),
+});
+
+/**
+ * GET /api/collections/0x.../images/0
+ * Thumbnails are built on first request and served from the local asset cache after
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ address: string; index: string }> }
+) {
+  const validation = imageParamsSchema.safeParse(await params);
+  if (!validation.success) {
+    return NextResponse.json(
+      {
+        error: 'Validation failed',
+        details: validation.error.errors,
+      },
+      { status: 400 }
+    );
+  }
+
+  const { address, index } = validation.data;
+
+  try {
+    const collection = await findApprovedCollection(address);
+    if (!collection) {
+      return NextResponse.json({ error: `Unknown collection: ${address}` }, { status: 404 });
+    }
+    if (!collection.sampleImages?.[index]) {
+      return NextResponse.json({ error: `No sample image ${index} for ${address}` }, { status: 404 });
+    }
+
+    const thumbnail = await getThumbnail(collection, index);
+    if (!thumbnail) {
+      return NextResponse.json({ error: 'Artwork unavailable' }, { status: 502 });
+    }
+
+    return new NextResponse(new Uint8Array(thumbnail), {
+      headers: {
+        'Content-Type': 'image/webp',
+        'Cache-Control': 'public, max-age=86400',
+      },
+    });
+  } catch (error) {
+    console.error(`❌ API: Artwork failed for ${address}:`, error);
+
+    return NextResponse.json(
+      {
+        error: 'Artwork failed',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
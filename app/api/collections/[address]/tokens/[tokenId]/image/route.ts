@@ -0,0 +1,84 @@
+/**
+ * Token artwork endpoint - cached WebP thumbnails of individual tokens
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress } from 'viem';
+import { z } from 'zod';
+import { enforceRateLimit, findApprovedCollection, getCachedAnalytics, isAnalyticsCached } from '@/lib/analytics-route';
+import { getTokenThumbnail } from '@/lib/image-cache';
+
+const tokenImageParamsSchema = z.object({
+  address: z.string().refine((val) => isAddress(val), {
+    message: 'Invalid Ethereum address format',
+  }),
+  tokenId: z.string().min(1).max(100),
+});
+
+/**
+ * GET /api/collections/0x.../tokens/42/image
+ * The artwork URL is read from the collection's token metadata, never from the request
+ * Requests that would compute that metadata count against the analytics rate limit
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ address: string; tokenId: string }> }
+) {
+  const validation = tokenImageParamsSchema.safeParse(await params);
+  if (!validation.success) {
+    return NextResponse.json(
+      {
+        error: 'Validation failed',
+        details: validation.error.errors,
+      },
+      { status: 400 }
+    );
+  }
+
+  const { address, tokenId } = validation.data;
+
+  try {
+    const collection = await findApprovedCollection(address);
+    if (!collection) {
+      return NextResponse.json({ error: `Unknown collection: ${address}` }, { status: 404 });
+    }
+
+    if (!isAnalyticsCached('rarity', collection)) {
+      const limited = enforceRateLimit(request);
+      if (limited) return limited;
+    }
+
+    const { analytics: rarity } = await getCachedAnalytics('rarity', collection);
+    const token = rarity.tokens.find(t => t.tokenId === tokenId);
+    if (!token?.image) {
+      return NextResponse.json({ error: `No artwork for ${address} token ${tokenId}` }, { status: 404 });
+    }
+
+    const thumbnail = await getTokenThumbnail(collection.contractAddress, token.tokenId, token.image);
+    if (!thumbnail) {
+      return NextResponse.json({ error: 'Artwork unavailable' }, { status: 502 });
+    }
+
+    return new NextResponse(new Uint8Array(thumbnail), {
+      headers: {
+        'Content-Type': 'image/webp',
+        'Cache-Control': 'public, max-age=86400',
+      },
+    });
+  } catch (error) {
+    console.error(`❌ API: Token artwork failed for ${address} token ${tokenId}:`, error);
+
+    return NextResponse.json(
+      {
+        error: 'Token artwork failed',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * Collection registry endpoint - lists, discovers and reviews Shape collections
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress } from 'viem';
+import { z } from 'zod';
+import { requireAdminToken } from '@/lib/admin-auth';
+import { getRegistryEntries, runCollectionDiscovery, setRegistryStatus } from '@/lib/collection-registry';
+
+const registryActionSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('discover'),
+    fromBlock: z.coerce.bigint().nonnegative().optional(),
+    toBlock: z.coerce.bigint().nonnegative().optional(),
+  }),
+  z.object({
+    action: z.literal('review'),
+    address: z.string().refine((val) => isAddress(val), {
+      message: 'Invalid Ethereum address format',
+    }),
+    status: z.enum(['approved', 'pending', 'rejected']),
+  }),
+]);
+
+/**
+ * Lists registry entries, optionally filtered by status
+ * GET /api/collections/registry?status=approved
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const status = request.nextUrl.searchParams.get('status');
+    const entries = await getRegistryEntries();
+
+    return NextResponse.json({
+      success: true,
+      entries: status ? entries.filter((entry) => entry.status === status) : entries,
+    });
+  } catch (error) {
+    console.error('❌ API: Failed to read collection registry:', error);
+    return NextResponse.json({ error: 'Failed to read collection registry' }, { status: 500 });
+  }
+}
+
+/**
+ * Runs a discovery scan or records a review decision
+ * POST /api/collections/registry
+ * Headers: x-admin-token (REGISTRY_ADMIN_TOKEN)
+ * Body: { action: "discover", fromBlock?, toBlock? } | { action: "review", address, status }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const unauthorized = requireAdminToken(request, 'REGISTRY_ADMIN_TOKEN');
+    if (unauthorized) return unauthorized;
+
+    const body = await request.json();
+
+    const validation = registryActionSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validation.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const payload = validation.data;
+
+    if (payload.action === 'review') {
+      const entry = await setRegistryStatus(payload.address, payload.status);
+      if (!entry) {
+        return NextResponse.json({ error: `Unknown collection: ${payload.address}` }, { status: 404 });
+      }
+      return NextResponse.json({ success: true, entry });
+    }
+
+    console.log('🔭 API: Starting collection discovery scan...');
+
+    const { added, candidates } = await runCollectionDiscovery({
+      fromBlock: payload.fromBlock,
+      toBlock: payload.toBlock,
+    });
+
+    return NextResponse.json({
+      success: true,
+      added,
+      candidatesScanned: candidates.length,
+    });
+  } catch (error) {
+    console.error('❌ API: Collection registry update failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Collection registry update failed',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
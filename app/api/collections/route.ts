@@ -0,0 +1,46 @@
+/**
+ * Server-side collection cache endpoint
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCollectionCache } from '@/lib/collections-cache';
+import { requireAdminToken } from '@/lib/admin-auth';
+
+/**
+ * Serves approved Shape Network collections from the persistent cache
+ * GET /api/collections?refresh=1 forces a blocking refresh
+ * Headers: x-admin-token (REGISTRY_ADMIN_TOKEN) - required for refresh=1 only
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const forceRefresh = request.nextUrl.searchParams.get('refresh') === '1';
+    if (forceRefresh) {
+      const unauthorized = requireAdminToken(request, 'REGISTRY_ADMIN_TOKEN');
+      if (unauthorized) return unauthorized;
+    }
+
+    const cache = await getCollectionCache({ forceRefresh });
+
+    console.log(`🗄️ API: Serving ${cache.totalCollections} collections (${cache.networkStatus})`);
+
+    return NextResponse.json({
+      success: true,
+      cache,
+    });
+  } catch (error) {
+    console.error('❌ API: Collection cache failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Collection cache failed',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Server-side comparative analysis endpoint for 2-4 collections
+ * Gathers cached analytics and holder overlap, then asks the configured LLM for a comparison
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { compareCollections, CurationError, type ComparisonEntry } from '@/lib/ai-service';
+import { computeHolderOverlap } from '@/lib/analytics-engine';
+import { enforceRateLimit, findApprovedCollection, getCachedAnalytics } from '@/lib/analytics-route';
+import { compareAddressesSchema } from '@/lib/comparison-schema';
+import { getModelLabel, isLlmConfigured } from '@/lib/llm-provider';
+
+const compareRequestSchema = z.object({
+  addresses: compareAddressesSchema,
+});
+
+/** HTTP status per comparison failure kind */
+const COMPARISON_ERROR_STATUS = {
+  model_unavailable: 503,
+  invalid_output: 502,
+} as const;
+
+/**
+ * Compares collections side by side
+ * POST /api/compare-analysis
+ * Body: { addresses: ["0x...", "0x..."] }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const limited = enforceRateLimit(request);
+    if (limited) return limited;
+
+    const body = await request.json();
+
+    const validation = compareRequestSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validation.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!isLlmConfigured()) {
+      return NextResponse.json(
+        { error: `AI provider not configured (${getModelLabel()})` },
+        { status: 500 }
+      );
+    }
+
+    const { addresses } = validation.data;
+    const collections = await Promise.all(addresses.map(findApprovedCollection));
+    const unknown = addresses.filter((_, i) => !collections[i]);
+    if (unknown.length > 0) {
+      return NextResponse.json({ error: `Unknown collection: ${unknown.join(', ')}` }, { status: 404 });
+    }
+
+    // Sections usually come from cache - the comparison view loads them first
+    const settle = <T,>(promise: Promise<{ analytics: T }>) => promise.then(r => r.analytics).catch(() => null);
+    const entries: ComparisonEntry[] = await Promise.all(
+      collections.filter(c => c !== undefined).map(async collection => ({
+        collection,
+        market: await settle(getCachedAnalytics('market', collection)),
+        holders: await settle(getCachedAnalytics('holders', collection)),
+        activity: await settle(getCachedAnalytics('activity', collection)),
+      }))
+    );
+    const overlap = await computeHolderOverlap(entries.map(e => e.collection)).catch(() => null);
+
+    const comparison = await compareCollections(entries, overlap);
+
+    return NextResponse.json({
+      success: true,
+      comparison,
+    });
+  } catch (error) {
+    console.error('❌ API: Collection comparison failed:', error);
+
+    if (error instanceof CurationError) {
+      return NextResponse.json(
+        { error: 'Comparison failed', kind: error.kind, details: error.message },
+        { status: COMPARISON_ERROR_STATUS[error.kind] }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Comparison failed',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Single persona endpoint - edits and removes custom personas
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminToken } from '@/lib/admin-auth';
+import { deletePersona, PersonaRegistryError, updatePersona } from '@/lib/persona-registry';
+import { personaInputSchema } from '@/lib/persona-schema';
+
+/**
+ * Updates a custom persona
+ * PUT /api/personas/:id
+ * Headers: x-admin-token (PERSONA_ADMIN_TOKEN)
+ */
+export async function PUT(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const unauthorized = requireAdminToken(request, 'PERSONA_ADMIN_TOKEN');
+    if (unauthorized) return unauthorized;
+
+    const { id } = await params;
+    const body = await request.json();
+
+    const validation = personaInputSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validation.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const persona = await updatePersona(id, validation.data);
+
+    return NextResponse.json({ success: true, persona });
+  } catch (error) {
+    if (error instanceof PersonaRegistryError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('❌ API: Persona update failed:', error);
+    return NextResponse.json({ error: 'Persona update failed' }, { status: 500 });
+  }
+}
+
+/**
+ * Deletes a custom persona
+ * DELETE /api/personas/:id
+ * Headers: x-admin-token (PERSONA_ADMIN_TOKEN)
+ */
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const unauthorized = requireAdminToken(request, 'PERSONA_ADMIN_TOKEN');
+    if (unauthorized) return unauthorized;
+
+    const { id } = await params;
+    await deletePersona(id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof PersonaRegistryError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('❌ API: Persona deletion failed:', error);
+    return NextResponse.json({ error: 'Persona deletion failed' }, { status: 500 });
+  }
+}
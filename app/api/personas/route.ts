@@ -0,0 +1,68 @@
+/**
+ * Persona registry endpoint - lists and creates personas
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminToken } from '@/lib/admin-auth';
+import { createPersona, getPersonaDefinitions, PersonaRegistryError } from '@/lib/persona-registry';
+import { personaInputSchema } from '@/lib/persona-schema';
+
+/**
+ * Lists built-in and custom personas keyed by id
+ * GET /api/personas
+ */
+export async function GET() {
+  try {
+    const personas = await getPersonaDefinitions();
+
+    return NextResponse.json({
+      success: true,
+      personas,
+    });
+  } catch (error) {
+    console.error('❌ API: Failed to read persona registry:', error);
+    return NextResponse.json({ error: 'Failed to read persona registry' }, { status: 500 });
+  }
+}
+
+/**
+ * Creates a custom persona
+ * POST /api/personas
+ * Headers: x-admin-token (PERSONA_ADMIN_TOKEN)
+ * Body: { title, emoji, description, color, theme, criteria[], lookFor[] }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const unauthorized = requireAdminToken(request, 'PERSONA_ADMIN_TOKEN');
+    if (unauthorized) return unauthorized;
+
+    const body = await request.json();
+
+    const validation = personaInputSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validation.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const persona = await createPersona(validation.data);
+
+    return NextResponse.json({ success: true, persona }, { status: 201 });
+  } catch (error) {
+    if (error instanceof PersonaRegistryError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('❌ API: Persona creation failed:', error);
+    return NextResponse.json({ error: 'Persona creation failed' }, { status: 500 });
+  }
+}
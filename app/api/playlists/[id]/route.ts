@@ -0,0 +1,31 @@
+/**
+ * Curation playlist endpoint - read-only access to shared curations
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getPlaylist } from '@/lib/curation-playlists';
+
+/**
+ * Returns one saved curation playlist
+ * GET /api/playlists/:id
+ */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const playlist = await getPlaylist(id);
+
+    if (!playlist) {
+      return NextResponse.json({ error: `Unknown playlist: ${id}` }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, playlist });
+  } catch (error) {
+    console.error('❌ API: Playlist lookup failed:', error);
+    return NextResponse.json({ error: 'Playlist lookup failed' }, { status: 500 });
+  }
+}
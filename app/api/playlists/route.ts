@@ -0,0 +1,51 @@
+/**
+ * Curation sharing endpoint - saves a server-held curation as a playlist
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { SHARE_ID_PATTERN, sharePlaylist } from '@/lib/curation-playlists';
+
+const shareRequestSchema = z.object({
+  shareId: z.string().regex(SHARE_ID_PATTERN, { message: 'Invalid share id' }),
+});
+
+/**
+ * Saves the curation behind a share id and returns its permalink id
+ * POST /api/playlists
+ * Body: { shareId: "<shareId from /api/analyze-persona>" }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const validation = shareRequestSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validation.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const playlist = await sharePlaylist(validation.data.shareId);
+    if (!playlist) {
+      return NextResponse.json(
+        { error: 'Curation expired - run the analysis again to share it' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, playlist: { id: playlist.id } });
+  } catch (error) {
+    console.error('❌ API: Playlist save failed:', error);
+    return NextResponse.json({ error: 'Playlist save failed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Token-level recommendation endpoint - the second curation stage after collection picks
+ * Ranks a collection's tokens by rarity, then asks the configured LLM which fit a persona
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress } from 'viem';
+import { z } from 'zod';
+import { CurationError, recommendPersonaTokens } from '@/lib/ai-service';
+import { enforceRateLimit, findApprovedCollection, getCachedAnalytics } from '@/lib/analytics-route';
+import { DEFAULT_TOKEN_PICKS, MAX_TOKEN_PICKS } from '@/lib/curation-schema';
+import { loadTokenImages } from '@/lib/image-cache';
+import { getModelLabel, isLlmConfigured, supportsVision } from '@/lib/llm-provider';
+import { findPersona, getPersonaDefinitions } from '@/lib/persona-registry';
+import { selectCandidateTokens } from '@/lib/trait-rarity';
+
+/** Candidate tokens listed in the prompt */
+const CANDIDATE_TOKENS = 40;
+
+const tokenRequestSchema = z.object({
+  persona: z.string().min(1),
+  contractAddress: z.string().refine((val) => isAddress(val), {
+    message: 'Invalid Ethereum address format',
+  }),
+  picks: z.number().int().min(1).max(MAX_TOKEN_PICKS).default(DEFAULT_TOKEN_PICKS),
+});
+
+/** HTTP status per curation failure kind */
+const CURATION_ERROR_STATUS = {
+  model_unavailable: 503,
+  invalid_output: 502,
+} as const;
+
+/**
+ * Recommends specific tokens of one collection for a persona
+ * POST /api/recommend-tokens
+ * Body: { persona: "zen", contractAddress: "0x...", picks?: 6 }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const limited = enforceRateLimit(request);
+    if (limited) return limited;
+
+    const validation = tokenRequestSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validation.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!isLlmConfigured()) {
+      return NextResponse.json(
+        { error: `AI provider not configured (${getModelLabel()})` },
+        { status: 500 }
+      );
+    }
+
+    const { persona, contractAddress, picks } = validation.data;
+
+    const personas = await getPersonaDefinitions();
+    const personaDefinition = findPersona(personas, persona);
+    if (!personaDefinition) {
+      return NextResponse.json({ error: `Unknown persona: ${persona}` }, { status: 400 });
+    }
+
+    const collection = await findApprovedCollection(contractAddress);
+    if (!collection) {
+      return NextResponse.json({ error: `Unknown collection: ${contractAddress}` }, { status: 404 });
+    }
+
+    // Usually cached - the analytics panel's rarity section reads the same metadata
+    const { analytics: rarity } = await getCachedAnalytics('rarity', collection);
+    const candidates = selectCandidateTokens(rarity.tokens, CANDIDATE_TOKENS);
+    if (candidates.length === 0) {
+      return NextResponse.json({ error: `No token metadata for ${contractAddress}` }, { status: 404 });
+    }
+
+    // Artwork lets vision models judge the tokens themselves - picks proceed on traits without it
+    const images = supportsVision()
+      ? await loadTokenImages(collection.contractAddress, candidates).catch(error => {
+          console.warn('⚠️ API: Token artwork unavailable:', error);
+          return {};
+        })
+      : {};
+
+    const recommendations = await recommendPersonaTokens(
+      persona,
+      personaDefinition,
+      collection,
+      candidates,
+      rarity.traits,
+      picks,
+      images
+    );
+
+    return NextResponse.json({
+      success: true,
+      recommendations,
+    });
+  } catch (error) {
+    console.error('❌ API: Token recommendations failed:', error);
+
+    if (error instanceof CurationError) {
+      return NextResponse.json(
+        { error: 'Token recommendations failed', kind: error.kind, details: error.message },
+        { status: CURATION_ERROR_STATUS[error.kind] }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Token recommendations failed',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Co-ownership recommendations endpoint - item-item collaborative filtering without the LLM
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress } from 'viem';
+import { z } from 'zod';
+import { enforceRateLimit } from '@/lib/analytics-route';
+import { getCollectionCache } from '@/lib/collections-cache';
+import { getHolderOverlapGraph } from '@/lib/holder-overlap';
+import { recommendByCoOwnership } from '@/lib/co-ownership-recommender';
+
+const recommendationsQuerySchema = z.object({
+  seeds: z.array(
+    z.string().refine((val) => isAddress(val), {
+      message: 'Invalid Ethereum address format',
+    })
+  ).max(200),
+  limit: z.coerce.number().int().min(1).max(20).default(4),
+});
+
+/**
+ * Recommends approved collections co-held with the seed collections
+ * Without seeds, ranks collections by how widely their collectors hold other collections
+ * GET /api/recommendations?seeds=0x...,0x...&limit=4
+ */
+export async function GET(request: NextRequest) {
+  const limited = enforceRateLimit(request);
+  if (limited) return limited;
+
+  const params = request.nextUrl.searchParams;
+  const validation = recommendationsQuerySchema.safeParse({
+    seeds: params.get('seeds')?.split(',').map(seed => seed.trim()).filter(Boolean) ?? [],
+    limit: params.get('limit') ?? undefined,
+  });
+  if (!validation.success) {
+    return NextResponse.json(
+      {
+        error: 'Validation failed',
+        details: validation.error.errors,
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { seeds, limit } = validation.data;
+    const [graph, { collections }] = await Promise.all([getHolderOverlapGraph(), getCollectionCache()]);
+    const recommendations = recommendByCoOwnership(graph, collections, seeds)
+      .filter(c => c.score > 0)
+      .slice(0, limit);
+
+    return NextResponse.json({
+      success: true,
+      recommendations,
+      graphBuiltAt: graph.builtAt,
+    });
+  } catch (error) {
+    console.error('❌ API: Co-ownership recommendations failed:', error);
+    return NextResponse.json({ error: 'Failed to compute recommendations' }, { status: 500 });
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Sales ledger endpoint - floor, volume, median sale and floor history
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress } from 'viem';
+import { getSalesSummary } from '@/lib/sales-ledger';
+import { enforceRateLimit, findApprovedCollection } from '@/lib/analytics-route';
+
+/**
+ * Syncs an approved collection's sales ledger and returns its price summary
+ * GET /api/sales/0x...
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ address: string }> }
+) {
+  const limited = enforceRateLimit(request);
+  if (limited) return limited;
+
+  const { address } = await params;
+
+  if (!isAddress(address)) {
+    return NextResponse.json({ error: 'Invalid Ethereum address format' }, { status: 400 });
+  }
+
+  try {
+    const collection = await findApprovedCollection(address);
+    if (!collection) {
+      return NextResponse.json({ error: `Unknown collection: ${address}` }, { status: 404 });
+    }
+
+    const sales = await getSalesSummary(collection.contractAddress);
+
+    return NextResponse.json({
+      success: true,
+      sales,
+    });
+  } catch (error) {
+    console.error(`❌ API: Sales ledger failed for ${address}:`, error);
+    return NextResponse.json({ error: 'Failed to load sales ledger' }, { status: 500 });
+  }
+}
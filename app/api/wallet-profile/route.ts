@@ -0,0 +1,51 @@
+/**
+ * Wallet profile endpoint - infers a persona from Shape Network holdings
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress } from 'viem';
+import { z } from 'zod';
+import { fetchWalletProfile } from '@/lib/wallet-profile';
+
+const walletProfileSchema = z.object({
+  address: z.string().refine((val) => isAddress(val), {
+    message: 'Invalid Ethereum address format',
+  }),
+});
+
+/**
+ * Builds a wallet profile for persona preselection and owned-collection exclusion
+ * POST /api/wallet-profile
+ * Body: { address: "0x..." }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const validation = walletProfileSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validation.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const profile = await fetchWalletProfile(validation.data.address);
+
+    return NextResponse.json({
+      success: true,
+      profile,
+    });
+  } catch (error) {
+    console.error('❌ API: Wallet profile failed:', error);
+    return NextResponse.json({ error: 'Failed to build wallet profile' }, { status: 500 });
+  }
+}
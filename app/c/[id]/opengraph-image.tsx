@@ -0,0 +1,75 @@
+/**
+ * Open Graph image for a shared curation playlist - persona, picks and their artwork
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { ImageResponse } from 'next/og';
+import { getPlaylist } from '@/lib/curation-playlists';
+import { getCollectionCoverPng } from '@/lib/image-cache';
+
+export const alt = 'ShapeMeAI curation playlist';
+export const size = { width: 1200, height: 630 };
+export const contentType = 'image/png';
+
+/** Collections pictured in the preview */
+const PREVIEW_COLLECTIONS = 4;
+
+/** Truncates a label to fit under a preview tile */
+function clip(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+/**
+ * Renders the playlist preview; unknown ids get a generic ShapeMeAI card
+ */
+export default async function OpenGraphImage({ params }: { params: { id: string } }) {
+  const playlist = await getPlaylist(params.id);
+
+  if (!playlist) {
+    return new ImageResponse(
+      (
+        <div style={{ width: '100%', height: '100%', display: 'flex', alignItems: 'center', justifyContent: 'center', background: '#0b0b12', color: '#fff', fontSize: 64 }}>
+          ShapeMeAI
+        </div>
+      ),
+      size
+    );
+  }
+
+  const entries = playlist.collections.slice(0, PREVIEW_COLLECTIONS);
+  // Artwork is optional - a failed thumbnail becomes an empty tile
+  const covers = await Promise.all(entries.map(entry =>
+    getCollectionCoverPng(entry.contractAddress)
+      .then(png => (png ? `data:image/png;base64,${png.toString('base64')}` : null))
+      .catch(() => null)
+  ));
+
+  return new ImageResponse(
+    (
+      <div style={{ width: '100%', height: '100%', display: 'flex', flexDirection: 'column', padding: 56, background: '#0b0b12', color: '#fff' }}>
+        <div style={{ display: 'flex', fontSize: 24, color: '#a78bfa' }}>ShapeMeAI · Shape Network curation</div>
+        <div style={{ display: 'flex', alignItems: 'center', marginTop: 12, fontSize: 60, fontWeight: 700 }}>
+          {playlist.persona.emoji} {playlist.persona.title}
+        </div>
+        <div style={{ display: 'flex', gap: 24, marginTop: 40 }}>
+          {entries.map((entry, i) => (
+            <div key={entry.contractAddress} style={{ display: 'flex', flexDirection: 'column', width: 252 }}>
+              <div style={{ display: 'flex', width: 252, height: 252, borderRadius: 16, overflow: 'hidden', background: '#1f1f2e' }}>
+                {covers[i] && <img src={covers[i]!} width={252} height={252} alt="" style={{ objectFit: 'cover' }} />}
+              </div>
+              <div style={{ display: 'flex', marginTop: 12, fontSize: 24 }}>{clip(entry.name || 'Unnamed', 20)}</div>
+              {entry.score !== null && (
+                <div style={{ display: 'flex', fontSize: 20, color: '#a1a1aa' }}>{entry.score}% match</div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    ),
+    { ...size, emoji: 'twemoji' }
+  );
+}
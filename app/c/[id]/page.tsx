@@ -0,0 +1,131 @@
+/**
+ * Shared curation playlist page - read-only permalink for one persona curation
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import type { Metadata } from 'next';
+import Image from 'next/image';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { ExternalLink } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { getPlaylist } from '@/lib/curation-playlists';
+import { getCollectionCache } from '@/lib/collections-cache';
+import { getThumbnailUrl } from '@/lib/collections-data';
+
+/** Props for the playlist page */
+interface PlaylistPageProps {
+  params: Promise<{ id: string }>;
+}
+
+/** How each curation source is described on the page */
+const SOURCE_LABELS = {
+  llm: 'AI curation',
+  blended: 'AI curation blended with co-ownership',
+  'co-ownership': 'Co-ownership recommendations',
+  rules: 'Rule-based matching',
+} as const;
+
+export async function generateMetadata({ params }: PlaylistPageProps): Promise<Metadata> {
+  const { id } = await params;
+  const playlist = await getPlaylist(id);
+  if (!playlist) return { title: 'Playlist not found' };
+
+  const title = `${playlist.persona.emoji} ${playlist.persona.title} picks`;
+  const description = `${playlist.collections.map(c => c.name || 'Unnamed').join(', ')} - Shape Network collections curated for the ${playlist.persona.title} persona`;
+
+  return {
+    title,
+    description,
+    alternates: { canonical: `/c/${id}` },
+    openGraph: { type: 'website', url: `/c/${id}`, title, description },
+    twitter: { card: 'summary_large_image', title, description },
+  };
+}
+
+export default async function PlaylistPage({ params }: PlaylistPageProps) {
+  const { id } = await params;
+  const playlist = await getPlaylist(id);
+  if (!playlist) notFound();
+
+  // Links and artwork come from the approved collections, never from the stored record
+  const { collections } = await getCollectionCache();
+  const approved = new Map(collections.map(c => [c.contractAddress.toLowerCase(), c]));
+  const entries = playlist.collections.map(entry => {
+    const collection = approved.get(entry.contractAddress.toLowerCase());
+    return {
+      ...entry,
+      openSeaUrl: collection?.openSeaUrl ?? null,
+      thumbnailUrl: collection?.sampleImages?.length ? getThumbnailUrl(collection, 0) : null,
+    };
+  });
+
+  return (
+    <main className="max-w-3xl mx-auto">
+      <div className="flex items-center gap-4 mb-2">
+        <span className="text-5xl">{playlist.persona.emoji}</span>
+        <div>
+          <h1 className="text-2xl font-bold">{playlist.persona.title} picks</h1>
+          <p className="text-gray-600 dark:text-gray-300">{playlist.persona.description}</p>
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-6">
+        {SOURCE_LABELS[playlist.source]} • {playlist.model} • {new Date(playlist.createdAt).toUTCString()}
+      </p>
+
+      <Card className="p-4 mb-6">
+        <p className="text-sm text-gray-700 dark:text-gray-300">{playlist.reasoning}</p>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">{Math.round(playlist.confidence * 100)}% confidence</p>
+      </Card>
+
+      <div className="space-y-4">
+        {entries.map((entry, i) => (
+          <Card key={entry.contractAddress} className="p-4">
+            <div className="flex items-start gap-4">
+              <div className="relative w-16 h-16 flex-shrink-0 rounded-lg overflow-hidden bg-gray-100 dark:bg-gray-800 flex items-center justify-center">
+                <span className="text-2xl">{playlist.persona.emoji}</span>
+                {entry.thumbnailUrl && (
+                  <Image src={entry.thumbnailUrl} alt={entry.name || 'Collection artwork'} fill unoptimized className="object-cover" />
+                )}
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-start justify-between gap-2">
+                  <h2 className="text-lg font-semibold">
+                    {i + 1}. {entry.name || 'Unknown Collection'}
+                  </h2>
+                  {entry.score !== null && (
+                    <span className="flex-shrink-0 px-2 py-1 rounded text-xs font-medium bg-gray-100 dark:bg-gray-800">
+                      {entry.score}% match
+                    </span>
+                  )}
+                </div>
+                {entry.rationale && (
+                  <p className="text-sm text-gray-700 dark:text-gray-300 mb-3">{entry.rationale}</p>
+                )}
+                {entry.openSeaUrl && (
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={entry.openSeaUrl} target="_blank" rel="noopener noreferrer">
+                      <ExternalLink className="w-3 h-3 mr-1" />
+                      OpenSea
+                    </a>
+                  </Button>
+                )}
+              </div>
+            </div>
+          </Card>
+        ))}
+      </div>
+
+      <div className="text-center mt-8">
+        <Button asChild>
+          <Link href="/">Find your own picks</Link>
+        </Button>
+      </div>
+    </main>
+  );
+}
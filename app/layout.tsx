@@ -114,6 +114,12 @@ export default function RootLayout({
                   </svg>
                 </Link>
                 <div className="flex items-center gap-2">
+                  <Link
+                    href="/overlap"
+                    className="text-muted-foreground hover:text-foreground mr-2 text-sm transition-colors"
+                  >
+                    Holder overlap
+                  </Link>
                   <ThemeToggle />
                   <WalletConnect />
                 </div>
@@ -0,0 +1,30 @@
+/**
+ * Holder overlap page - which Shape collections share collectors
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import type { Metadata } from 'next';
+import { HolderOverlapGraph } from '@/components/widget/HolderOverlapGraph';
+
+export const metadata: Metadata = {
+  title: 'Holder Overlap',
+  description: 'Collector overlap between Shape Network NFT collections',
+};
+
+export default function OverlapPage() {
+  return (
+    <main className="max-w-6xl mx-auto">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold">Holder Overlap</h1>
+        <p className="text-gray-600 dark:text-gray-300">
+          How Shape Network collections share collectors, measured by the Jaccard index of their holders
+        </p>
+      </div>
+      <HolderOverlapGraph />
+    </main>
+  );
+}
@@ -0,0 +1,49 @@
+/**
+ * Weekday × hour transfer heatmap for the Activity Trends panel
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+'use client';
+
+import { WEEKDAYS, type ActivityHeatmap as HeatmapData } from '@/lib/activity-metrics';
+
+/** Props for ActivityHeatmap component */
+interface ActivityHeatmapProps {
+  heatmap: HeatmapData;
+}
+
+/**
+ * Renders one row per UTC weekday and one cell per hour, shaded by transfer count
+ */
+export function ActivityHeatmap({ heatmap }: ActivityHeatmapProps) {
+  const max = Math.max(1, ...heatmap.flat());
+
+  return (
+    <div className="text-[10px] text-gray-500 dark:text-gray-400">
+      {heatmap.map((hours, day) => (
+        <div key={day} className="flex items-center gap-1 mb-0.5">
+          <span className="w-7 flex-shrink-0">{WEEKDAYS[day].slice(0, 3)}</span>
+          <div className="grid flex-1 gap-px" style={{ gridTemplateColumns: 'repeat(24, minmax(0, 1fr))' }}>
+            {hours.map((count, hour) => (
+              <div
+                key={hour}
+                className="h-2.5 rounded-sm bg-purple-600"
+                style={{ opacity: count === 0 ? 0.08 : 0.2 + 0.8 * (count / max) }}
+                title={`${WEEKDAYS[day]} ${String(hour).padStart(2, '0')}:00 UTC - ${count} transfers`}
+              />
+            ))}
+          </div>
+        </div>
+      ))}
+      <div className="flex justify-between pl-8">
+        <span>00h</span>
+        <span>12h</span>
+        <span>23h</span>
+      </div>
+    </div>
+  );
+}
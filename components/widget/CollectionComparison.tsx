@@ -0,0 +1,240 @@
+/**
+ * Side-by-side comparison of 2-4 collections with holder overlap and an AI summary
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Brain, Loader2, Users, X } from 'lucide-react';
+import { type Collection } from '@/lib/collections-data';
+import { type CollectionComparison as ComparisonResult } from '@/lib/ai-service';
+import {
+  fetchActivityTrends,
+  fetchComparisonSummary,
+  fetchHolderAnalysis,
+  fetchHolderOverlap,
+  fetchMarketHealth,
+  type ActivityAnalytics,
+  type HolderAnalytics,
+  type HolderOverlap,
+  type MarketAnalytics,
+} from '@/lib/analytics-service';
+
+/** Props for CollectionComparison component */
+interface CollectionComparisonProps {
+  collections: Collection[];
+  onClose: () => void;
+}
+
+/** Analytics loaded for one compared collection; null when a section failed */
+interface ComparedMetrics {
+  market: MarketAnalytics | null;
+  holders: HolderAnalytics | null;
+  activity: ActivityAnalytics | null;
+}
+
+/** One table row: label plus a cell renderer per collection */
+interface ComparisonRow {
+  label: string;
+  value: (collection: Collection, metrics: ComparedMetrics | undefined) => string | number | null | undefined;
+}
+
+const COMPARISON_ROWS: ComparisonRow[] = [
+  { label: 'Standard', value: c => c.standard?.toUpperCase() },
+  { label: 'Supply', value: c => c.totalSupply?.toLocaleString() },
+  { label: 'Owners', value: c => c.owners?.toLocaleString() },
+  { label: 'Transfers (30d)', value: (_, m) => m?.market?.windows['30d'].transfers },
+  { label: 'Sales (30d)', value: (_, m) => m?.market?.windows['30d'].sales },
+  { label: 'Volume (30d)', value: (_, m) => m?.market && `${m.market.windows['30d'].volume} ETH` },
+  { label: 'Floor', value: (_, m) => m?.market?.sales?.floorPrice != null ? `${m.market.sales.floorPrice} ETH` : null },
+  { label: 'Liquidity', value: (_, m) => m?.market && `${m.market.liquidityScore}/100` },
+  { label: 'Momentum', value: (_, m) => m?.market?.momentum },
+  { label: 'Top 10 Share', value: (_, m) => m?.holders && `${m.holders.concentrationRatio}%` },
+  { label: 'Gini', value: (_, m) => m?.holders?.giniCoefficient },
+  { label: 'Nakamoto', value: (_, m) => m?.holders?.nakamotoCoefficient },
+  { label: 'Whales', value: (_, m) => m?.holders?.whaleHolders },
+  { label: 'Velocity', value: (_, m) => m?.activity && `${m.activity.transferVelocity}/day` },
+  { label: 'Trend', value: (_, m) => m?.activity?.trendDirection },
+  { label: 'Peak', value: (_, m) => m?.activity?.peakActivity },
+];
+
+/** Resolves a section, turning failures into null so one error doesn't blank the table */
+function settle<T>(promise: Promise<T>): Promise<T | null> {
+  return promise.catch(error => {
+    console.warn('⚠️ Comparison section unavailable:', error);
+    return null;
+  });
+}
+
+/**
+ * Loads every analytics section for the compared collections and renders them side by side
+ * The AI summary is generated on demand, reusing the server's cached analytics
+ */
+export function CollectionComparison({ collections, onClose }: CollectionComparisonProps) {
+  const [metrics, setMetrics] = useState<Record<string, ComparedMetrics>>({});
+  const [overlap, setOverlap] = useState<HolderOverlap | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [comparison, setComparison] = useState<ComparisonResult | null>(null);
+  const [comparing, setComparing] = useState(false);
+  const [comparisonError, setComparisonError] = useState<string | null>(null);
+
+  /** Reload only when the selection itself changes - parents rebuild the array on every render */
+  const addressKey = collections.map(c => c.contractAddress).join(',');
+  const collectionsRef = useRef(collections);
+
+  useEffect(() => {
+    collectionsRef.current = collections;
+  }, [collections]);
+
+  useEffect(() => {
+    const selected = collectionsRef.current;
+    let cancelled = false;
+    setLoading(true);
+    setComparison(null);
+    setComparisonError(null);
+
+    Promise.all([
+      Promise.all(selected.map(async collection => {
+        const [market, holders, activity] = await Promise.all([
+          settle(fetchMarketHealth(collection)),
+          settle(fetchHolderAnalysis(collection)),
+          settle(fetchActivityTrends(collection)),
+        ]);
+        return [collection.contractAddress, { market, holders, activity }] as const;
+      })),
+      settle(fetchHolderOverlap(selected)),
+    ]).then(([loaded, overlapResult]) => {
+      if (cancelled) return;
+      setMetrics(Object.fromEntries(loaded));
+      setOverlap(overlapResult);
+      setLoading(false);
+    });
+
+    return () => { cancelled = true; };
+  }, [addressKey]);
+
+  /** Requests the LLM comparative summary */
+  const generateSummary = async () => {
+    setComparing(true);
+    setComparisonError(null);
+    try {
+      setComparison(await fetchComparisonSummary(collections));
+    } catch (error) {
+      setComparisonError(error instanceof Error ? error.message : 'Comparison failed');
+    } finally {
+      setComparing(false);
+    }
+  };
+
+  const nameOf = (address: string) =>
+    collections.find(c => c.contractAddress.toLowerCase() === address.toLowerCase())?.name || `${address.slice(0, 6)}...`;
+
+  return (
+    <Card className="p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold">Comparing {collections.length} collections</h3>
+        <Button variant="ghost" size="sm" onClick={onClose}>
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center text-sm text-gray-600 dark:text-gray-400 py-6 justify-center">
+          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          Loading analytics for every collection...
+        </div>
+      ) : (
+        <>
+          <div className="overflow-x-auto mb-4">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-gray-500 dark:text-gray-400">
+                  <th className="text-left font-normal py-1"></th>
+                  {collections.map(c => (
+                    <th key={c.contractAddress} className="text-right font-medium py-1 px-2">
+                      {c.name || 'Unknown'}
+                      {comparison?.standout.contractAddress === c.contractAddress && ' ⭐'}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {COMPARISON_ROWS.map(row => (
+                  <tr key={row.label} className="border-t border-gray-100 dark:border-gray-800">
+                    <td className="text-gray-500 dark:text-gray-400 py-1">{row.label}</td>
+                    {collections.map(c => (
+                      <td key={c.contractAddress} className="text-right font-medium py-1 px-2">
+                        {row.value(c, metrics[c.contractAddress]) ?? '-'}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4 mb-4">
+            <div className="flex items-center mb-2">
+              <Users className="w-4 h-4 mr-2 text-blue-600" />
+              <h5 className="font-medium text-sm">Shared Holders</h5>
+            </div>
+            {overlap ? (
+              <ul className="text-xs space-y-1">
+                {overlap.pairs.map(pair => (
+                  <li key={`${pair.a}:${pair.b}`}>
+                    {nameOf(pair.a)} & {nameOf(pair.b)}: <span className="font-medium">{pair.shared}</span> shared holders
+                  </li>
+                ))}
+                {collections.length > 2 && (
+                  <li>Holding all {collections.length}: <span className="font-medium">{overlap.sharedByAll}</span></li>
+                )}
+              </ul>
+            ) : (
+              <p className="text-xs text-gray-500 dark:text-gray-400">Holder overlap unavailable</p>
+            )}
+          </div>
+
+          {comparison ? (
+            <div className="bg-purple-50 dark:bg-purple-950 rounded-lg p-4">
+              <div className="flex items-center mb-2">
+                <Brain className="w-4 h-4 mr-2 text-purple-600" />
+                <h5 className="font-medium text-sm">AI Comparison</h5>
+                <span className="ml-auto text-xs bg-white dark:bg-gray-700 px-2 py-1 rounded">
+                  {Math.round(comparison.confidence * 100)}% confidence
+                </span>
+              </div>
+              <p className="text-sm text-gray-700 dark:text-gray-300 mb-3">{comparison.summary}</p>
+              <p className="text-xs mb-3">
+                <span className="font-medium">Standout: {nameOf(comparison.standout.contractAddress)}</span> - {comparison.standout.reason}
+              </p>
+              <ul className="text-xs space-y-1">
+                {comparison.verdicts.map(v => (
+                  <li key={v.contractAddress}>
+                    <span className="font-medium">{nameOf(v.contractAddress)}:</span> {v.verdict}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : (
+            <div>
+              <Button size="sm" onClick={generateSummary} disabled={comparing}>
+                {comparing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Brain className="w-4 h-4 mr-2" />}
+                Generate AI comparison
+              </Button>
+              {comparisonError && (
+                <p className="text-xs text-red-600 mt-2">{comparisonError}</p>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </Card>
+  );
+}
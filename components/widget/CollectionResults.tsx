@@ -10,25 +10,39 @@
 'use client';
 
 import { useState } from 'react';
+import Image from 'next/image';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
-import { ArrowLeft, Search, TrendingUp, Users, Activity, Brain, ExternalLink, Loader2 } from 'lucide-react';
-import { type Collection, type PersonaType, PERSONA_DEFINITIONS } from '@/lib/collections-data';
+import { ArrowLeft, ChevronDown, ChevronUp, Search, TrendingUp, Users, Activity, Brain, ExternalLink, Loader2, Columns, Gem, Sparkles, Share2, Check } from 'lucide-react';
+import { getThumbnailUrl, getTokenThumbnailUrl, type Collection, type PersonaDefinition } from '@/lib/collections-data';
+import { type PersonaAnalysisResult, type TokenRecommendationResult } from '@/lib/ai-service';
+import { FloorPriceChart } from './FloorPriceChart';
+import { ActivityHeatmap } from './ActivityHeatmap';
+import { MetricTrend } from './MetricTrend';
+import { CollectionComparison } from './CollectionComparison';
+import { TokenExplorer } from './TokenExplorer';
+import { MAX_COMPARE, MIN_COMPARE } from '@/lib/comparison-schema';
 import { 
   fetchMarketHealth, 
   fetchHolderAnalysis, 
   fetchActivityTrends, 
+  fetchTokenRarity,
+  fetchTokenRecommendations,
   fetchAIAnalysis,
+  fetchAnalyticsHistory,
+  type AnalyticsHistory,
   type MarketAnalytics,
   type HolderAnalytics,
   type ActivityAnalytics,
+  type RarityAnalytics,
   type AIAnalytics
 } from '@/lib/analytics-service';
 
 /** Props for CollectionResults component */
 interface CollectionResultsProps {
-  persona: PersonaType;
+  persona: PersonaDefinition;
   collections: Collection[];
+  analysis?: PersonaAnalysisResult | null;
   onBack: () => void;
 }
 
@@ -40,30 +54,126 @@ interface AnalyticsState {
       market: boolean;
       holder: boolean;
       activity: boolean;
+      rarity: boolean;
+      picks: boolean;
       ai: boolean;
     };
     data: {
       market?: MarketAnalytics;
       holder?: HolderAnalytics;
       activity?: ActivityAnalytics;
+      rarity?: RarityAnalytics;
+      picks?: TokenRecommendationResult;
       ai?: AIAnalytics;
+      history?: AnalyticsHistory | null; // null once loaded without recorded snapshots
     };
   };
 }
 
+/** Badge color for a 0-100 persona match score */
+function getScoreBadgeClass(score: number): string {
+  if (score >= 75) return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200';
+  if (score >= 50) return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200';
+  return 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200';
+}
+
 /**
  * Displays AI-curated collections with progressive disclosure analytics
- * Each collection has 4 analytics types: Market, Holder, Activity, AI Deep Dive
+ * Each collection has 6 analytics types: Market, Holder, Activity, AI Deep Dive, Token Rarity, Token Picks
+ * Match scores and rationale appear when the results came from AI curation
  */
-export function CollectionResults({ persona, collections, onBack }: CollectionResultsProps) {
-  const personaInfo = PERSONA_DEFINITIONS[persona];
+export function CollectionResults({ persona: personaInfo, collections, analysis, onBack }: CollectionResultsProps) {
   const [analyticsState, setAnalyticsState] = useState<AnalyticsState>({});
+  const [showAlsoConsider, setShowAlsoConsider] = useState(false);
+  const [compareSelection, setCompareSelection] = useState<string[]>([]);
+  const [showComparison, setShowComparison] = useState(false);
+  const [brokenImages, setBrokenImages] = useState<Set<string>>(new Set());
+  const [shareStatus, setShareStatus] = useState<'idle' | 'sharing' | 'copied' | 'failed'>('idle');
+  const [playlistId, setPlaylistId] = useState<string | null>(null);
+
+  /** Per-collection AI match keyed by contract address */
+  const matches = new Map(
+    (analysis?.curated ?? []).map(match => [match.collection.contractAddress, match])
+  );
+
+  /** Ranked collections below the top picks, best first */
+  const topPickAddresses = new Set(collections.map(c => c.contractAddress));
+  const alsoConsider = (analysis?.curated ?? [])
+    .filter(match => !topPickAddresses.has(match.collection.contractAddress))
+    .map(match => match.collection);
+
+  /** Selected collections in the order they were ticked */
+  const comparedCollections = compareSelection
+    .map(address => [...collections, ...alsoConsider].find(c => c.contractAddress === address))
+    .filter((c): c is Collection => !!c);
+
+  /**
+   * Saves the curation as a playlist on first share, then copies its permalink to the clipboard
+   */
+  const sharePlaylist = async () => {
+    if (!analysis?.shareId) return;
+    setShareStatus('sharing');
+
+    let id = playlistId;
+    if (!id) {
+      try {
+        const response = await fetch('/api/playlists', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ shareId: analysis.shareId })
+        });
+        const data = await response.json();
+        if (!response.ok || !data.success) throw new Error(data.error || `Playlist save failed: ${response.statusText}`);
+        id = data.playlist.id as string;
+        setPlaylistId(id);
+      } catch (error) {
+        console.error('Playlist save failed:', error);
+        setShareStatus('failed');
+        setTimeout(() => setShareStatus('idle'), 2000);
+        return;
+      }
+    }
+
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/c/${id}`);
+      setShareStatus('copied');
+      setTimeout(() => setShareStatus('idle'), 2000);
+    } catch (error) {
+      console.error('Playlist link copy failed:', error);
+      setShareStatus('idle');
+      window.open(`/c/${id}`, '_blank');
+    }
+  };
+
+  /**
+   * Hides a thumbnail whose artwork could not be fetched, revealing the persona emoji behind it
+   */
+  const markImageBroken = (src: string) => {
+    setBrokenImages(prev => new Set(prev).add(src));
+  };
+
+  /**
+   * Adds or removes a collection from the compare selection, capped at MAX_COMPARE
+   */
+  const toggleCompare = (contractAddress: string) => {
+    setCompareSelection(prev => {
+      if (prev.includes(contractAddress)) return prev.filter(address => address !== contractAddress);
+      if (prev.length >= MAX_COMPARE) return prev;
+      return [...prev, contractAddress];
+    });
+    setShowComparison(false);
+  };
 
   /**
    * Toggles analytics panel expansion for a specific collection
-   * Initializes analytics state if not present
+   * Initializes analytics state and loads recorded history on first expansion
    */
-  const toggleAnalytics = (contractAddress: string) => {
+  const toggleAnalytics = (collection: Collection) => {
+    const contractAddress = collection.contractAddress;
+    if (analyticsState[contractAddress]?.data?.history === undefined) {
+      loadHistory(collection);
+    }
+
     setAnalyticsState(prev => ({
       ...prev,
       [contractAddress]: {
@@ -81,12 +191,29 @@ export function CollectionResults({ persona, collections, onBack }: CollectionRe
   };
 
   /**
-   * Fetches analytics data for specific type (market/holder/activity/ai)
+   * Loads recorded snapshots so panels can show sparklines and week-over-week deltas
+   */
+  const loadHistory = async (collection: Collection) => {
+    const history = await fetchAnalyticsHistory(collection);
+    setAnalyticsState(prev => ({
+      ...prev,
+      [collection.contractAddress]: {
+        ...prev[collection.contractAddress],
+        data: {
+          ...prev[collection.contractAddress]?.data,
+          history
+        }
+      }
+    }));
+  };
+
+  /**
+   * Fetches analytics data for specific type (market/holder/activity/rarity/picks/ai)
    * Sets loading state, calls appropriate service function, updates UI
    */
   const fetchAnalytics = async (
     collection: Collection, 
-    type: 'market' | 'holder' | 'activity' | 'ai'
+    type: 'market' | 'holder' | 'activity' | 'rarity' | 'picks' | 'ai'
   ) => {
     const contractAddress = collection.contractAddress;
     
@@ -115,6 +242,12 @@ export function CollectionResults({ persona, collections, onBack }: CollectionRe
         case 'activity':
           result = await fetchActivityTrends(collection);
           break;
+        case 'rarity':
+          result = await fetchTokenRarity(collection);
+          break;
+        case 'picks':
+          result = await fetchTokenRecommendations(collection, personaInfo.id);
+          break;
         case 'ai':
           const currentState = analyticsState[contractAddress];
           result = await fetchAIAnalysis(
@@ -173,34 +306,135 @@ export function CollectionResults({ persona, collections, onBack }: CollectionRe
             <div>
               <h1 className="text-2xl font-bold">{personaInfo.title} Collections</h1>
               <p className="text-gray-600 dark:text-gray-300">
-                {collections.length} collections match your {personaInfo.description.toLowerCase()} personality
+                {analysis?.mode === 'rank'
+                  ? `Top ${collections.length} of ${analysis.curated.length} ranked collections for your ${personaInfo.description.toLowerCase()} personality`
+                  : `${collections.length} collections match your ${personaInfo.description.toLowerCase()} personality`}
               </p>
             </div>
           </div>
+          {analysis?.shareId && (
+            <Button variant="outline" className="ml-auto" onClick={sharePlaylist} disabled={shareStatus === 'sharing'}>
+              {shareStatus === 'sharing' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> :
+               shareStatus === 'copied' ? <Check className="w-4 h-4 mr-2" /> : <Share2 className="w-4 h-4 mr-2" />}
+              {shareStatus === 'copied' ? 'Link copied' : shareStatus === 'failed' ? 'Share failed' : 'Share'}
+            </Button>
+          )}
         </div>
 
-        {/* Collections Grid */}
+        {/* Curation Summary */}
+        {analysis && (
+          <Card className="p-4 mb-8">
+            <div className="flex items-center mb-2">
+              <Brain className="w-4 h-4 mr-2 text-purple-600" />
+              <h2 className="font-medium text-sm">Why these collections</h2>
+              {analysis.source !== 'llm' && (
+                <span className="ml-2 text-xs bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200 px-2 py-1 rounded">
+                  {analysis.source === 'blended' ? 'AI + co-ownership' : analysis.source === 'rules' ? 'Persona rules' : 'Co-ownership only'}
+                </span>
+              )}
+              <span className="ml-auto text-xs bg-gray-100 dark:bg-gray-700 px-2 py-1 rounded">
+                {Math.round(analysis.confidence * 100)}% confidence
+              </span>
+            </div>
+            <p className="text-sm text-gray-700 dark:text-gray-300">{analysis.reasoning}</p>
+          </Card>
+        )}
+
+        {/* Compare Mode */}
+        {compareSelection.length > 0 && !showComparison && (
+          <Card className="p-4 mb-6 flex items-center justify-between">
+            <p className="text-sm text-gray-700 dark:text-gray-300">
+              {compareSelection.length < MIN_COMPARE
+                ? `Select at least ${MIN_COMPARE} collections to compare`
+                : `${compareSelection.length} of up to ${MAX_COMPARE} collections selected`}
+            </p>
+            <div className="flex gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setCompareSelection([])}>
+                Clear
+              </Button>
+              <Button size="sm" onClick={() => setShowComparison(true)} disabled={compareSelection.length < MIN_COMPARE}>
+                <Columns className="w-4 h-4 mr-2" />
+                Compare ({compareSelection.length})
+              </Button>
+            </div>
+          </Card>
+        )}
+        {showComparison && comparedCollections.length >= MIN_COMPARE && (
+          <CollectionComparison collections={comparedCollections} onClose={() => setShowComparison(false)} />
+        )}
+
+        {/* Collections Grid - top picks, then the expanded also-consider picks */}
+        {alsoConsider.length > 0 && (
+          <h2 className="text-lg font-semibold mb-4">Top picks</h2>
+        )}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-          {collections.map((collection) => {
+          {[...collections, ...(showAlsoConsider ? alsoConsider : [])].map((collection, index) => {
             const state = analyticsState[collection.contractAddress];
             const isExpanded = state?.expanded || false;
-            
-            return (
+            const match = matches.get(collection.contractAddress);
+            const history = state?.data?.history?.history ?? [];
+            const deltas = state?.data?.history?.deltas;
+            const isCompared = compareSelection.includes(collection.contractAddress);
+            const sampleCount = collection.sampleImages?.length ?? 0;
+    
+            const card = (
               <Card key={collection.contractAddress} className="overflow-hidden hover:shadow-lg transition-all duration-200">
                 {/* Collection Header */}
                 <div className="p-6">
                   <div className="flex items-start space-x-4">
-                    <div className="w-16 h-16 bg-gray-100 dark:bg-gray-800 rounded-lg flex items-center justify-center flex-shrink-0">
+                    <div className="relative w-16 h-16 bg-gray-100 dark:bg-gray-800 rounded-lg flex items-center justify-center flex-shrink-0 overflow-hidden">
                       <span className="text-2xl">{personaInfo.emoji}</span>
+                      {sampleCount > 0 && !brokenImages.has(getThumbnailUrl(collection, 0)) && (
+                        <Image
+                          src={getThumbnailUrl(collection, 0)}
+                          alt={collection.name || 'Collection artwork'}
+                          fill
+                          unoptimized
+                          className="object-cover"
+                          onError={() => markImageBroken(getThumbnailUrl(collection, 0))}
+                        />
+                      )}
                     </div>
                     <div className="flex-1">
-                      <h3 className="text-lg font-semibold mb-1">
-                        {collection.name || 'Unknown Collection'}
-                      </h3>
+                      <div className="flex items-start justify-between gap-2 mb-1">
+                        <h3 className="text-lg font-semibold">
+                          {collection.name || 'Unknown Collection'}
+                        </h3>
+                        {match && (
+                          <span className={`flex-shrink-0 px-2 py-1 rounded text-xs font-medium ${getScoreBadgeClass(match.score)}`}>
+                            {match.score}% match
+                          </span>
+                        )}
+                      </div>
                       <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+                        {collection.standard && `${collection.standard.toUpperCase()} • `}
                         {collection.totalSupply ? `${collection.totalSupply.toLocaleString()} supply` : 'Supply unknown'} • 
                         {collection.owners ? ` ${collection.owners.toLocaleString()} owners` : ' Owners unknown'}
                       </p>
+                      {collection.description && (
+                        <p className="text-xs text-gray-500 dark:text-gray-400 mb-3 line-clamp-2">{collection.description}</p>
+                      )}
+                      {sampleCount > 1 && (
+                        <div className="flex gap-2 mb-3">
+                          {Array.from({ length: sampleCount - 1 }, (_, i) => getThumbnailUrl(collection, i + 1))
+                            .filter(src => !brokenImages.has(src))
+                            .map(src => (
+                              <Image
+                                key={src}
+                                src={src}
+                                alt={`${collection.name || 'Collection'} sample`}
+                                width={48}
+                                height={48}
+                                unoptimized
+                                className="w-12 h-12 rounded object-cover bg-gray-100 dark:bg-gray-800"
+                                onError={() => markImageBroken(src)}
+                              />
+                            ))}
+                        </div>
+                      )}
+                      {match && (
+                        <p className="text-sm text-gray-700 dark:text-gray-300 mb-3">{match.rationale}</p>
+                      )}
                       <div className="flex flex-wrap gap-2">
                         <Button 
                           variant="outline" 
@@ -210,14 +444,33 @@ export function CollectionResults({ persona, collections, onBack }: CollectionRe
                           <ExternalLink className="w-3 h-3 mr-1" />
                           OpenSea
                         </Button>
+                        {collection.externalUrl && (
+                          <Button 
+                            variant="outline" 
+                            size="sm"
+                            onClick={() => window.open(collection.externalUrl!, '_blank')}
+                          >
+                            <ExternalLink className="w-3 h-3 mr-1" />
+                            Website
+                          </Button>
+                        )}
                         <Button 
                           variant="outline" 
                           size="sm" 
-                          onClick={() => toggleAnalytics(collection.contractAddress)}
+                          onClick={() => toggleAnalytics(collection)}
                         >
                           <Search className="w-3 h-3 mr-1" />
                           {isExpanded ? 'Hide' : 'Analyze'}
                         </Button>
+                        <Button 
+                          variant={isCompared ? 'default' : 'outline'} 
+                          size="sm" 
+                          onClick={() => toggleCompare(collection.contractAddress)}
+                          disabled={!isCompared && compareSelection.length >= MAX_COMPARE}
+                        >
+                          <Columns className="w-3 h-3 mr-1" />
+                          {isCompared ? 'Comparing' : 'Compare'}
+                        </Button>
                       </div>
                     </div>
                   </div>
@@ -231,7 +484,7 @@ export function CollectionResults({ persona, collections, onBack }: CollectionRe
                         <Search className="w-4 h-4 mr-2" />
                         Deep Analytics
                       </h4>
-                      
+              
                       {/* Analytics Grid */}
                       <div className="grid grid-cols-2 gap-3 mb-6">
                         {/* Market Health */}
@@ -297,6 +550,38 @@ export function CollectionResults({ persona, collections, onBack }: CollectionRe
                           )}
                           <span className="text-xs font-medium">AI Deep Dive</span>
                         </Button>
+
+                        {/* Token Rarity */}
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => fetchAnalytics(collection, 'rarity')}
+                          disabled={state?.loading?.rarity}
+                          className="h-auto p-3 flex-col items-start"
+                        >
+                          {state?.loading?.rarity ? (
+                            <Loader2 className="w-4 h-4 animate-spin mb-1" />
+                          ) : (
+                            <Gem className="w-4 h-4 mb-1" />
+                          )}
+                          <span className="text-xs font-medium">Token Rarity</span>
+                        </Button>
+
+                        {/* Token Picks */}
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => fetchAnalytics(collection, 'picks')}
+                          disabled={state?.loading?.picks}
+                          className="h-auto p-3 flex-col items-start"
+                        >
+                          {state?.loading?.picks ? (
+                            <Loader2 className="w-4 h-4 animate-spin mb-1" />
+                          ) : (
+                            <Sparkles className="w-4 h-4 mb-1" />
+                          )}
+                          <span className="text-xs font-medium">Token Picks</span>
+                        </Button>
                       </div>
 
                       {/* Analytics Results */}
@@ -309,18 +594,79 @@ export function CollectionResults({ persona, collections, onBack }: CollectionRe
                                 <TrendingUp className="w-4 h-4 mr-2 text-green-600" />
                                 <h5 className="font-medium text-sm">Market Health</h5>
                               </div>
-                              <div className="grid grid-cols-2 gap-4 text-xs">
-                                <div>
-                                  <p className="text-gray-500 dark:text-gray-400">24h Transfers</p>
-                                  <p className="font-medium">{state.data.market.transferCount24h}</p>
+                              <table className="w-full text-xs mb-3">
+                                <thead>
+                                  <tr className="text-gray-500 dark:text-gray-400">
+                                    <th className="text-left font-normal"></th>
+                                    <th className="text-right font-normal">24h</th>
+                                    <th className="text-right font-normal">7d</th>
+                                    <th className="text-right font-normal">30d</th>
+                                  </tr>
+                                </thead>
+                                <tbody className="font-medium">
+                                  {([
+                                    ['Transfers', 'transfers'],
+                                    ['Traders', 'traders'],
+                                    ['Sales', 'sales'],
+                                    ['Volume (ETH)', 'volume'],
+                                  ] as const).map(([label, key]) => (
+                                    <tr key={key}>
+                                      <td className="text-gray-500 dark:text-gray-400 font-normal">{label}</td>
+                                      <td className="text-right">{state.data.market!.windows['24h'][key]}</td>
+                                      <td className="text-right">{state.data.market!.windows['7d'][key]}</td>
+                                      <td className="text-right">{state.data.market!.windows['30d'][key]}</td>
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                              {state.data.market.sales && (
+                                <div className="mb-3">
+                                  <div className="grid grid-cols-3 gap-4 text-xs mb-2">
+                                    <div>
+                                      <p className="text-gray-500 dark:text-gray-400">Floor</p>
+                                      <p className="font-medium">
+                                        {state.data.market.sales.floorPrice !== null ? `${state.data.market.sales.floorPrice} ETH` : 'No sales'}
+                                      </p>
+                                      <MetricTrend
+                                        values={history.map(point => point.market?.floorPrice ?? null)}
+                                        delta={deltas?.market.floorPrice}
+                                      />
+                                    </div>
+                                    <div>
+                                      <p className="text-gray-500 dark:text-gray-400">Median Sale (30d)</p>
+                                      <p className="font-medium">
+                                        {state.data.market.sales.medianSale30d !== null ? `${state.data.market.sales.medianSale30d} ETH` : '-'}
+                                      </p>
+                                    </div>
+                                    <div>
+                                      <p className="text-gray-500 dark:text-gray-400">Volume (30d)</p>
+                                      <p className="font-medium">{state.data.market.sales.volume30d} ETH</p>
+                                    </div>
+                                  </div>
+                                  {state.data.market.sales.salesCount30d > 0 && (
+                                    <FloorPriceChart sales={state.data.market.sales} />
+                                  )}
                                 </div>
+                              )}
+                              {state.data.market.truncated && (
+                                <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+                                  30d history is partial - transfer count exceeded the lookup limit
+                                </p>
+                              )}
+                              <div className="grid grid-cols-2 gap-4 text-xs">
                                 <div>
-                                  <p className="text-gray-500 dark:text-gray-400">Unique Traders</p>
-                                  <p className="font-medium">{state.data.market.uniqueTraders24h}</p>
+                                  <p className="text-gray-500 dark:text-gray-400">Avg Sale</p>
+                                  <p className="font-medium">
+                                    {state.data.market.avgTransactionValue > 0 ? `${state.data.market.avgTransactionValue} ETH` : 'No sales'}
+                                  </p>
                                 </div>
                                 <div>
                                   <p className="text-gray-500 dark:text-gray-400">Liquidity Score</p>
                                   <p className="font-medium">{state.data.market.liquidityScore}/100</p>
+                                  <MetricTrend
+                                    values={history.map(point => point.market?.liquidityScore ?? null)}
+                                    delta={deltas?.market.liquidityScore}
+                                  />
                                 </div>
                                 <div>
                                   <p className="text-gray-500 dark:text-gray-400">Momentum</p>
@@ -349,15 +695,41 @@ export function CollectionResults({ persona, collections, onBack }: CollectionRe
                                 <div>
                                   <p className="text-gray-500 dark:text-gray-400">Total Holders</p>
                                   <p className="font-medium">{state.data.holder.totalHolders}</p>
+                                  <MetricTrend
+                                    values={history.map(point => point.holders?.totalHolders ?? null)}
+                                    delta={deltas?.holders.totalHolders}
+                                  />
                                 </div>
                                 <div>
-                                  <p className="text-gray-500 dark:text-gray-400">Concentration</p>
+                                  <p className="text-gray-500 dark:text-gray-400">Top 10 Share</p>
                                   <p className="font-medium">{state.data.holder.concentrationRatio}%</p>
+                                  <MetricTrend
+                                    values={history.map(point => point.holders?.top10Share ?? null)}
+                                    delta={deltas?.holders.top10Share}
+                                    invert
+                                  />
+                                </div>
+                                <div>
+                                  <p className="text-gray-500 dark:text-gray-400">Gini Coefficient</p>
+                                  <p className="font-medium">{state.data.holder.giniCoefficient}</p>
+                                  <MetricTrend
+                                    values={history.map(point => point.holders?.gini ?? null)}
+                                    delta={deltas?.holders.gini}
+                                    invert
+                                  />
+                                </div>
+                                <div>
+                                  <p className="text-gray-500 dark:text-gray-400">Nakamoto Coefficient</p>
+                                  <p className="font-medium">{state.data.holder.nakamotoCoefficient}</p>
                                 </div>
                                 <div>
                                   <p className="text-gray-500 dark:text-gray-400">Whale Holders</p>
                                   <p className="font-medium">{state.data.holder.whaleHolders}</p>
                                 </div>
+                                <div>
+                                  <p className="text-gray-500 dark:text-gray-400">Cross-Collection</p>
+                                  <p className="font-medium">{state.data.holder.crossCollectionHolders}</p>
+                                </div>
                                 <div>
                                   <p className="text-gray-500 dark:text-gray-400">Distribution</p>
                                   <span className={`inline-block px-2 py-1 rounded text-xs font-medium ${
@@ -371,6 +743,26 @@ export function CollectionResults({ persona, collections, onBack }: CollectionRe
                                   </span>
                                 </div>
                               </div>
+                              {state.data.holder.tokenBreakdown && state.data.holder.tokenBreakdown.length > 0 && (
+                                <table className="w-full text-xs mt-3">
+                                  <thead>
+                                    <tr className="text-gray-500 dark:text-gray-400">
+                                      <th className="text-left font-normal">Edition</th>
+                                      <th className="text-right font-normal">Supply</th>
+                                      <th className="text-right font-normal">Holders</th>
+                                    </tr>
+                                  </thead>
+                                  <tbody className="font-medium">
+                                    {state.data.holder.tokenBreakdown.map(token => (
+                                      <tr key={token.tokenId}>
+                                        <td className="truncate max-w-[8rem]">#{token.tokenId}</td>
+                                        <td className="text-right">{token.supply.toLocaleString()}</td>
+                                        <td className="text-right">{token.holders.toLocaleString()}</td>
+                                      </tr>
+                                    ))}
+                                  </tbody>
+                                </table>
+                              )}
                             </div>
                           )}
 
@@ -384,7 +776,11 @@ export function CollectionResults({ persona, collections, onBack }: CollectionRe
                               <div className="grid grid-cols-2 gap-4 text-xs">
                                 <div>
                                   <p className="text-gray-500 dark:text-gray-400">Transfer Velocity</p>
-                                  <p className="font-medium">{state.data.activity.transferVelocity}/day</p>
+                                  <p className="font-medium">{state.data.activity.transferVelocity}/day ({state.data.activity.windowDays}d)</p>
+                                  <MetricTrend
+                                    values={history.map(point => point.activity?.transferVelocity ?? null)}
+                                    delta={deltas?.activity.transferVelocity}
+                                  />
                                 </div>
                                 <div>
                                   <p className="text-gray-500 dark:text-gray-400">Trading Pattern</p>
@@ -414,6 +810,85 @@ export function CollectionResults({ persona, collections, onBack }: CollectionRe
                                     {state.data.activity.trendDirection}
                                   </span>
                                 </div>
+                                <div>
+                                  <p className="text-gray-500 dark:text-gray-400">Gas per Transfer</p>
+                                  <p className="font-medium">
+                                    {state.data.activity.avgGasPerTransfer !== null
+                                      ? state.data.activity.avgGasPerTransfer.toLocaleString()
+                                      : 'Unknown'}
+                                  </p>
+                                </div>
+                                <div>
+                                  <p className="text-gray-500 dark:text-gray-400">Weekly Transfers</p>
+                                  <p className="font-medium">{state.data.activity.weeklyTransfers.join(' · ')}</p>
+                                </div>
+                              </div>
+                              <div className="mt-3">
+                                <ActivityHeatmap heatmap={state.data.activity.heatmap} />
+                              </div>
+                              {state.data.activity.truncated && (
+                                <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                                  Covers the last {state.data.activity.windowDays} days - older history exceeded the lookup limit
+                                </p>
+                              )}
+                            </div>
+                          )}
+
+                          {/* Token Rarity Results */}
+                          {state.data.rarity && (
+                            <div className="bg-white dark:bg-gray-800 rounded-lg p-4 border">
+                              <div className="flex items-center mb-3">
+                                <Gem className="w-4 h-4 mr-2 text-pink-600" />
+                                <h5 className="font-medium text-sm">Token Rarity</h5>
+                                <span className="ml-auto text-xs bg-gray-100 dark:bg-gray-700 px-2 py-1 rounded">
+                                  {Object.keys(state.data.rarity.traits).length} traits
+                                </span>
+                              </div>
+                              <TokenExplorer collection={collection} rarity={state.data.rarity} />
+                            </div>
+                          )}
+
+                          {/* Token Picks Results */}
+                          {state.data.picks && (
+                            <div className="bg-white dark:bg-gray-800 rounded-lg p-4 border">
+                              <div className="flex items-center mb-2">
+                                <Sparkles className="w-4 h-4 mr-2 text-amber-500" />
+                                <h5 className="font-medium text-sm">Token Picks for {personaInfo.title}</h5>
+                                <span className="ml-auto text-xs bg-gray-100 dark:bg-gray-700 px-2 py-1 rounded">
+                                  {Math.round(state.data.picks.confidence * 100)}% confidence
+                                </span>
+                              </div>
+                              <p className="text-xs text-gray-600 dark:text-gray-400 mb-3">{state.data.picks.reasoning}</p>
+                              <div className="space-y-3">
+                                {state.data.picks.recommendations.map(({ token, score, rationale, marketplaceUrl }) => (
+                                  <div key={token.tokenId} className="flex items-start gap-3">
+                                    <div className="relative w-14 h-14 flex-shrink-0 rounded overflow-hidden bg-gray-100 dark:bg-gray-700">
+                                      {token.image && !brokenImages.has(getTokenThumbnailUrl(collection.contractAddress, token.tokenId)) && (
+                                        <Image
+                                          src={getTokenThumbnailUrl(collection.contractAddress, token.tokenId)}
+                                          alt={token.name || `#${token.tokenId}`}
+                                          fill
+                                          unoptimized
+                                          className="object-cover"
+                                          onError={() => markImageBroken(getTokenThumbnailUrl(collection.contractAddress, token.tokenId))}
+                                        />
+                                      )}
+                                    </div>
+                                    <div className="flex-1 min-w-0">
+                                      <div className="flex items-center gap-2">
+                                        <p className="text-sm font-medium truncate">{token.name || `${collection.name || 'Token'} #${token.tokenId}`}</p>
+                                        <span className={`flex-shrink-0 px-1.5 py-0.5 rounded text-[10px] font-medium ${getScoreBadgeClass(score)}`}>
+                                          {score}%
+                                        </span>
+                                      </div>
+                                      <p className="text-[10px] text-gray-500 dark:text-gray-400">Rarity rank #{token.rank}</p>
+                                      <p className="text-xs text-gray-700 dark:text-gray-300">{rationale}</p>
+                                    </div>
+                                    <Button variant="ghost" size="sm" className="flex-shrink-0" onClick={() => window.open(marketplaceUrl, '_blank')}>
+                                      <ExternalLink className="w-3 h-3" />
+                                    </Button>
+                                  </div>
+                                ))}
                               </div>
                             </div>
                           )}
@@ -428,7 +903,7 @@ export function CollectionResults({ persona, collections, onBack }: CollectionRe
                                   {state.data.ai.confidenceScore}% confidence
                                 </span>
                               </div>
-                              
+                      
                               <div className="space-y-3">
                                 <div>
                                   <p className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Investment Thesis</p>
@@ -484,8 +959,21 @@ export function CollectionResults({ persona, collections, onBack }: CollectionRe
                 )}
               </Card>
             );
+
+            // The remaining ranked picks open with a full-width heading inside the same grid
+            return index === collections.length
+              ? [<h2 key="also-consider" className="lg:col-span-2 text-lg font-semibold">Also consider</h2>, card]
+              : card;
           })}
         </div>
+
+        {/* Also Consider - expands the remaining ranked collections into the grid */}
+        {alsoConsider.length > 0 && (
+          <Button variant="ghost" onClick={() => setShowAlsoConsider(prev => !prev)} className="mt-6 px-0">
+            {showAlsoConsider ? <ChevronUp className="w-4 h-4 mr-2" /> : <ChevronDown className="w-4 h-4 mr-2" />}
+            {showAlsoConsider ? 'Hide also consider' : 'Also consider'} ({alsoConsider.length})
+          </Button>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,53 @@
+/**
+ * Floor price history chart for the Market Health panel
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+'use client';
+
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { type SalesSummary } from '@/lib/sales-ledger';
+
+/** Props for FloorPriceChart component */
+interface FloorPriceChartProps {
+  sales: SalesSummary;
+}
+
+const chartConfig = {
+  floor: {
+    label: 'Floor (ETH)',
+    color: '#16a34a',
+  },
+} satisfies ChartConfig;
+
+/**
+ * Plots the daily lowest marketplace sale over the last 30 days
+ * Days without sales leave gaps that the line bridges
+ */
+export function FloorPriceChart({ sales }: FloorPriceChartProps) {
+  const data = sales.floorHistory.map(point => ({ ...point, label: point.date.slice(5) }));
+
+  return (
+    <ChartContainer config={chartConfig} className="h-32 w-full aspect-auto">
+      <LineChart data={data} margin={{ top: 4, right: 4, bottom: 0, left: 0 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+        <YAxis width={40} tickLine={false} axisLine={false} domain={['auto', 'auto']} />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <Line
+          dataKey="floor"
+          type="monotone"
+          stroke="var(--color-floor)"
+          strokeWidth={2}
+          dot={false}
+          connectNulls
+        />
+      </LineChart>
+    </ChartContainer>
+  );
+}
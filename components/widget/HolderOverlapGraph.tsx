@@ -0,0 +1,213 @@
+/**
+ * Holder overlap graph and Jaccard matrix across approved collections
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Loader2, RefreshCw, Users } from 'lucide-react';
+import { fetchHolderOverlapGraph } from '@/lib/analytics-service';
+import { getCollectorAffinities, type HolderOverlapGraph as OverlapGraph } from '@/lib/overlap-graph';
+
+/** SVG canvas size and ring radius for the circular layout */
+const SIZE = 520;
+const RING_RADIUS = 200;
+const MIN_NODE_RADIUS = 6;
+const MAX_NODE_RADIUS = 22;
+
+/** Shortens a collection name to fit beside its node */
+function shortName(name: string): string {
+  return name.length > 16 ? `${name.slice(0, 15)}…` : name;
+}
+
+/**
+ * Circular node-link graph weighted by Jaccard index, plus the full matrix
+ * Selecting a collection lists what its collectors also hold
+ */
+export function HolderOverlapGraph() {
+  const [graph, setGraph] = useState<OverlapGraph | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<string | null>(null);
+
+  /** Loads the persisted graph; the server rebuilds it when stale */
+  const loadGraph = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setGraph(await fetchHolderOverlapGraph());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load holder overlap');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadGraph();
+  }, []);
+
+  if (loading && !graph) {
+    return (
+      <div className="flex items-center justify-center py-24 text-sm text-gray-600 dark:text-gray-400">
+        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+        Reading owners of every collection...
+      </div>
+    );
+  }
+
+  if (!graph) {
+    return (
+      <Card className="p-6 text-center">
+        <p className="text-sm text-red-600 mb-4">{error}</p>
+        <Button variant="outline" size="sm" onClick={loadGraph}>
+          <RefreshCw className="w-4 h-4 mr-2" />
+          Retry
+        </Button>
+      </Card>
+    );
+  }
+
+  const center = SIZE / 2;
+  const maxHolders = Math.max(1, ...graph.nodes.map(n => n.holders));
+  const maxJaccard = Math.max(0.0001, ...graph.edges.map(e => e.jaccard));
+  const positions = new Map(graph.nodes.map((node, i) => {
+    const angle = (2 * Math.PI * i) / graph.nodes.length - Math.PI / 2;
+    return [node.contractAddress, {
+      x: center + RING_RADIUS * Math.cos(angle),
+      y: center + RING_RADIUS * Math.sin(angle),
+      r: MIN_NODE_RADIUS + (MAX_NODE_RADIUS - MIN_NODE_RADIUS) * Math.sqrt(node.holders / maxHolders),
+    }];
+  }));
+
+  const selectedNode = graph.nodes.find(n => n.contractAddress === selected);
+  const affinities = selected ? getCollectorAffinities(graph, selected, 5) : [];
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="p-4 lg:col-span-2">
+          <svg viewBox={`0 0 ${SIZE} ${SIZE}`} className="w-full h-auto">
+            {graph.edges.map(edge => {
+              const a = positions.get(edge.source)!;
+              const b = positions.get(edge.target)!;
+              const active = !selected || edge.source === selected || edge.target === selected;
+              return (
+                <line
+                  key={`${edge.source}:${edge.target}`}
+                  x1={a.x} y1={a.y} x2={b.x} y2={b.y}
+                  stroke="#7c3aed"
+                  strokeWidth={1 + 5 * (edge.jaccard / maxJaccard)}
+                  strokeOpacity={active ? 0.15 + 0.7 * (edge.jaccard / maxJaccard) : 0.04}
+                >
+                  <title>{`${edge.shared} shared holders • Jaccard ${edge.jaccard}`}</title>
+                </line>
+              );
+            })}
+            {graph.nodes.map(node => {
+              const { x, y, r } = positions.get(node.contractAddress)!;
+              const isSelected = node.contractAddress === selected;
+              return (
+                <g
+                  key={node.contractAddress}
+                  className="cursor-pointer"
+                  onClick={() => setSelected(isSelected ? null : node.contractAddress)}
+                >
+                  <circle
+                    cx={x} cy={y} r={r}
+                    className={isSelected ? 'fill-purple-600' : 'fill-blue-500 dark:fill-blue-400'}
+                    stroke="white"
+                    strokeWidth={2}
+                  />
+                  <text
+                    x={x}
+                    y={y + r + 12}
+                    textAnchor="middle"
+                    className="fill-gray-700 dark:fill-gray-300 text-[11px]"
+                  >
+                    {shortName(node.name)}
+                  </text>
+                  <title>{`${node.name} • ${node.holders.toLocaleString()} holders`}</title>
+                </g>
+              );
+            })}
+          </svg>
+        </Card>
+
+        <Card className="p-4">
+          <div className="flex items-center mb-3">
+            <Users className="w-4 h-4 mr-2 text-blue-600" />
+            <h2 className="font-medium text-sm">
+              {selectedNode ? `Collectors of ${selectedNode.name} also hold` : 'Select a collection'}
+            </h2>
+          </div>
+          {selectedNode ? (
+            affinities.length > 0 ? (
+              <ul className="space-y-2 text-sm">
+                {affinities.map(affinity => (
+                  <li key={affinity.contractAddress} className="flex justify-between gap-2">
+                    <button className="text-left hover:underline" onClick={() => setSelected(affinity.contractAddress)}>
+                      {affinity.name}
+                    </button>
+                    <span className="font-medium whitespace-nowrap">{affinity.share}%</span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No shared holders with other collections</p>
+            )
+          ) : (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Node size shows holders; edge weight shows the Jaccard index of shared holders.
+            </p>
+          )}
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-4">
+            Built {new Date(graph.builtAt).toLocaleString()} • {graph.edges.length} overlapping pairs
+          </p>
+        </Card>
+      </div>
+
+      <Card className="p-4">
+        <h2 className="font-medium text-sm mb-3">Jaccard Matrix</h2>
+        <div className="overflow-x-auto">
+          <table className="text-[10px]">
+            <thead>
+              <tr>
+                <th></th>
+                {graph.nodes.map(node => (
+                  <th key={node.contractAddress} className="px-1 font-normal text-gray-500 dark:text-gray-400 max-w-[4rem] truncate" title={node.name}>
+                    {shortName(node.name)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {graph.nodes.map((row, i) => (
+                <tr key={row.contractAddress}>
+                  <td className="pr-2 text-gray-500 dark:text-gray-400 whitespace-nowrap">{shortName(row.name)}</td>
+                  {graph.matrix[i].map((value, j) => (
+                    <td
+                      key={graph.nodes[j].contractAddress}
+                      className="w-10 h-6 text-center"
+                      style={{ backgroundColor: i === j ? undefined : `rgba(124, 58, 237, ${value / maxJaccard})` }}
+                      title={`${row.name} × ${graph.nodes[j].name}: ${value}`}
+                    >
+                      {i === j ? '-' : value > 0 ? value.toFixed(2) : ''}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+/**
+ * Sparkline and period-over-period delta for one recorded analytics metric
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+'use client';
+
+import { Line, LineChart } from 'recharts';
+import { ChartContainer, type ChartConfig } from '@/components/ui/chart';
+
+/** Props for MetricTrend component */
+interface MetricTrendProps {
+  values: (number | null)[]; // oldest first, null where a snapshot lacked the metric
+  delta?: number | null; // % change against the baseline snapshot
+  invert?: boolean; // true when a falling value is good (e.g. concentration)
+}
+
+const chartConfig = {
+  value: {
+    label: 'Value',
+    color: '#7c3aed',
+  },
+} satisfies ChartConfig;
+
+/**
+ * Renders a "+12% wow" badge beside a small line of past snapshots
+ * Renders nothing until at least two snapshots hold the metric
+ */
+export function MetricTrend({ values, delta, invert = false }: MetricTrendProps) {
+  const recorded = values.filter(value => value !== null).length;
+  if (recorded < 2) return null;
+
+  const data = values.map((value, i) => ({ i, value }));
+  const improving = delta !== null && delta !== undefined && (invert ? delta < 0 : delta > 0);
+  const worsening = delta !== null && delta !== undefined && (invert ? delta > 0 : delta < 0);
+
+  return (
+    <div className="flex items-center gap-2 mt-1">
+      <ChartContainer config={chartConfig} className="h-5 w-16 aspect-auto">
+        <LineChart data={data} margin={{ top: 2, right: 2, bottom: 2, left: 2 }}>
+          <Line
+            dataKey="value"
+            type="monotone"
+            stroke="var(--color-value)"
+            strokeWidth={1.5}
+            dot={false}
+            connectNulls
+            isAnimationActive={false}
+          />
+        </LineChart>
+      </ChartContainer>
+      {delta !== null && delta !== undefined && (
+        <span className={`text-[10px] font-medium ${
+          improving ? 'text-green-600' : worsening ? 'text-red-600' : 'text-gray-500 dark:text-gray-400'
+        }`}>
+          {delta > 0 ? '+' : ''}{delta}% wow
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+/**
+ * Create/edit form for user-defined personas
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { type PersonaDefinition } from '@/lib/collections-data';
+import { personaInputSchema, type PersonaInput } from '@/lib/persona-schema';
+
+/** Form fields - criteria are one per line, keywords comma-separated */
+const personaFormSchema = personaInputSchema.extend({
+  criteria: z.string().trim().min(1, 'Add at least one criterion'),
+  lookFor: z.string().trim().min(1, 'Add at least one keyword'),
+});
+
+type PersonaFormValues = z.infer<typeof personaFormSchema>;
+
+/** Props for PersonaEditor component */
+interface PersonaEditorProps {
+  open: boolean;
+  persona: PersonaDefinition | null; // null creates a new persona
+  onOpenChange: (open: boolean) => void;
+  onSave: (input: PersonaInput, adminToken: string, id?: string) => Promise<string | null>; // resolves to an error message
+}
+
+/**
+ * Converts a persona definition into editable form values
+ */
+function toFormValues(persona: PersonaDefinition | null): PersonaFormValues {
+  return {
+    title: persona?.title ?? '',
+    emoji: persona?.emoji ?? '✨',
+    description: persona?.description ?? '',
+    color: persona?.color ?? '#8b5cf6',
+    theme: persona?.theme ?? '',
+    criteria: persona?.criteria.join('\n') ?? '',
+    lookFor: persona?.lookFor.join(', ') ?? '',
+  };
+}
+
+/**
+ * Dialog form for creating and editing custom personas
+ * Criteria and keywords feed the curation prompt directly
+ */
+export function PersonaEditor({ open, persona, onOpenChange, onSave }: PersonaEditorProps) {
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  // Kept across edits so the admin only enters it once per session
+  const [adminToken, setAdminToken] = useState('');
+
+  const form = useForm<PersonaFormValues>({
+    resolver: zodResolver(personaFormSchema),
+    values: toFormValues(persona),
+  });
+
+  /**
+   * Splits list fields and delegates persistence to the parent
+   */
+  const handleSubmit = async (values: PersonaFormValues) => {
+    setSubmitError(null);
+
+    const input: PersonaInput = {
+      ...values,
+      criteria: values.criteria.split('\n').map(line => line.trim()).filter(Boolean),
+      lookFor: values.lookFor.split(',').map(keyword => keyword.trim()).filter(Boolean),
+    };
+
+    const error = await onSave(input, adminToken, persona?.id);
+    if (error) {
+      setSubmitError(error);
+      return;
+    }
+
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{persona ? `Edit ${persona.title}` : 'Create Persona'}</DialogTitle>
+          <DialogDescription>
+            Describe how this persona judges collections. AI curation uses these criteria verbatim.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <div className="grid grid-cols-[1fr_5rem_5rem] gap-3">
+              <FormField
+                control={form.control}
+                name="title"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Title</FormLabel>
+                    <FormControl>
+                      <Input placeholder="PIXEL PURIST" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="emoji"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Emoji</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="color"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Color</FormLabel>
+                    <FormControl>
+                      <Input type="color" className="p-1" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Pixel-perfect retro purist" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="theme"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Cultural Theme</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Low-res craft, 8-bit nostalgia, grid discipline" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="criteria"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Prioritization Criteria</FormLabel>
+                  <FormControl>
+                    <Textarea rows={5} placeholder={'Use a strict pixel grid\nAvoid anti-aliasing'} {...field} />
+                  </FormControl>
+                  <FormDescription>One criterion per line.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="lookFor"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Look For</FormLabel>
+                  <FormControl>
+                    <Input placeholder="pixel art, 8-bit, limited palettes" {...field} />
+                  </FormControl>
+                  <FormDescription>Comma-separated keywords.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="space-y-2">
+              <Label htmlFor="persona-admin-token">Admin Token</Label>
+              <Input
+                id="persona-admin-token"
+                type="password"
+                autoComplete="off"
+                value={adminToken}
+                onChange={event => setAdminToken(event.target.value)}
+              />
+              <p className="text-muted-foreground text-sm">Persona changes require the registry admin token.</p>
+            </div>
+
+            {submitError && (
+              <p className="text-sm text-red-600 dark:text-red-400">{submitError}</p>
+            )}
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                {persona ? 'Save Changes' : 'Create Persona'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,152 @@
+/**
+ * Onboarding questionnaire that infers a blended persona
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { ArrowLeft, ArrowRight, Sparkles } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Slider } from '@/components/ui/slider';
+import { Progress } from '@/components/ui/progress';
+import { PERSONA_DEFINITIONS, type BuiltInPersonaType } from '@/lib/collections-data';
+import { QUIZ_QUESTIONS, scorePersonaQuiz, type PersonaBlend, type QuizAnswers } from '@/lib/persona-quiz';
+
+/** Props for PersonaQuiz component */
+interface PersonaQuizProps {
+  onComplete: (blend: PersonaBlend) => void;
+  onCancel: () => void;
+  analyzing: boolean;
+}
+
+/**
+ * Steps through choice pairs and sliders, then shows the blended result
+ * Scoring runs client-side through the deterministic quiz model
+ */
+export function PersonaQuiz({ onComplete, onCancel, analyzing }: PersonaQuizProps) {
+  const [step, setStep] = useState(0);
+  const [answers, setAnswers] = useState<QuizAnswers>({});
+
+  const isResult = step >= QUIZ_QUESTIONS.length;
+  const question = QUIZ_QUESTIONS[step];
+  const blend = isResult ? scorePersonaQuiz(answers) : null;
+
+  /** Records an answer; choice answers advance immediately */
+  const answer = (value: string | number, advance: boolean) => {
+    setAnswers(prev => ({ ...prev, [question.id]: value }));
+    if (advance) setStep(prev => prev + 1);
+  };
+
+  if (blend) {
+    const primary = PERSONA_DEFINITIONS[blend.primary as BuiltInPersonaType];
+
+    return (
+      <Card className="max-w-xl mx-auto p-8">
+        <div className="text-center mb-6">
+          <div className="text-5xl mb-3">{primary.emoji}</div>
+          <h2 className="text-2xl font-bold mb-2">You are {primary.title}</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400">{blend.explanation}</p>
+        </div>
+
+        <div className="space-y-3 mb-8">
+          {Object.entries(blend.weights)
+            .sort(([, a], [, b]) => b - a)
+            .map(([id, weight]) => {
+              const persona = PERSONA_DEFINITIONS[id as BuiltInPersonaType];
+              return (
+                <div key={id}>
+                  <div className="flex justify-between text-xs mb-1">
+                    <span className="font-medium">{persona.emoji} {persona.title}</span>
+                    <span className="text-gray-500 dark:text-gray-400">{Math.round(weight * 100)}%</span>
+                  </div>
+                  <div className="h-2 rounded-full bg-gray-100 dark:bg-gray-800 overflow-hidden">
+                    <div
+                      className="h-full rounded-full"
+                      style={{ width: `${weight * 100}%`, backgroundColor: persona.color }}
+                    />
+                  </div>
+                </div>
+              );
+            })}
+        </div>
+
+        <div className="flex gap-3">
+          <Button variant="outline" onClick={() => { setStep(0); setAnswers({}); }} disabled={analyzing}>
+            Retake
+          </Button>
+          <Button
+            onClick={() => onComplete(blend)}
+            disabled={analyzing}
+            className="flex-1 bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600"
+          >
+            <Sparkles className="w-4 h-4 mr-2" />
+            {analyzing ? 'Analyzing...' : 'Curate My Collections'}
+          </Button>
+        </div>
+      </Card>
+    );
+  }
+
+  const sliderValue = typeof answers[question.id] === 'number' ? (answers[question.id] as number) : 50;
+
+  return (
+    <Card className="max-w-xl mx-auto p-8">
+      <Progress value={(step / QUIZ_QUESTIONS.length) * 100} className="h-1 mb-6" />
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+        Question {step + 1} of {QUIZ_QUESTIONS.length}
+      </p>
+      <h2 className="text-xl font-bold mb-6">{question.prompt}</h2>
+
+      {question.type === 'choice' ? (
+        <div className="grid grid-cols-2 gap-4">
+          {question.options.map(option => (
+            <button
+              key={option.id}
+              type="button"
+              onClick={() => answer(option.id, true)}
+              className={`rounded-lg border p-6 text-center transition-all hover:shadow-lg hover:border-purple-500 ${
+                answers[question.id] === option.id ? 'border-purple-500 bg-purple-50 dark:bg-purple-900/20' : ''
+              }`}
+            >
+              <div className="text-4xl mb-3">{option.emoji}</div>
+              <p className="text-sm font-medium">{option.label}</p>
+            </button>
+          ))}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <Slider
+            value={[sliderValue]}
+            min={0}
+            max={100}
+            step={5}
+            onValueChange={([value]) => answer(value, false)}
+          />
+          <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400">
+            <span>{question.minLabel}</span>
+            <span>{question.maxLabel}</span>
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-between mt-8">
+        <Button variant="outline" size="sm" onClick={() => (step === 0 ? onCancel() : setStep(step - 1))}>
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          {step === 0 ? 'Cancel' : 'Back'}
+        </Button>
+        {question.type === 'slider' && (
+          <Button size="sm" onClick={() => answer(sliderValue, true)}>
+            Next
+            <ArrowRight className="w-4 h-4 ml-2" />
+          </Button>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -1,5 +1,5 @@
 /**
- * 4 persona cards with selection logic
+ * Persona cards with selection logic and custom persona management
  * 
  * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
  * ShapeCraft2 Hackathon Submission | Shape Network 2025
@@ -9,47 +9,142 @@
 
 'use client';
 
+import { useState } from 'react';
+import { Pencil, Plus, Wallet } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
-import { type PersonaType, PERSONA_DEFINITIONS } from '@/lib/collections-data';
+import { type PersonaDefinition, type PersonaType } from '@/lib/collections-data';
+import { type PersonaInput } from '@/lib/persona-schema';
+import { type WalletProfile } from '@/lib/wallet-profile';
+import { PersonaEditor } from './PersonaEditor';
 
 /** Props for PersonaSelector component */
 interface PersonaSelectorProps {
-  onPersonaSelect: (persona: PersonaType) => void;
+  personas: Record<PersonaType, PersonaDefinition>;
+  walletProfile?: WalletProfile | null;
+  onPersonaSelect: (persona: PersonaType, blend?: WalletProfile['blend']) => void;
+  onPersonaSave: (input: PersonaInput, adminToken: string, id?: string) => Promise<string | null>;
   analyzing: boolean;
 }
 
+/** Button styles for built-in personas; custom personas use their registry color */
+const BUILT_IN_BUTTON_CLASSES = new Map<string, string>([
+  ['renegade', 'bg-red-500 hover:bg-red-600 dark:bg-red-600 dark:hover:bg-red-700'],
+  ['fomo', 'bg-yellow-500 hover:bg-yellow-600 dark:bg-yellow-600 dark:hover:bg-yellow-700'],
+  ['zen', 'bg-green-500 hover:bg-green-600 dark:bg-green-600 dark:hover:bg-green-700'],
+  ['chaos', 'bg-purple-500 hover:bg-purple-600 dark:bg-purple-600 dark:hover:bg-purple-700'],
+]);
+
 /**
- * Renders 4 persona cards with theme-based styling
- * Triggers AI analysis on selection
+ * Renders persona cards from the persona registry with theme-based styling
+ * Triggers AI analysis on selection; custom personas can be created and edited
+ * A connected wallet preselects the persona inferred from its holdings - one click
+ * (or Enter, as the continue button takes focus) runs the curation with the wallet blend
  */
-export function PersonaSelector({ onPersonaSelect, analyzing }: PersonaSelectorProps) {
+export function PersonaSelector({
+  personas,
+  walletProfile,
+  onPersonaSelect,
+  onPersonaSave,
+  analyzing,
+}: PersonaSelectorProps) {
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editingPersona, setEditingPersona] = useState<PersonaDefinition | null>(null);
+
+  /** Opens the editor for a new persona or an existing custom persona */
+  const openEditor = (persona: PersonaDefinition | null) => {
+    setEditingPersona(persona);
+    setEditorOpen(true);
+  };
+
+  const preselected = walletProfile ? personas[walletProfile.blend.primary] : undefined;
+
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-      {Object.entries(PERSONA_DEFINITIONS).map(([key, persona]) => (
-        <Card key={key} className="p-6 text-center hover:shadow-lg transition-all duration-200">
-          <div className="text-4xl mb-3">{persona.emoji}</div>
-          <h3 className="text-lg font-bold mb-2">{persona.title}</h3>
-          <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
-            {persona.description}
-          </p>
-          <Button
-            onClick={() => onPersonaSelect(persona.id)}
-            disabled={analyzing}
-            className={`w-full text-white font-semibold ${
-              persona.id === 'renegade' 
-                ? 'bg-red-500 hover:bg-red-600 dark:bg-red-600 dark:hover:bg-red-700'
-                : persona.id === 'fomo'
-                ? 'bg-yellow-500 hover:bg-yellow-600 dark:bg-yellow-600 dark:hover:bg-yellow-700'
-                : persona.id === 'zen'
-                ? 'bg-green-500 hover:bg-green-600 dark:bg-green-600 dark:hover:bg-green-700'
-                : 'bg-purple-500 hover:bg-purple-600 dark:bg-purple-600 dark:hover:bg-purple-700'
-            }`}
-          >
-            {analyzing ? 'Analyzing...' : 'Select'}
+    <>
+      {walletProfile && (
+        <div className="mb-6 flex items-start gap-3 rounded-lg border bg-gray-50 p-4 dark:bg-gray-900/50">
+          <Wallet className="mt-0.5 h-5 w-5 flex-shrink-0 text-purple-500" />
+          <div className="flex-1 text-sm">
+            <p className="font-medium">{walletProfile.blend.explanation}</p>
+            <p className="text-gray-500 dark:text-gray-400">
+              {walletProfile.holdings} NFTs held • collections you already own are left out of
+              recommendations{walletProfile.truncated && ' • trading stats cover your most recent transfers'}
+            </p>
+          </div>
+          {preselected && (
+            <Button
+              autoFocus
+              size="sm"
+              onClick={() => onPersonaSelect(preselected.id, walletProfile.blend)}
+              disabled={analyzing}
+              className="flex-shrink-0"
+            >
+              Continue as {preselected.emoji} {preselected.title}
+            </Button>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        {Object.values(personas).map((persona) => {
+          const isWalletMatch = walletProfile?.blend.primary === persona.id;
+          const buttonClasses = BUILT_IN_BUTTON_CLASSES.get(persona.id);
+
+          return (
+            <Card
+              key={persona.id}
+              className={`relative p-6 text-center hover:shadow-lg transition-all duration-200 ${
+                isWalletMatch ? 'ring-2 ring-purple-500' : ''
+              }`}
+            >
+              {isWalletMatch && (
+                <span className="absolute top-3 left-3 rounded bg-purple-100 px-2 py-0.5 text-xs font-medium text-purple-800 dark:bg-purple-900 dark:text-purple-200">
+                  Preselected
+                </span>
+              )}
+              {!persona.builtIn && (
+                <button
+                  type="button"
+                  onClick={() => openEditor(persona)}
+                  className="absolute top-3 right-3 text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+                  aria-label={`Edit ${persona.title}`}
+                >
+                  <Pencil className="h-4 w-4" />
+                </button>
+              )}
+              <div className="text-4xl mb-3">{persona.emoji}</div>
+              <h3 className="text-lg font-bold mb-2">{persona.title}</h3>
+              <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+                {persona.description}
+              </p>
+              <Button
+                onClick={() =>
+                  onPersonaSelect(persona.id, isWalletMatch ? walletProfile?.blend : undefined)
+                }
+                disabled={analyzing}
+                className={`w-full text-white font-semibold ${buttonClasses ?? 'hover:opacity-90'}`}
+                style={buttonClasses ? undefined : { backgroundColor: persona.color }}
+              >
+                {analyzing ? 'Analyzing...' : 'Select'}
+              </Button>
+            </Card>
+          );
+        })}
+
+        <Card className="flex flex-col items-center justify-center border-dashed p-6 text-center">
+          <Button variant="outline" onClick={() => openEditor(null)} disabled={analyzing}>
+            <Plus className="mr-2 h-4 w-4" />
+            Create Persona
           </Button>
         </Card>
-      ))}
-    </div>
+      </div>
+
+      <PersonaEditor
+        open={editorOpen}
+        persona={editingPersona}
+        onOpenChange={setEditorOpen}
+        onSave={onPersonaSave}
+      />
+    </>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,174 @@
+/**
+ * Token explorer for one collection - tokens sorted by trait rarity with per-trait filters
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+'use client';
+
+import { useMemo, useState } from 'react';
+import Image from 'next/image';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { X } from 'lucide-react';
+import { type Collection } from '@/lib/collections-data';
+import { type RarityAnalytics } from '@/lib/analytics-service';
+import { compareTokenIds, MISSING_TRAIT_VALUE, type RankedToken } from '@/lib/trait-rarity';
+
+/** Props for TokenExplorer component */
+interface TokenExplorerProps {
+  collection: Collection;
+  rarity: RarityAnalytics;
+}
+
+/** Token orderings offered in the explorer */
+type TokenSort = 'rarest' | 'commonest' | 'tokenId';
+
+const SORT_LABELS: Record<TokenSort, string> = {
+  rarest: 'Rarest first',
+  commonest: 'Most common first',
+  tokenId: 'Token ID',
+};
+
+/** Select value standing for "no filter" on a trait */
+const ANY_VALUE = '__any__';
+
+/** Tokens revealed per "Show more" */
+const PAGE_SIZE = 24;
+
+/**
+ * Lists every ranked token with sort-by-rarity and AND-combined trait filters
+ * Tokens missing a trait match its "None" value
+ */
+export function TokenExplorer({ collection, rarity }: TokenExplorerProps) {
+  const [sort, setSort] = useState<TokenSort>('rarest');
+  const [filters, setFilters] = useState<Record<string, string>>({});
+  const [visible, setVisible] = useState(PAGE_SIZE);
+
+  /** Trait value → collection share, for per-token labels */
+  const frequencies = useMemo(() => new Map(
+    Object.entries(rarity.traits).flatMap(([traitType, values]) =>
+      values.map(v => [`${traitType}:${v.value}`, v.frequency] as const)
+    )
+  ), [rarity]);
+
+  const tokens = useMemo(() => {
+    const active = Object.entries(filters);
+    const matching = rarity.tokens.filter(token => active.every(([traitType, value]) =>
+      (token.attributes.find(a => a.traitType === traitType)?.value ?? MISSING_TRAIT_VALUE) === value
+    ));
+
+    if (sort === 'commonest') return [...matching].reverse();
+    if (sort === 'tokenId') return [...matching].sort((a, b) => compareTokenIds(a.tokenId, b.tokenId));
+    return matching;
+  }, [rarity, filters, sort]);
+
+  const setFilter = (traitType: string, value: string) => {
+    setFilters(prev => {
+      const next = { ...prev };
+      if (value === ANY_VALUE) delete next[traitType];
+      else next[traitType] = value;
+      return next;
+    });
+    setVisible(PAGE_SIZE);
+  };
+
+  /** The token's rarest trait, shown as its headline */
+  const rarestTrait = (token: RankedToken) => token.attributes
+    .map(a => ({ ...a, frequency: frequencies.get(`${a.traitType}:${a.value}`) ?? 1 }))
+    .sort((a, b) => a.frequency - b.frequency)[0];
+
+  if (rarity.tokens.length === 0) {
+    return <p className="text-xs text-gray-500 dark:text-gray-400">No token metadata found for this collection</p>;
+  }
+
+  const traitTypes = Object.keys(rarity.traits);
+  const activeFilters = Object.keys(filters).length;
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <Select value={sort} onValueChange={value => setSort(value as TokenSort)}>
+          <SelectTrigger size="sm" className="text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(SORT_LABELS) as TokenSort[]).map(key => (
+              <SelectItem key={key} value={key} className="text-xs">{SORT_LABELS[key]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <span className="text-xs text-gray-500 dark:text-gray-400">
+          {tokens.length.toLocaleString()} of {rarity.totalTokens.toLocaleString()} tokens
+        </span>
+        {activeFilters > 0 && (
+          <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => { setFilters({}); setVisible(PAGE_SIZE); }}>
+            <X className="w-3 h-3 mr-1" />
+            Clear {activeFilters} filter{activeFilters === 1 ? '' : 's'}
+          </Button>
+        )}
+      </div>
+
+      {traitTypes.length > 0 && (
+        <div className="grid grid-cols-2 gap-2 mb-4">
+          {traitTypes.map(traitType => (
+            <Select key={traitType} value={filters[traitType] ?? ANY_VALUE} onValueChange={value => setFilter(traitType, value)}>
+              <SelectTrigger size="sm" className="w-full text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY_VALUE} className="text-xs">{traitType}: any</SelectItem>
+                {rarity.traits[traitType].map(v => (
+                  <SelectItem key={v.value} value={v.value} className="text-xs">
+                    {traitType}: {v.value} ({(v.frequency * 100).toFixed(1)}%)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+        {tokens.slice(0, visible).map(token => {
+          const headline = rarestTrait(token);
+          return (
+            <div key={token.tokenId} className="bg-gray-50 dark:bg-gray-900 rounded-lg p-2 border">
+              <div className="relative aspect-square mb-2 rounded overflow-hidden bg-gray-100 dark:bg-gray-800">
+                {token.image?.startsWith('http') && (
+                  <Image src={token.image} alt={token.name || `#${token.tokenId}`} fill unoptimized className="object-cover" />
+                )}
+                <span className="absolute top-1 left-1 px-1.5 py-0.5 rounded bg-black/70 text-white text-[10px] font-medium">
+                  #{token.rank}
+                </span>
+              </div>
+              <p className="text-xs font-medium truncate">{token.name || `${collection.name || 'Token'} #${token.tokenId}`}</p>
+              <p className="text-[10px] text-gray-500 dark:text-gray-400">
+                Rarity {token.rarityScore}/100 • {token.informationContent} bits
+              </p>
+              {headline && (
+                <p className="text-[10px] text-purple-600 dark:text-purple-400 truncate">
+                  {headline.traitType}: {headline.value} ({(headline.frequency * 100).toFixed(1)}%)
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {tokens.length > visible && (
+        <Button variant="outline" size="sm" className="w-full mt-3 text-xs" onClick={() => setVisible(v => v + PAGE_SIZE)}>
+          Show more
+        </Button>
+      )}
+      {rarity.truncated && (
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+          Ranks cover the first {rarity.totalTokens.toLocaleString()} tokens - the rest exceeded the metadata lookup limit
+        </p>
+      )}
+    </div>
+  );
+}
@@ -9,13 +9,17 @@
 
 'use client';
 
+import { useEffect, useState } from 'react';
+import { useAccount } from 'wagmi';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Sparkles, ArrowLeft } from 'lucide-react';
+import { Sparkles, ArrowLeft, ListChecks } from 'lucide-react';
 import { ProgressBar } from './ProgressBar';
 import { PersonaSelector } from './PersonaSelector';
+import { PersonaQuiz } from './PersonaQuiz';
 import { CollectionResults } from './CollectionResults';
 import { useWidgetState } from '@/hooks/useWidgetState';
+import { useWalletProfile } from '@/hooks/web3';
 import { cn } from '@/lib/utils';
 
 /** Props for WidgetShell component */
@@ -38,12 +42,28 @@ export function WidgetShell({ className }: WidgetShellProps) {
     selectedPersona,
     analyzing,
     results,
+    analysis,
     error,
+    lastUpdated,
+    networkStatus,
+    personas,
+    walletProfile,
     expandWidget,
     collapseWidget,
     selectPersona,
+    savePersona,
+    setWalletProfile,
     retryCache
   } = useWidgetState();
+  const [quizActive, setQuizActive] = useState(false);
+
+  /** Connected wallet → persona inference and owned-collection exclusion */
+  const { address } = useAccount();
+  const { data: profile } = useWalletProfile(address);
+
+  useEffect(() => {
+    setWalletProfile(address && profile ? profile : null);
+  }, [address, profile, setWalletProfile]);
 
   /** Step 1: Loading state - Background cache initialization */
   if (isLoading || !isDataReady) {
@@ -96,6 +116,11 @@ export function WidgetShell({ className }: WidgetShellProps) {
             <p className="text-sm text-green-600 dark:text-green-400">
               ✨ Ready to discover your persona!
             </p>
+            {lastUpdated && networkStatus && (
+              <p className="text-xs text-gray-500 dark:text-gray-500 mt-2">
+                Shape Network {networkStatus} • Updated {new Date(lastUpdated).toLocaleTimeString()}
+              </p>
+            )}
           </div>
           
           <Button 
@@ -128,28 +153,52 @@ export function WidgetShell({ className }: WidgetShellProps) {
               </Button>
               <div className="flex items-center space-x-2">
                 <Sparkles className="w-6 h-6 text-purple-500" />
-                <h1 className="text-2xl font-bold">Choose Your NFT Persona</h1>
+                <h1 className="text-2xl font-bold">
+                  {quizActive ? 'Find Your NFT Persona' : 'Choose Your NFT Persona'}
+                </h1>
               </div>
             </div>
+            {!quizActive && (
+              <Button variant="outline" size="sm" onClick={() => setQuizActive(true)}>
+                <ListChecks className="w-4 h-4 mr-2" />
+                Not sure? Take the quiz
+              </Button>
+            )}
           </div>
 
-          {/* Persona Selector */}
-          <PersonaSelector 
-            onPersonaSelect={selectPersona}
-            analyzing={analyzing}
-          />
+          {quizActive ? (
+            /* Persona Quiz */
+            <PersonaQuiz
+              onComplete={(blend) => {
+                setQuizActive(false);
+                selectPersona(blend.primary, blend);
+              }}
+              onCancel={() => setQuizActive(false)}
+              analyzing={analyzing}
+            />
+          ) : (
+            /* Persona Selector */
+            <PersonaSelector 
+              personas={personas}
+              walletProfile={walletProfile}
+              onPersonaSelect={selectPersona}
+              onPersonaSave={savePersona}
+              analyzing={analyzing}
+            />
+          )}
         </div>
       </div>
     );
   }
 
   /** Step 4: Results state - AI-curated collections display */
-  if (selectedPersona && results) {
+  if (selectedPersona && results && personas[selectedPersona]) {
     return (
       <div className={cn("min-h-screen", className)}>
         <CollectionResults
-          persona={selectedPersona}
+          persona={personas[selectedPersona]}
           collections={results}
+          analysis={analysis}
           onBack={() => selectPersona(null)}
         />
       </div>
@@ -9,8 +9,14 @@
 
 'use client';
 
-import { useState, useEffect } from 'react';
-import { loadCollectionsCache, getCollectionsByPersona, type Collection, type PersonaType } from '@/lib/collections-data';
+import { useState, useEffect, useCallback } from 'react';
+import { loadCollectionsCache, loadPersonaDefinitions, getCollectionsCacheMetadata, PERSONA_DEFINITIONS, type Collection, type CollectionCache, type PersonaDefinition, type PersonaType } from '@/lib/collections-data';
+import { type PersonaInput } from '@/lib/persona-schema';
+import { type PersonaBlend } from '@/lib/persona-quiz';
+import { type WalletProfile } from '@/lib/wallet-profile';
+import { type PersonaAnalysisResult } from '@/lib/ai-service';
+import { DEFAULT_TOP_PICKS } from '@/lib/curation-schema';
+import { matchCollectionsByRules } from '@/lib/persona-rules';
 
 /** Complete widget state interface for 4-step flow */
 interface WidgetState {
@@ -23,14 +29,20 @@ interface WidgetState {
   isDataReady: boolean;
   widgetActive: boolean;
   cachedCollections: Collection[];
+  lastUpdated: string | null;
+  networkStatus: CollectionCache['networkStatus'] | null;
+  personas: Record<PersonaType, PersonaDefinition>;
+  walletProfile: WalletProfile | null;
   
   // Step 3: Expanded
   widgetExpanded: boolean;
   
   // Step 4: Analysis
   selectedPersona: PersonaType | null;
+  personaBlend: PersonaBlend | null;
   analyzing: boolean;
   results: Collection[] | null;
+  analysis: PersonaAnalysisResult | null;
   error: string | null;
 }
 
@@ -41,10 +53,16 @@ const INITIAL_STATE: WidgetState = {
   isDataReady: false,
   widgetActive: false,
   cachedCollections: [],
+  lastUpdated: null,
+  networkStatus: null,
+  personas: PERSONA_DEFINITIONS,
+  walletProfile: null,
   widgetExpanded: false,
   selectedPersona: null,
+  personaBlend: null,
   analyzing: false,
   results: null,
+  analysis: null,
   error: null,
 };
 
@@ -92,6 +110,8 @@ export function useWidgetState() {
         status: "Processing collection metadata..."
       }));
       
+      const personas = await loadPersonaDefinitions();
+      
       await new Promise(resolve => setTimeout(resolve, 500));
       
       // Event 4: Ready state (1200ms)
@@ -104,9 +124,13 @@ export function useWidgetState() {
       await new Promise(resolve => setTimeout(resolve, 500));
       
       // Event 5: Activate widget (1700ms)
+      const cacheMetadata = getCollectionsCacheMetadata();
       setState(prev => ({
         ...prev,
         cachedCollections: collections,
+        lastUpdated: cacheMetadata?.lastUpdated ?? null,
+        networkStatus: cacheMetadata?.networkStatus ?? null,
+        personas,
         isDataReady: true,
         widgetActive: true,
         isLoading: false
@@ -147,22 +171,27 @@ export function useWidgetState() {
       ...prev,
       widgetExpanded: false,
       selectedPersona: null,
+      personaBlend: null,
       results: null,
+      analysis: null,
       analyzing: false
     }));
   };
 
   /**
    * AI persona analysis - calls Claude 3.5 Sonnet for collection curation
-   * On-demand processing with fallback to simple selection
+   * Accepts an optional quiz blend that tempers the primary persona
+   * On-demand processing with fallback to rule-based selection
    */
-  const selectPersona = async (persona: PersonaType | null) => {
+  const selectPersona = async (persona: PersonaType | null, blend?: PersonaBlend) => {
     if (!persona) {
       // Clear selection
       setState(prev => ({
         ...prev,
         selectedPersona: null,
+        personaBlend: null,
         results: null,
+        analysis: null,
         analyzing: false
       }));
       return;
@@ -171,11 +200,20 @@ export function useWidgetState() {
     setState(prev => ({
       ...prev,
       selectedPersona: persona,
+      personaBlend: blend ?? null,
       analyzing: true,
       results: null,
+      analysis: null,
       error: null
     }));
 
+    // Skip collections the connected wallet already holds (unless that leaves nothing)
+    const ownedContracts = new Set(state.walletProfile?.ownedContracts ?? []);
+    const unownedCollections = state.cachedCollections.filter(
+      c => !ownedContracts.has(c.contractAddress.toLowerCase())
+    );
+    const candidateCollections = unownedCollections.length > 0 ? unownedCollections : state.cachedCollections;
+
     try {
       console.log(`🤖 Starting AI analysis for ${persona.toUpperCase()} persona...`);
       
@@ -187,15 +225,25 @@ export function useWidgetState() {
         },
         body: JSON.stringify({
           persona,
-          collections: state.cachedCollections
+          collections: candidateCollections.map(c => c.contractAddress),
+          blend,
+          mode: 'rank',
+          topPicks: DEFAULT_TOP_PICKS,
+          seeds: state.walletProfile?.ownedContracts ?? []
         })
       });
 
+      const data = await response.json().catch(() => ({}));
+
       if (!response.ok) {
-        throw new Error(`AI analysis API failed: ${response.statusText}`);
+        // Distinguish an unreachable model from output that never validated
+        const reason = data.kind === 'model_unavailable'
+          ? 'AI model is unavailable'
+          : data.kind === 'invalid_output'
+            ? 'AI returned an invalid curation'
+            : `AI analysis API failed: ${response.statusText}`;
+        throw new Error(reason);
       }
-
-      const data = await response.json();
       
       if (!data.success) {
         throw new Error(data.error || 'AI analysis failed');
@@ -207,22 +255,25 @@ export function useWidgetState() {
       setState(prev => ({
         ...prev,
         analyzing: false,
-        results: data.analysis.selectedCollections
+        results: data.analysis.selectedCollections,
+        analysis: data.analysis
       }));
 
     } catch (error) {
       console.error('❌ AI persona analysis failed:', error);
       
-      // Fallback to simple selection if AI fails
+      // Fallback to the deterministic persona rules if AI fails
       try {
-        console.log('🔄 Using fallback collection selection...');
-        const fallbackResults = await getCollectionsByPersona(persona);
+        console.log('🔄 Using rule-based collection selection...');
+        const personaDefinition = state.personas[persona] ?? PERSONA_DEFINITIONS.renegade;
+        const fallbackAnalysis = matchCollectionsByRules(personaDefinition, candidateCollections, DEFAULT_TOP_PICKS);
         
         setState(prev => ({
           ...prev,
           analyzing: false,
-          results: fallbackResults,
-          error: `AI analysis failed, using fallback selection. ${error instanceof Error ? error.message : 'Unknown error'}`
+          results: fallbackAnalysis.selectedCollections,
+          analysis: fallbackAnalysis,
+          error: `AI analysis failed, using rule-based selection. ${error instanceof Error ? error.message : 'Unknown error'}`
         }));
       } catch (fallbackError) {
         setState(prev => ({
@@ -234,6 +285,51 @@ export function useWidgetState() {
     }
   };
 
+  /**
+   * Creates or updates a custom persona in the persona registry
+   * Resolves to an error message for the editor form, or null on success
+   */
+  const savePersona = async (input: PersonaInput, adminToken: string, id?: string): Promise<string | null> => {
+    try {
+      const response = await fetch(id ? `/api/personas/${id}` : '/api/personas', {
+        method: id ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-admin-token': adminToken,
+        },
+        body: JSON.stringify(input)
+      });
+
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        return data.error || `Persona save failed: ${response.statusText}`;
+      }
+
+      const personas = await loadPersonaDefinitions();
+      setState(prev => ({
+        ...prev,
+        personas
+      }));
+
+      return null;
+    } catch (error) {
+      console.error('❌ Persona save failed:', error);
+      return error instanceof Error ? error.message : 'Persona save failed';
+    }
+  };
+
+  /**
+   * Stores the connected wallet's profile (null on disconnect)
+   * Owned collections are excluded from subsequent curation requests
+   */
+  const setWalletProfile = useCallback((walletProfile: WalletProfile | null) => {
+    setState(prev => ({
+      ...prev,
+      walletProfile
+    }));
+  }, []);
+
   /** Auto-initialize cache on component mount */
   useEffect(() => {
     if (!state.isLoading && !state.isDataReady) {
@@ -247,6 +343,8 @@ export function useWidgetState() {
     expandWidget,
     collapseWidget, 
     selectPersona,
+    savePersona,
+    setWalletProfile,
     retryCache: initiateBackgroundCache
   };
 }
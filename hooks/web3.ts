@@ -1,4 +1,5 @@
 import { alchemy } from '@/lib/clients';
+import type { WalletProfile } from '@/lib/wallet-profile';
 import { useQuery } from '@tanstack/react-query';
 import { OwnedNftsResponse } from 'alchemy-sdk';
 import { Address } from 'viem';
@@ -23,3 +24,31 @@ export function useGetNftForUser(address: Address) {
     refetchOnWindowFocus: true,
   });
 }
+
+/**
+ * Fetches the connected wallet's Shape NFT profile and inferred persona blend
+ * @param address - Connected wallet address (query is disabled when undefined)
+ * @returns react-query's response object containing the WalletProfile
+ */
+export function useWalletProfile(address: Address | undefined) {
+  return useQuery<WalletProfile>({
+    queryKey: ['wallet-profile', address],
+    queryFn: async () => {
+      const response = await fetch('/api/wallet-profile', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ address }),
+      });
+
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `Wallet profile failed: ${response.statusText}`);
+      }
+
+      return data.profile;
+    },
+    enabled: !!address,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+    refetchOnWindowFocus: false,
+  });
+}
@@ -0,0 +1,18 @@
+/**
+ * Server startup hook - starts background jobs in the Node.js runtime
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+/**
+ * Called once by Next.js when the server boots
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startSnapshotSchedule } = await import('./lib/analytics-snapshots');
+    startSnapshotSchedule();
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Unit tests for activity heatmap, weekly buckets, peak detection and trend classification
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { describe, expect, it } from 'vitest';
+import { bucketWeekly, buildActivityHeatmap, classifyTrend, describePeakActivity, linearSlope } from './activity-metrics';
+
+const HOUR_MS = 60 * 60 * 1000;
+const WEEK_MS = 7 * 24 * HOUR_MS;
+
+/** Wednesday 2025-01-01 00:00 UTC */
+const WEDNESDAY = Date.UTC(2025, 0, 1);
+
+describe('bucketWeekly', () => {
+  const end = Date.UTC(2025, 2, 1);
+
+  it('returns empty weeks without timestamps', () => {
+    expect(bucketWeekly([], 4, end)).toEqual([0, 0, 0, 0]);
+  });
+
+  it('counts timestamps per week, oldest first', () => {
+    const timestamps = [end - 1, end - 2 * HOUR_MS, end - WEEK_MS - 1, end - 3 * WEEK_MS - 1];
+
+    expect(bucketWeekly(timestamps, 4, end)).toEqual([1, 0, 1, 2]);
+  });
+
+  it('drops timestamps outside the covered weeks', () => {
+    expect(bucketWeekly([end - 4 * WEEK_MS - 1, end + 1], 4, end)).toEqual([0, 0, 0, 0]);
+  });
+});
+
+describe('classifyTrend', () => {
+  it('is stable without activity', () => {
+    expect(classifyTrend([])).toBe('stable');
+    expect(classifyTrend([0, 0, 0])).toBe('stable');
+  });
+
+  it('is stable for a single week or a flat series', () => {
+    expect(classifyTrend([12])).toBe('stable');
+    expect(classifyTrend([5, 5, 5, 5])).toBe('stable');
+  });
+
+  it('detects rising and falling series', () => {
+    expect(classifyTrend([1, 2, 3, 4])).toBe('up');
+    expect(classifyTrend([4, 3, 2, 1])).toBe('down');
+  });
+
+  it('treats small moves relative to the mean as noise', () => {
+    // Slope 1/week on a mean of 101.5 is under the 10% threshold
+    expect(classifyTrend([100, 101, 102, 103])).toBe('stable');
+  });
+
+  it('fits a least-squares slope', () => {
+    expect(linearSlope([1, 3, 5, 7])).toBe(2);
+    expect(linearSlope([3])).toBe(0);
+  });
+});
+
+describe('describePeakActivity', () => {
+  it('returns null for an empty heatmap', () => {
+    expect(describePeakActivity(buildActivityHeatmap([]))).toBeNull();
+  });
+
+  it('names the busiest weekday and three-hour band', () => {
+    const timestamps = [19, 20, 21, 21].map(hour => WEDNESDAY + hour * HOUR_MS);
+
+    expect(describePeakActivity(buildActivityHeatmap(timestamps))).toBe('Wednesday, 19:00-22:00 UTC');
+  });
+
+  it('lets bands wrap around midnight', () => {
+    const timestamps = [23, 24, 25].map(hour => WEDNESDAY + hour * HOUR_MS);
+
+    expect(describePeakActivity(buildActivityHeatmap(timestamps))).toBe('Thursday, 23:00-02:00 UTC');
+  });
+
+  it('breaks ties towards the earliest weekday and band', () => {
+    const timestamps = [WEDNESDAY + 5 * HOUR_MS, WEDNESDAY + 24 * HOUR_MS + 15 * HOUR_MS];
+
+    expect(describePeakActivity(buildActivityHeatmap(timestamps))).toBe('Wednesday, 03:00-06:00 UTC');
+  });
+});
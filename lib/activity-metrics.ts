@@ -0,0 +1,101 @@
+/**
+ * Time-of-day heatmap, weekly trend and peak detection from timestamped transfers
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+/** UTC weekday labels indexed like Date.getUTCDay() */
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/** Hours combined when naming the busiest time of day */
+const PEAK_BAND_HOURS = 3;
+
+/** Relative weekly change that counts as a trend rather than noise */
+const TREND_THRESHOLD = 0.1;
+
+/** Transfer counts as [weekday 0-6][hour 0-23] in UTC */
+export type ActivityHeatmap = number[][];
+
+/**
+ * Buckets transfer timestamps (ms) into a weekday × hour grid
+ */
+export function buildActivityHeatmap(timestamps: number[]): ActivityHeatmap {
+  const heatmap = WEEKDAYS.map(() => new Array<number>(24).fill(0));
+  for (const timestamp of timestamps) {
+    const date = new Date(timestamp);
+    heatmap[date.getUTCDay()][date.getUTCHours()]++;
+  }
+  return heatmap;
+}
+
+/**
+ * Names the busiest weekday and 3-hour band, e.g. "Wednesday, 19:00-22:00 UTC"
+ * Returns null when the heatmap is empty
+ */
+export function describePeakActivity(heatmap: ActivityHeatmap): string | null {
+  const hourly = new Array<number>(24).fill(0);
+  heatmap.forEach(day => day.forEach((count, hour) => { hourly[hour] += count; }));
+  const dailyTotals = heatmap.map(day => day.reduce((sum, count) => sum + count, 0));
+  if (dailyTotals.every(total => total === 0)) return null;
+
+  // Bands wrap around midnight
+  let bestStart = 0;
+  let bestCount = -1;
+  for (let start = 0; start < 24; start++) {
+    let count = 0;
+    for (let offset = 0; offset < PEAK_BAND_HOURS; offset++) count += hourly[(start + offset) % 24];
+    if (count > bestCount) {
+      bestCount = count;
+      bestStart = start;
+    }
+  }
+
+  const peakDay = dailyTotals.indexOf(Math.max(...dailyTotals));
+  const hour = (h: number) => `${String(h % 24).padStart(2, '0')}:00`;
+  return `${WEEKDAYS[peakDay]}, ${hour(bestStart)}-${hour(bestStart + PEAK_BAND_HOURS)} UTC`;
+}
+
+/**
+ * Counts timestamps (ms) per week, oldest first, for weeks ending at `end`
+ */
+export function bucketWeekly(timestamps: number[], weeks: number, end: number): number[] {
+  const weekMs = 7 * 24 * 60 * 60 * 1000;
+  const buckets = new Array<number>(weeks).fill(0);
+  for (const timestamp of timestamps) {
+    const index = weeks - 1 - Math.floor((end - timestamp) / weekMs);
+    if (index >= 0 && index < weeks) buckets[index]++;
+  }
+  return buckets;
+}
+
+/**
+ * Least-squares slope of a series against its index (units per step)
+ */
+export function linearSlope(values: number[]): number {
+  const n = values.length;
+  if (n < 2) return 0;
+
+  const meanX = (n - 1) / 2;
+  const meanY = values.reduce((sum, value) => sum + value, 0) / n;
+  let covariance = 0;
+  let variance = 0;
+  values.forEach((value, x) => {
+    covariance += (x - meanX) * (value - meanY);
+    variance += (x - meanX) ** 2;
+  });
+  return covariance / variance;
+}
+
+/**
+ * Classifies a weekly series as up/down/stable by its slope relative to the mean
+ */
+export function classifyTrend(weekly: number[]): 'up' | 'down' | 'stable' {
+  const mean = weekly.reduce((sum, value) => sum + value, 0) / Math.max(1, weekly.length);
+  if (mean === 0) return 'stable';
+
+  const relativeSlope = linearSlope(weekly) / mean;
+  return relativeSlope > TREND_THRESHOLD ? 'up' : relativeSlope < -TREND_THRESHOLD ? 'down' : 'stable';
+}
@@ -0,0 +1,47 @@
+/**
+ * Unit tests for the admin token check
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { afterEach, describe, expect, it } from 'vitest';
+import { NextRequest } from 'next/server';
+import { requireAdminToken } from './admin-auth';
+
+const ENV_VAR = 'TEST_ADMIN_TOKEN';
+
+/** Builds a POST request with an optional admin token header */
+function request(token?: string): NextRequest {
+  return new NextRequest('http://localhost/api/admin', {
+    method: 'POST',
+    headers: token === undefined ? {} : { 'x-admin-token': token },
+  });
+}
+
+describe('requireAdminToken', () => {
+  afterEach(() => {
+    delete process.env[ENV_VAR];
+  });
+
+  it('fails closed with 403 when no token is configured', () => {
+    expect(requireAdminToken(request(), ENV_VAR)?.status).toBe(403);
+    expect(requireAdminToken(request('anything'), ENV_VAR)?.status).toBe(403);
+  });
+
+  it('rejects missing and wrong tokens with 401', () => {
+    process.env[ENV_VAR] = 'secret';
+
+    expect(requireAdminToken(request(), ENV_VAR)?.status).toBe(401);
+    expect(requireAdminToken(request('wrong'), ENV_VAR)?.status).toBe(401);
+    expect(requireAdminToken(request('secret-but-longer'), ENV_VAR)?.status).toBe(401);
+  });
+
+  it('lets the configured token through', () => {
+    process.env[ENV_VAR] = 'secret';
+
+    expect(requireAdminToken(request('secret'), ENV_VAR)).toBeNull();
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * Admin token check for write and maintenance endpoints
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+
+/** Header carrying the admin token */
+export const ADMIN_TOKEN_HEADER = 'x-admin-token';
+
+/** Constant-time string comparison - digests first so lengths never leak */
+function tokensMatch(provided: string, expected: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(provided), digest(expected));
+}
+
+/**
+ * Requires the x-admin-token header to equal the token in `envVar`
+ * Fails closed: 403 while the token is unset, 401 on a missing or wrong token, otherwise null
+ */
+export function requireAdminToken(request: NextRequest, envVar: string): NextResponse | null {
+  const expected = process.env[envVar];
+  if (!expected) {
+    return NextResponse.json({ error: `Admin endpoint disabled - set ${envVar} to enable it` }, { status: 403 });
+  }
+
+  const provided = request.headers.get(ADMIN_TOKEN_HEADER);
+  if (!provided || !tokensMatch(provided, expected)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  return null;
+}
@@ -7,100 +7,421 @@
  * @author ATrnd
  */
 
-import { createAnthropic } from '@ai-sdk/anthropic';
-import { generateText } from 'ai';
+import { generateObject, generateText, NoObjectGeneratedError } from 'ai';
+import { type z } from 'zod';
 import { type Collection, type PersonaType, type PersonaDefinition } from './collections-data';
+import { getLanguageModel, getModelLabel, isLlmConfigured } from './llm-provider';
+import {
+  createCurationSchema,
+  createTokenCurationSchema,
+  DEFAULT_TOKEN_PICKS,
+  DEFAULT_TOP_PICKS,
+  type CurationOptions,
+} from './curation-schema';
+import { createComparisonSchema } from './comparison-schema';
+import { type ActivityAnalytics, type HolderAnalytics, type HolderOverlap, type MarketAnalytics } from './analytics-service';
+import { type CollectorAffinity } from './overlap-graph';
+import { MISSING_TRAIT_VALUE, type RankedToken, type TraitFrequency } from './trait-rarity';
+
+/** Re-prompts allowed after schema-invalid model output */
+const CURATION_REPAIR_ATTEMPTS = 1;
+
+/** Per-collection metadata budget in the curation prompt */
+const PROMPT_DESCRIPTION_CHARS = 300;
+const PROMPT_TRAITS = 6;
+const PROMPT_TRAIT_VALUES = 5;
+
+/** A curated collection with the model's match score and rationale */
+export interface CuratedCollection {
+  collection: Collection;
+  score: number; // 0-100 persona match
+  rationale: string;
+}
 
 /** AI Analysis Result Interface */
 export interface PersonaAnalysisResult {
-  selectedCollections: Collection[];
+  selectedCollections: Collection[]; // top picks
+  curated: CuratedCollection[]; // every scored collection, best first
+  mode: CurationOptions['mode'];
+  reasoning: string;
+  confidence: number; // 0-1 scale
+  source: 'llm' | 'blended' | 'co-ownership' | 'rules'; // where the scores came from
+  shareId?: string; // server-held curation id, saved as a playlist via POST /api/playlists
+}
+
+/** A recommended token with the model's match score, rationale and marketplace link */
+export interface TokenRecommendation {
+  token: RankedToken;
+  score: number; // 0-100 persona match
+  rationale: string;
+  marketplaceUrl: string;
+}
+
+/** Token-level curation of one collection for one persona */
+export interface TokenRecommendationResult {
+  contractAddress: string;
+  recommendations: TokenRecommendation[]; // best first
   reasoning: string;
   confidence: number; // 0-1 scale
 }
 
+/** Why curation failed: the model could not be reached, or its output never validated */
+export type CurationErrorKind = 'model_unavailable' | 'invalid_output';
+
 /**
- * Health check for Claude API integration
- * Validates API key and connection status
+ * Curation failure surfaced to API routes instead of a silent fallback selection
+ */
+export class CurationError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: CurationErrorKind,
+    options?: { cause?: unknown }
+  ) {
+    super(message, options);
+    this.name = 'CurationError';
+  }
+}
+
+/** One collection with whatever analytics were available for it */
+export interface ComparisonEntry {
+  collection: Collection;
+  market: MarketAnalytics | null;
+  holders: HolderAnalytics | null;
+  activity: ActivityAnalytics | null;
+}
+
+/** LLM comparative summary of 2-4 collections */
+export interface CollectionComparison {
+  summary: string;
+  verdicts: { contractAddress: string; verdict: string }[]; // in comparison order
+  standout: { contractAddress: string; reason: string };
+  confidence: number; // 0-1 scale
+}
+
+/** A labelled image sent alongside a prompt to a vision-capable model */
+interface PromptImage {
+  label: string;
+  data: Uint8Array; // WebP thumbnail
+}
+
+/** One persona's share of a blended quiz profile */
+export interface BlendComponent {
+  persona: PersonaDefinition;
+  weight: number; // 0-1 share of the blend
+}
+
+/**
+ * Health check for the configured LLM provider
+ * Validates credentials and connection status
  */
 export async function testClaudeConnection(): Promise<boolean> {
   try {
-    if (!process.env.ANTHROPIC_API_KEY) {
-      console.warn('⚠️ No Anthropic API key found');
+    if (!isLlmConfigured()) {
+      console.warn(`⚠️ No credentials found for ${getModelLabel()}`);
       return false;
     }
 
-    console.log('🤖 Testing Claude API connection...');
-    
-    const anthropic = createAnthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY,
-    });
+    console.log(`🤖 Testing ${getModelLabel()} connection...`);
 
     const { text } = await generateText({
-      model: anthropic('claude-3-5-sonnet-20241022'),
+      model: getLanguageModel(),
       prompt: 'Respond with exactly "OK" if you can read this.',
     });
 
     const isConnected = text.trim().toLowerCase().includes('ok');
-    console.log(`${isConnected ? '✅' : '❌'} Claude API connection ${isConnected ? 'successful' : 'failed'}`);
+    console.log(`${isConnected ? '✅' : '❌'} ${getModelLabel()} connection ${isConnected ? 'successful' : 'failed'}`);
     
     return isConnected;
   } catch (error) {
-    console.error('❌ Claude API connection failed:', error);
+    console.error(`❌ ${getModelLabel()} connection failed:`, error);
     return false;
   }
 }
 
 /**
- * Core AI analysis function - matches collections to persona using Claude 3.5 Sonnet
- * Uses sophisticated cultural analysis prompts tailored per persona
+ * Core AI analysis function - matches collections to persona using the configured LLM
+ * Output is schema-validated; invalid output gets one repair round before failing
+ * Throws CurationError instead of degrading to an arbitrary selection
  */
 export async function analyzePersonaCollections(
   persona: PersonaType,
   personaDefinition: PersonaDefinition,
-  allCollections: Collection[]
+  allCollections: Collection[],
+  blend?: BlendComponent[],
+  options: CurationOptions = { mode: 'select', topPicks: DEFAULT_TOP_PICKS },
+  affinities: Record<string, CollectorAffinity[]> = {},
+  images: Record<string, Uint8Array[]> = {}
 ): Promise<PersonaAnalysisResult> {
-  try {
-    console.log(`🤖 Analyzing ${allCollections.length} collections for ${persona.toUpperCase()} persona...`);
+  if (allCollections.length === 0) {
+    throw new CurationError('No collections available to curate', 'invalid_output');
+  }
 
-    // Create sophisticated persona-specific prompt
-    const prompt = createPersonaPrompt(persona, personaDefinition, allCollections);
+  console.log(`🤖 ${options.mode === 'rank' ? 'Ranking' : 'Analyzing'} ${allCollections.length} collections for ${persona.toUpperCase()} persona...`);
+
+  // Create sophisticated persona-specific prompt
+  const prompt = createPersonaPrompt(personaDefinition, allCollections, blend, options, affinities, images);
+  const schema = createCurationSchema(allCollections.length, options);
+  const promptImages = allCollections.flatMap((c, i) =>
+    (images[c.contractAddress.toLowerCase()] ?? []).map(data => ({ label: `Artwork sample from collection ${i + 1}:`, data }))
+  );
+  const output = await generateValidatedObject(schema, prompt, persona, promptImages);
+
+  // Strongest matches first
+  const curated = output.selections
+    .map(selection => ({
+      collection: allCollections[selection.index - 1],
+      score: selection.score,
+      rationale: selection.rationale,
+    }))
+    .sort((a, b) => b.score - a.score);
+
+  const topPicks = curated.slice(0, options.topPicks);
+
+  console.log(`✅ AI analysis complete: ${curated.length} collections scored, ${topPicks.length} top picks with ${Math.round(output.confidence * 100)}% confidence`);
+
+  return {
+    selectedCollections: topPicks.map(c => c.collection),
+    curated,
+    mode: options.mode,
+    reasoning: output.reasoning,
+    confidence: output.confidence,
+    source: 'llm',
+  };
+}
 
-    const anthropic = createAnthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY,
-    });
+/**
+ * Second curation stage - picks specific tokens of one collection for a persona
+ * from their traits, rarity and, with a vision model, their artwork
+ * Shares the curation repair loop, so failures surface as CurationError
+ */
+export async function recommendPersonaTokens(
+  persona: PersonaType,
+  personaDefinition: PersonaDefinition,
+  collection: Collection,
+  candidates: RankedToken[],
+  traits: Record<string, TraitFrequency[]>,
+  picks = DEFAULT_TOKEN_PICKS,
+  images: Record<string, Uint8Array> = {}
+): Promise<TokenRecommendationResult> {
+  if (candidates.length === 0) {
+    throw new CurationError('No tokens available to curate', 'invalid_output');
+  }
 
-    const { text } = await generateText({
-      model: anthropic('claude-3-5-sonnet-20241022'),
-      prompt,
-    });
+  console.log(`🎯 Picking tokens of ${collection.name} for ${persona.toUpperCase()} persona from ${candidates.length} candidates...`);
+
+  const prompt = createTokenPrompt(personaDefinition, collection, candidates, traits, picks, images);
+  const promptImages = candidates.flatMap((token, i) =>
+    images[token.tokenId] ? [{ label: `Artwork of token ${i + 1}:`, data: images[token.tokenId] }] : []
+  );
+  const output = await generateValidatedObject(
+    createTokenCurationSchema(candidates.length, picks),
+    prompt,
+    `${persona} tokens`,
+    promptImages
+  );
+
+  const recommendations = output.selections
+    .map(selection => {
+      const token = candidates[selection.index - 1];
+      return {
+        token,
+        score: selection.score,
+        rationale: selection.rationale,
+        marketplaceUrl: `https://opensea.io/assets/shape/${collection.contractAddress}/${token.tokenId}`,
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+
+  console.log(`✅ Token picks complete: ${recommendations.length} tokens with ${Math.round(output.confidence * 100)}% confidence`);
+
+  return {
+    contractAddress: collection.contractAddress,
+    recommendations,
+    reasoning: output.reasoning,
+    confidence: output.confidence,
+  };
+}
 
-    // Parse Claude's response
-    const analysis = parseClaudeResponse(text, allCollections);
-    
-    console.log(`✅ AI analysis complete: ${analysis.selectedCollections.length} collections selected with ${Math.round(analysis.confidence * 100)}% confidence`);
-    
-    return analysis;
+/**
+ * Prompt as plain text, or as one multimodal user message when images are attached
+ */
+function buildPromptInput(prompt: string, images: PromptImage[]) {
+  if (images.length === 0) return { prompt };
+
+  return {
+    messages: [{
+      role: 'user' as const,
+      content: [
+        { type: 'text' as const, text: prompt },
+        ...images.flatMap(image => [
+          { type: 'text' as const, text: image.label },
+          { type: 'image' as const, image: image.data, mediaType: 'image/webp' },
+        ]),
+      ],
+    }],
+  };
+}
 
-  } catch (error) {
-    console.error(`❌ AI analysis failed for ${persona}:`, error);
-    
-    // Fallback to simple selection if AI fails
-    return {
-      selectedCollections: allCollections.slice(0, 2),
-      reasoning: `AI analysis failed, showing first 2 collections as fallback. Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
-      confidence: 0.1
-    };
+/**
+ * Generates schema-validated output, re-prompting after invalid output
+ * Throws CurationError when the model is unreachable or never validates
+ */
+async function generateValidatedObject<T>(
+  schema: z.Schema<T, z.ZodTypeDef, unknown>,
+  prompt: string,
+  label: string,
+  images: PromptImage[] = []
+): Promise<T> {
+  const model = getLanguageModel();
+  let lastInvalid: { text?: string; message: string } | null = null;
+
+  for (let attempt = 0; attempt <= CURATION_REPAIR_ATTEMPTS; attempt++) {
+    try {
+      const { object } = await generateObject({
+        model,
+        schema,
+        ...buildPromptInput(lastInvalid ? createRepairPrompt(prompt, lastInvalid) : prompt, images),
+        experimental_repairText: repairCurationText,
+      });
+      return object;
+    } catch (error) {
+      if (!NoObjectGeneratedError.isInstance(error)) {
+        console.error(`❌ AI model unavailable for ${label}:`, error);
+        throw new CurationError(
+          `AI model unavailable: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          'model_unavailable',
+          { cause: error }
+        );
+      }
+
+      lastInvalid = { text: error.text, message: describeInvalidOutput(error) };
+      console.warn(`🔄 AI output invalid for ${label} (attempt ${attempt + 1}): ${lastInvalid.message}`);
+    }
   }
+
+  console.error(`❌ AI output could not be repaired for ${label}`);
+  throw new CurationError(
+    `AI model output invalid: ${lastInvalid?.message ?? 'Unknown error'}`,
+    'invalid_output'
+  );
+}
+
+/**
+ * Comparative analysis of 2-4 collections from their metrics and shared holders
+ * Shares the curation repair loop, so failures surface as CurationError
+ */
+export async function compareCollections(entries: ComparisonEntry[], overlap: HolderOverlap | null): Promise<CollectionComparison> {
+  console.log(`⚖️ Comparing ${entries.length} collections with ${getModelLabel()}...`);
+
+  const prompt = createComparisonPrompt(entries, overlap);
+  const output = await generateValidatedObject(createComparisonSchema(entries.length), prompt, 'comparison');
+  const addressAt = (index: number) => entries[index - 1].collection.contractAddress;
+
+  console.log(`✅ Comparison complete - standout: ${entries[output.standout.index - 1].collection.name}`);
+
+  return {
+    summary: output.summary,
+    verdicts: [...output.verdicts]
+      .sort((a, b) => a.index - b.index)
+      .map(v => ({ contractAddress: addressAt(v.index), verdict: v.verdict })),
+    standout: { contractAddress: addressAt(output.standout.index), reason: output.standout.reason },
+    confidence: output.confidence,
+  };
+}
+
+/**
+ * Builds the comparison prompt - one numbered block of metrics per collection
+ */
+function createComparisonPrompt(entries: ComparisonEntry[], overlap: HolderOverlap | null): string {
+  const nameOf = (address: string) =>
+    entries.find(e => e.collection.contractAddress.toLowerCase() === address.toLowerCase())?.collection.name || address;
+
+  const blocks = entries.map(({ collection: c, market, holders, activity }, i) => `${i + 1}. "${c.name || 'Unnamed'}" (${c.symbol || 'N/A'})
+   Standard: ${c.standard?.toUpperCase() || 'Unknown'} | Supply: ${c.totalSupply || 'Unknown'} | Owners: ${c.owners || 'Unknown'}
+   Market: ${market
+     ? `${market.windows['30d'].transfers} transfers / ${market.windows['30d'].sales} sales / ${market.windows['30d'].volume} ETH volume (30d), liquidity ${market.liquidityScore}/100, momentum ${market.momentum}, floor ${market.sales?.floorPrice ?? 'n/a'} ETH`
+     : 'unavailable'}
+   Holders: ${holders
+     ? `${holders.totalHolders} holders, top-10 share ${holders.concentrationRatio}%, Gini ${holders.giniCoefficient}, Nakamoto ${holders.nakamotoCoefficient}, ${holders.whaleHolders} whales`
+     : 'unavailable'}
+   Activity: ${activity
+     ? `${activity.transferVelocity} transfers/day over ${activity.windowDays}d, trend ${activity.trendDirection}, peak ${activity.peakActivity}`
+     : 'unavailable'}`).join('\n\n');
+
+  return `You are an expert NFT analyst comparing Shape Network collections side by side.
+
+COLLECTIONS UNDER COMPARISON:
+${blocks}
+
+SHARED HOLDERS:
+${overlap
+    ? `${overlap.pairs.map(p => `- ${nameOf(p.a)} & ${nameOf(p.b)}: ${p.shared} shared holders`).join('\n')}
+- Holding all ${entries.length}: ${overlap.sharedByAll}`
+    : 'Holder overlap unavailable'}
+
+RESPONSE FORMAT: Respond with a JSON object matching the provided schema:
+- summary: 3-4 sentences contrasting the collections on market depth, ownership structure, activity and community overlap
+- verdicts: exactly ${entries.length} entries, one per collection, each with "index" (1-${entries.length}) and a one-sentence "verdict" relative to the others
+- standout: the "index" of the strongest collection overall and the "reason"
+- confidence: 0-1, lower when metrics are unavailable
+
+Be specific and cite the numbers above. Treat missing data as uncertainty, not weakness.`;
+}
+
+/**
+ * Local repair for near-miss output: strips markdown fences and surrounding prose
+ * Returns null when there is nothing JSON-like to recover
+ */
+async function repairCurationText({ text }: { text: string }): Promise<string | null> {
+  const jsonMatch = text.match(/\{[\s\S]*\}/);
+  return jsonMatch && jsonMatch[0] !== text ? jsonMatch[0] : null;
+}
+
+/**
+ * Extracts the validation or parse failure behind a NoObjectGeneratedError
+ */
+function describeInvalidOutput(error: NoObjectGeneratedError): string {
+  const cause = error.cause;
+  return cause instanceof Error ? cause.message : error.message;
+}
+
+/**
+ * Re-prompts with the rejected output and its validation error so the model can correct it
+ */
+function createRepairPrompt(prompt: string, invalid: { text?: string; message: string }): string {
+  return `${prompt}
+
+YOUR PREVIOUS RESPONSE WAS REJECTED:
+${invalid.text ? `${invalid.text.slice(0, 2000)}\n` : ''}
+VALIDATION ERROR: ${invalid.message}
+
+Return a corrected response that satisfies the schema exactly.`;
 }
 
 /**
  * Creates sophisticated persona-specific prompts for Claude analysis
- * Tailors cultural analysis criteria based on persona type
+ * Tailors cultural analysis criteria from the persona's registry definition
  */
-function createPersonaPrompt(persona: PersonaType, personaDefinition: PersonaDefinition, collections: Collection[]): string {
+function createPersonaPrompt(
+  personaDefinition: PersonaDefinition,
+  collections: Collection[],
+  blend: BlendComponent[] | undefined,
+  options: CurationOptions,
+  affinities: Record<string, CollectorAffinity[]>,
+  images: Record<string, Uint8Array[]>
+): string {
+  const isRanking = options.mode === 'rank';
+  const pickCount = Math.min(options.topPicks, collections.length);
+  const hasAffinities = collections.some(c => affinities[c.contractAddress.toLowerCase()]?.length);
+  const hasMetadata = collections.some(c => c.description || Object.keys(c.traits ?? {}).length > 0);
+  const imageCount = (c: Collection) => images[c.contractAddress.toLowerCase()]?.length ?? 0;
+  const hasImages = collections.some(c => imageCount(c) > 0);
+
   const basePrompt = `You are an expert NFT cultural analyst specializing in blockchain subcultures and digital art movements on Shape Network.
 
-MISSION: Analyze ${collections.length} real NFT collections and select 3-4 that authentically embody the "${personaDefinition.title}" persona.
+MISSION: Analyze ${collections.length} real NFT collections and ${isRanking
+    ? `score every one of them for how authentically it embodies`
+    : `select up to ${pickCount} that authentically embody`} the "${personaDefinition.title}" persona.
 
 TARGET PERSONA: ${personaDefinition.title} ${personaDefinition.emoji}
 CORE IDENTITY: ${personaDefinition.description}
@@ -108,120 +429,144 @@ CULTURAL THEME: ${personaDefinition.theme}
 
 COLLECTIONS DATABASE:
 ${collections.map((c, i) => `${i + 1}. "${c.name || 'Unnamed'}" (${c.symbol || 'N/A'})
-   Supply: ${c.totalSupply || 'Unknown'} | Owners: ${c.owners || 'Unknown'}
-   Contract: ${c.contractAddress}`).join('\n\n')}
-
+   Standard: ${c.standard?.toUpperCase() || 'Unknown'} | Supply: ${c.totalSupply || 'Unknown'} | Owners: ${c.owners || 'Unknown'}
+   Contract: ${c.contractAddress}${describeCollectionMetadata(c)}${describeAffinities(affinities[c.contractAddress.toLowerCase()])}${imageCount(c) > 0 ? `
+   Artwork: ${imageCount(c)} sample image${imageCount(c) === 1 ? '' : 's'} attached` : ''}`).join('\n\n')}
+${hasMetadata ? `
+METADATA: Judge aesthetics and culture from descriptions and trait names first - a name alone is weak evidence. Collections without metadata should be scored on what is known, not penalised for the gap.
+` : ''}${hasImages ? `
+VISUALS: Sample token artwork is attached after this prompt, each image labelled with its collection number. For aesthetic personas, let palette, composition and style outweigh names and descriptions. Collections without artwork are judged on their text alone.
+` : ''}${hasAffinities ? `
+COLLECTOR OVERLAP: "Collectors also hold" lists the share of each collection's holders who own another listed collection. Shared collectors signal cultural kinship - weigh it as supporting evidence alongside the persona criteria, never as a substitute.
+` : ''}
 PERSONA-SPECIFIC ANALYSIS CRITERIA:`;
 
   // Add persona-specific criteria
-  const personaPrompts = {
-    renegade: `${basePrompt}
-For RENEGADE ${personaDefinition.emoji}, prioritize collections that:
-- Challenge conventional NFT aesthetics or market norms
-- Have underground, countercultural, or punk vibes  
-- Represent artistic rebellion or anti-establishment themes
-- Appeal to collectors who reject mainstream trends
-- Show experimental, edgy, or provocative concepts
-- Have smaller, tight-knit communities of rebels
-
-Look for: Dark aesthetics, punk art, glitch art, underground movements, anti-corporate themes`,
-
-    fomo: `${basePrompt}
-For FOMO ${personaDefinition.emoji}, prioritize collections that:
-- Generate excitement, hype, or urgency
-- Have viral potential or trending aesthetics
-- Appeal to collectors who chase the "next big thing"
-- Show high activity, buzz, or social momentum
-- Feature eye-catching, shareable visual styles
-- Represent current or emerging cultural trends
-
-Look for: Trending styles, viral concepts, hype-worthy art, social media friendly, momentum indicators`,
-
-    zen: `${basePrompt}
-For ZEN ${personaDefinition.emoji}, prioritize collections that:
-- Promote calm, mindfulness, or spiritual reflection
-- Have minimalist, meditative, or nature-inspired aesthetics
-- Appeal to thoughtful, intentional collectors
-- Show artistic depth, philosophy, or meaning
-- Encourage slow appreciation over quick flipping
-- Represent balance, harmony, or inner peace
-
-Look for: Minimalist art, nature themes, spiritual concepts, meditative qualities, timeless appeal`,
-
-    chaos: `${basePrompt}
-For CHAOS ${personaDefinition.emoji}, prioritize collections that:
-- Embrace randomness, unpredictability, or complexity
-- Have maximalist, eclectic, or wildly creative aesthetics
-- Appeal to experimental, risk-taking collectors
-- Show innovative, boundary-pushing concepts
-- Feature multiple styles, themes, or approaches
-- Represent creative freedom and artistic chaos
-
-Look for: Experimental art, random generation, complex systems, innovative concepts, creative chaos`
-  };
+  const personaPrompt = `${basePrompt}
+For ${personaDefinition.title} ${personaDefinition.emoji}, prioritize collections that:
+${personaDefinition.criteria.map(criterion => `- ${criterion}`).join('\n')}
 
-  const fullPrompt = personaPrompts[persona] + `
+Look for: ${personaDefinition.lookFor.join(', ')}${blend && blend.length > 1 ? createBlendSection(personaDefinition, blend) : ''}`;
 
-RESPONSE FORMAT: Provide your analysis as JSON with this exact structure:
-{
-  "selectedCollections": [1, 3, 7],
-  "reasoning": "I selected these collections because...",
-  "confidence": 0.85
-}
+  const fullPrompt = personaPrompt + `
 
-IMPORTANT:
-- selectedCollections: Array of collection numbers (1-${collections.length}) that best match this persona
+RESPONSE FORMAT: Respond with a JSON object matching the provided schema:
+- selections: ${isRanking ? `exactly ${collections.length} entries, one per collection,` : `1-${pickCount} entries,`} each with "index" (collection number 1-${collections.length}), "score" (0-100 match with this persona) and "rationale" (1-2 sentences on why it fits)
 - reasoning: 2-3 sentences explaining your cultural analysis and why these collections embody the ${personaDefinition.title} persona
 - confidence: Your confidence score (0-1) in this persona match
 
-Select 3-4 collections that most authentically represent the ${personaDefinition.title} mindset and aesthetic preferences.`;
+${isRanking
+    ? `Score every collection, using the full 0-100 range so the ${pickCount} strongest ${personaDefinition.title} matches clearly stand out.`
+    : `Select up to ${pickCount} collections that most authentically represent the ${personaDefinition.title} mindset and aesthetic preferences.`}`;
 
   return fullPrompt;
 }
 
 /**
- * Parses Claude's JSON response into structured analysis result
- * Handles response validation and fallback error handling
+ * Builds the token curation prompt - one numbered block per candidate with its traits,
+ * each trait annotated with the share of the collection carrying it
  */
-function parseClaudeResponse(response: string, allCollections: Collection[]): PersonaAnalysisResult {
-  try {
-    // Extract JSON from response (handle any markdown formatting)
-    const jsonMatch = response.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error('No JSON found in response');
-    }
+function createTokenPrompt(
+  personaDefinition: PersonaDefinition,
+  collection: Collection,
+  candidates: RankedToken[],
+  traits: Record<string, TraitFrequency[]>,
+  picks: number,
+  images: Record<string, Uint8Array>
+): string {
+  const pickCount = Math.min(picks, candidates.length);
+  const hasImages = candidates.some(token => images[token.tokenId]);
+  const shareOf = (traitType: string, value: string) =>
+    traits[traitType]?.find(t => t.value === value)?.frequency;
+
+  const blocks = candidates.map((token, i) => {
+    const attributes = Object.keys(traits).map(traitType => {
+      const value = token.attributes.find(a => a.traitType === traitType)?.value ?? MISSING_TRAIT_VALUE;
+      const share = shareOf(traitType, value);
+      return `${traitType}: ${value}${share !== undefined ? ` (${Math.round(share * 1000) / 10}%)` : ''}`;
+    });
 
-    const parsed = JSON.parse(jsonMatch[0]);
-    
-    // Validate response structure
-    if (!parsed.selectedCollections || !Array.isArray(parsed.selectedCollections)) {
-      throw new Error('Invalid selectedCollections format');
-    }
+    return `${i + 1}. "${token.name || `${collection.name || 'Token'} #${token.tokenId}`}" (token ${token.tokenId})
+   Rarity rank: ${token.rank} | Rarity score: ${token.rarityScore}/100
+   Traits: ${attributes.length > 0 ? attributes.join('; ') : 'none'}${images[token.tokenId] ? `
+   Artwork: attached` : ''}`;
+  }).join('\n\n');
 
-    // Convert collection indices to actual Collection objects
-    const selectedCollections = parsed.selectedCollections
-      .map((index: number) => {
-        const collectionIndex = index - 1; // Convert 1-based to 0-based
-        return allCollections[collectionIndex];
-      })
-      .filter(Boolean) // Remove any undefined collections
-      .slice(0, 4); // Limit to 4 collections max
-
-    return {
-      selectedCollections,
-      reasoning: parsed.reasoning || 'AI analysis completed',
-      confidence: Math.max(0, Math.min(1, parsed.confidence || 0.5)) // Clamp between 0-1
-    };
+  return `You are an expert NFT curator picking individual tokens for a collector persona on Shape Network.
 
-  } catch (error) {
-    console.error('❌ Failed to parse Claude response:', error);
-    console.log('Raw response:', response);
-    
-    // Fallback parsing
-    return {
-      selectedCollections: allCollections.slice(0, 2),
-      reasoning: 'AI response parsing failed, using fallback selection',
-      confidence: 0.2
-    };
+MISSION: From ${candidates.length} candidate tokens of "${collection.name || 'Unnamed'}", select up to ${pickCount} that best embody the "${personaDefinition.title}" persona.
+
+TARGET PERSONA: ${personaDefinition.title} ${personaDefinition.emoji}
+CORE IDENTITY: ${personaDefinition.description}
+CULTURAL THEME: ${personaDefinition.theme}
+Prioritize tokens that:
+${personaDefinition.criteria.map(criterion => `- ${criterion}`).join('\n')}
+Look for: ${personaDefinition.lookFor.join(', ')}
+
+COLLECTION: "${collection.name || 'Unnamed'}" (${collection.symbol || 'N/A'})${describeCollectionMetadata(collection)}
+
+CANDIDATE TOKENS:
+${blocks}
+
+TRAITS: Percentages are the share of the collection carrying each value. Rarity matters only where it serves the persona - a common token with the right mood beats a rare one without it.
+${hasImages ? `
+VISUALS: Token artwork is attached after this prompt, each image labelled with its token number. Let palette, composition and style carry the most weight for aesthetic personas.
+` : ''}
+RESPONSE FORMAT: Respond with a JSON object matching the provided schema:
+- selections: 1-${pickCount} entries, each with "index" (token number 1-${candidates.length}), "score" (0-100 match with this persona) and "rationale" (1-2 sentences naming the traits or visuals that fit)
+- reasoning: 2-3 sentences on what ties the picks to the ${personaDefinition.title} persona
+- confidence: Your confidence score (0-1) in these picks`;
+}
+
+/**
+ * Formats description, traits, creator, mint date and links for one collection's prompt entry
+ * Descriptions and trait lists are truncated to keep the database compact
+ */
+function describeCollectionMetadata(c: Collection): string {
+  const lines: string[] = [];
+
+  if (c.description) {
+    const description = c.description.replace(/\s+/g, ' ').trim();
+    lines.push(`Description: "${description.length > PROMPT_DESCRIPTION_CHARS ? `${description.slice(0, PROMPT_DESCRIPTION_CHARS)}…` : description}"`);
+  }
+
+  const traits = Object.entries(c.traits ?? {}).slice(0, PROMPT_TRAITS);
+  if (traits.length > 0) {
+    lines.push(`Traits: ${traits.map(([name, values]) => `${name} (${values.slice(0, PROMPT_TRAIT_VALUES).join(', ')}${values.length > PROMPT_TRAIT_VALUES ? ', …' : ''})`).join('; ')}`);
   }
+
+  const provenance = [
+    c.creator && `Creator: ${c.creator}`,
+    c.mintedAt && `Minted: ${c.mintedAt.slice(0, 10)}`,
+    c.externalUrl && `Website: ${c.externalUrl}`,
+    c.socials?.twitter && `X: @${c.socials.twitter}`,
+  ].filter(Boolean);
+  if (provenance.length > 0) lines.push(provenance.join(' | '));
+
+  return lines.map(line => `\n   ${line}`).join('');
+}
+
+/**
+ * Formats "collectors of X also hold Y" for one collection's prompt entry
+ */
+function describeAffinities(affinities: CollectorAffinity[] | undefined): string {
+  if (!affinities?.length) return '';
+  return `\n   Collectors also hold: ${affinities.map(a => `"${a.name}" (${a.share}%)`).join(', ')}`;
+}
+
+/**
+ * Describes a blended quiz profile so secondary personas temper the selection
+ */
+function createBlendSection(personaDefinition: PersonaDefinition, blend: BlendComponent[]): string {
+  const secondary = blend
+    .filter(component => component.persona.id !== personaDefinition.id && component.weight >= 0.15)
+    .sort((a, b) => b.weight - a.weight);
+
+  return `
+
+BLENDED PROFILE (from onboarding quiz):
+${[...blend].sort((a, b) => b.weight - a.weight).map(c => `- ${c.persona.title} ${c.persona.emoji}: ${Math.round(c.weight * 100)}%`).join('\n')}
+${secondary.length > 0 ? `
+Weigh the primary ${personaDefinition.title} criteria most heavily, but favor collections that also resonate with:
+${secondary.map(c => `- ${c.persona.title}: ${c.persona.theme} (look for ${c.persona.lookFor.slice(0, 3).join(', ')})`).join('\n')}` : ''}`;
 }
@@ -0,0 +1,531 @@
+/**
+ * Server-side on-chain analytics engine - market, holder and activity computation
+ * Serves the /api/analytics routes and the snapshot job; never bundled for the browser
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { Alchemy, Network, SortingOrder, BigNumber, Utils, type AssetTransfersWithMetadataResult } from 'alchemy-sdk';
+import { type Collection } from './collections-data';
+import { getCollectionCache } from './collections-cache';
+import { fetchOwnerSet } from './holder-overlap';
+import { computeHolderConcentration } from './holder-metrics';
+import { WETH_ADDRESS } from './marketplace-decoder';
+import { getSalesSummary, type SalesSummary } from './sales-ledger';
+import { ANALYTICS_WINDOWS, findBlockByTimestamp, resolveWindowBlocks, type AnalyticsWindow } from './block-windows';
+import { buildActivityHeatmap, bucketWeekly, classifyTrend, describePeakActivity } from './activity-metrics';
+import { NFT_TRANSFER_CATEGORIES, expandTransfers, normalizeTokenId, type TokenMovement } from './token-transfers';
+import { readTokenAttributes } from './token-traits';
+import { computeTraitRarity, type RarityToken } from './trait-rarity';
+import {
+  type ActivityAnalytics,
+  type HolderAnalytics,
+  type MarketAnalytics,
+  type HolderOverlap,
+  type MarketWindowStats,
+  type RarityAnalytics,
+  type TokenHolding,
+} from './analytics-service';
+
+/** Alchemy SDK instance for Shape Network blockchain data (server key) */
+const alchemy = new Alchemy({
+  apiKey: process.env.ALCHEMY_API_KEY || process.env.NEXT_PUBLIC_ALCHEMY_KEY,
+  network: Network.SHAPE_MAINNET,
+});
+
+/** Page cap for owner lookups - keeps very large collections within request budget */
+const MAX_OWNER_PAGES = 10;
+
+/** Page cap for windowed transfer lookups (1000 transfers per page) */
+const MAX_TRANSFER_PAGES = 20;
+
+/** Transactions priced per market analysis */
+const MAX_PRICED_TRANSACTIONS = 100;
+const PRICING_BATCH_SIZE = 10;
+
+/** keccak256("Transfer(address,address,uint256)") */
+const ERC20_TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+/** Weeks of transfer history behind activity analytics */
+const ACTIVITY_WEEKS = 8;
+
+/** Recent transactions whose receipts are read for gas usage */
+const MAX_GAS_SAMPLES = 30;
+
+/** Gas per transfer below which activity counts as high / medium efficiency */
+const GAS_EFFICIENCY_THRESHOLDS = { high: 100_000, medium: 200_000 };
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** ERC-1155 token ids listed in the holder breakdown */
+const MAX_TOKEN_BREAKDOWN = 10;
+
+/** Page cap for token metadata lookups (100 tokens per page) */
+const MAX_METADATA_PAGES = 50;
+
+/** Ledger summary, or null when the ledger cannot be built */
+async function loadSalesSummary(contractAddress: string): Promise<SalesSummary | null> {
+  try {
+    return await getSalesSummary(contractAddress);
+  } catch (error) {
+    console.warn(`⚠️ Sales ledger unavailable for ${contractAddress}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Market health analysis - windowed transfer data + momentum classification
+ * Transfers are expanded into per-token movements (ERC-1155 batches included) and bucketed
+ * into 24h/7d/30d windows by block range; sale values come from ETH or WETH paid by the
+ * recipient in the same transaction
+ */
+export async function computeMarketHealth(collection: Collection): Promise<MarketAnalytics> {
+  try {
+    console.log(`📊 Computing market health for ${collection.name}...`);
+    
+    const salesRequest = loadSalesSummary(collection.contractAddress);
+    const { latestBlock, startBlocks } = await resolveWindowBlocks(alchemy);
+    // Newest first, so a truncated history only loses the oldest part of the 30d window
+    const { transfers, truncated } = await fetchWindowTransfers(collection.contractAddress, startBlocks['30d'], latestBlock);
+    const movements = expandTransfers(transfers);
+
+    // Price the most recent transactions; older ones fall outside the request budget
+    const txHashes = Array.from(new Set(movements.map(m => m.hash))).slice(0, MAX_PRICED_TRANSACTIONS);
+    const saleValues = await fetchSaleValues(txHashes, movements);
+
+    const windows = Object.fromEntries(
+      (Object.keys(ANALYTICS_WINDOWS) as AnalyticsWindow[]).map(window => {
+        const inWindow = movements.filter(m => m.blockNumber >= startBlocks[window]);
+        const sales = inWindow
+          .map(m => saleValues.get(movementKey(m)))
+          .filter((value): value is number => value !== undefined);
+
+        return [window, {
+          transfers: inWindow.length,
+          units: inWindow.reduce((sum, m) => sum + m.quantity, 0),
+          traders: new Set(inWindow.flatMap(m => [m.from, m.to]).filter(a => a && a !== ZERO_ADDRESS)).size,
+          sales: sales.length,
+          volume: roundEth(sales.reduce((sum, value) => sum + value, 0)),
+        }];
+      })
+    ) as Record<AnalyticsWindow, MarketWindowStats>;
+
+    // Momentum follows the floor when the ledger has prices, otherwise the last day vs the 7-day daily average
+    const sales = await salesRequest;
+    const floorChange = getFloorChange(sales);
+    const dailyAverage7d = windows['7d'].transfers / 7;
+    const momentum = floorChange !== null
+      ? (floorChange > 0.1 ? 'bullish' : floorChange < -0.1 ? 'bearish' : 'neutral')
+      : windows['24h'].transfers > dailyAverage7d * 1.25 && windows['24h'].transfers > 0 ? 'bullish' :
+        windows['24h'].transfers < dailyAverage7d * 0.75 ? 'bearish' : 'neutral';
+
+    // Liquidity: share of supply (in token units) that changed hands over 30 days
+    const supply = collection.totalSupply || 0;
+    const liquidityScore = supply > 0
+      ? Math.min(100, Math.round((windows['30d'].units / supply) * 100))
+      : Math.min(100, windows['30d'].units);
+    const avgTransactionValue = windows['30d'].sales > 0 ? roundEth(windows['30d'].volume / windows['30d'].sales) : 0;
+    
+    console.log(`✅ Market health analysis complete for ${collection.name}`);
+    
+    return {
+      transferCount24h: windows['24h'].transfers,
+      uniqueTraders24h: windows['24h'].traders,
+      windows,
+      liquidityScore,
+      momentum,
+      avgTransactionValue,
+      truncated,
+      sales
+    };
+
+  } catch (error) {
+    console.error(`❌ Market health fetch failed for ${collection.name}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Relative change between the lowest sale of the last 7 days and of the 7 days before
+ * Null when either week has no sales
+ */
+function getFloorChange(sales: SalesSummary | null): number | null {
+  if (!sales) return null;
+
+  const lowest = (points: SalesSummary['floorHistory']) => {
+    const floors = points.map(p => p.floor).filter((floor): floor is number => floor !== null);
+    return floors.length > 0 ? Math.min(...floors) : null;
+  };
+
+  const recent = lowest(sales.floorHistory.slice(-7));
+  const previous = lowest(sales.floorHistory.slice(-14, -7));
+  return recent !== null && previous !== null && previous > 0 ? (recent - previous) / previous : null;
+}
+
+/**
+ * Fetches every transfer of a contract within a block range (paginated)
+ * Newest first, so a truncated result keeps the latest transfers and drops the oldest
+ */
+async function fetchWindowTransfers(contractAddress: string, fromBlock: number, toBlock: number) {
+  const transfers: AssetTransfersWithMetadataResult[] = [];
+  let pageKey: string | undefined;
+  let truncated = false;
+
+  for (let page = 0; page < MAX_TRANSFER_PAGES; page++) {
+    const response = await alchemy.core.getAssetTransfers({
+      contractAddresses: [contractAddress],
+      category: NFT_TRANSFER_CATEGORIES,
+      fromBlock: `0x${fromBlock.toString(16)}`,
+      toBlock: `0x${toBlock.toString(16)}`,
+      order: SortingOrder.DESCENDING,
+      withMetadata: true,
+      pageKey,
+    });
+
+    transfers.push(...response.transfers);
+    pageKey = response.pageKey;
+    if (!pageKey) break;
+    if (page === MAX_TRANSFER_PAGES - 1) truncated = true;
+  }
+
+  return { transfers, truncated };
+}
+
+/** Identifies one token movement within a transaction */
+function movementKey(movement: TokenMovement): string {
+  return `${movement.hash}:${movement.tokenId}:${movement.to}`;
+}
+
+/**
+ * Prices token movements from payments in the same transaction
+ * ETH: transaction value sent by the recipient; WETH: Transfer logs from the recipient
+ * A payment covering several tokens to the same recipient is split by quantity;
+ * the stored value is the total paid for that movement
+ */
+async function fetchSaleValues(txHashes: string[], movements: TokenMovement[]): Promise<Map<string, number>> {
+  const values = new Map<string, number>();
+  const priced = [];
+
+  // Small batches keep RPC concurrency polite
+  for (let i = 0; i < txHashes.length; i += PRICING_BATCH_SIZE) {
+    priced.push(...await Promise.all(txHashes.slice(i, i + PRICING_BATCH_SIZE).map(async hash => {
+      try {
+        const [transaction, receipt] = await Promise.all([
+          alchemy.core.getTransaction(hash),
+          alchemy.core.getTransactionReceipt(hash),
+        ]);
+        return { hash, transaction, receipt };
+      } catch (error) {
+        console.warn(`⚠️ Could not price transaction ${hash}:`, error);
+        return { hash, transaction: null, receipt: null };
+      }
+    })));
+  }
+
+  for (const { hash, transaction, receipt } of priced) {
+    if (!transaction || !receipt) continue;
+
+    const tokensByBuyer = new Map<string, TokenMovement[]>();
+    for (const movement of movements.filter(m => m.hash === hash && m.to && m.from !== ZERO_ADDRESS)) {
+      tokensByBuyer.set(movement.to, [...(tokensByBuyer.get(movement.to) ?? []), movement]);
+    }
+
+    for (const [buyer, tokens] of tokensByBuyer) {
+      let paid = BigNumber.from(0);
+
+      if (transaction.from.toLowerCase() === buyer) {
+        paid = paid.add(transaction.value);
+      }
+
+      for (const log of receipt.logs) {
+        if (log.address.toLowerCase() !== WETH_ADDRESS || log.topics[0] !== ERC20_TRANSFER_TOPIC) continue;
+        const from = `0x${log.topics[1].slice(26)}`.toLowerCase();
+        if (from === buyer) paid = paid.add(BigNumber.from(log.data));
+      }
+
+      if (paid.isZero()) continue;
+
+      const units = tokens.reduce((sum, token) => sum + token.quantity, 0) || tokens.length;
+      const perUnit = parseFloat(Utils.formatEther(paid)) / units;
+      tokens.forEach(token => values.set(movementKey(token), perUnit * token.quantity));
+    }
+  }
+
+  return values;
+}
+
+/** Rounds an ETH amount for display */
+function roundEth(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * Fetches every owner of a contract with per-token balances (paginated)
+ * Returns units held per owner plus supply and holders per token id
+ */
+async function fetchOwnerBalances(contractAddress: string) {
+  const balances = new Map<string, number>();
+  const tokens = new Map<string, TokenHolding>();
+  let pageKey: string | undefined;
+
+  for (let page = 0; page < MAX_OWNER_PAGES; page++) {
+    const response = await alchemy.nft.getOwnersForContract(contractAddress, {
+      withTokenBalances: true,
+      pageKey,
+    });
+
+    for (const owner of response.owners) {
+      let held = 0;
+      for (const token of owner.tokenBalances) {
+        const balance = parseInt(token.balance) || 0;
+        if (balance <= 0) continue;
+        held += balance;
+
+        const tokenId = normalizeTokenId(token.tokenId);
+        const holding = tokens.get(tokenId) ?? { tokenId, supply: 0, holders: 0 };
+        holding.supply += balance;
+        holding.holders++;
+        tokens.set(tokenId, holding);
+      }
+      const address = owner.ownerAddress.toLowerCase();
+      balances.set(address, (balances.get(address) ?? 0) + held);
+    }
+
+    pageKey = response.pageKey;
+    if (!pageKey) break;
+  }
+
+  return { balances, tokens };
+}
+
+/**
+ * Shared holders between every pair of the given collections, plus holders of all of them
+ */
+export async function computeHolderOverlap(collections: Collection[]): Promise<HolderOverlap> {
+  const ownerSets = await Promise.all(collections.map(c => fetchOwnerSet(c.contractAddress)));
+
+  const pairs: HolderOverlap['pairs'] = [];
+  for (let i = 0; i < collections.length; i++) {
+    for (let j = i + 1; j < collections.length; j++) {
+      const [smaller, larger] = ownerSets[i].size <= ownerSets[j].size ? [ownerSets[i], ownerSets[j]] : [ownerSets[j], ownerSets[i]];
+      pairs.push({
+        a: collections[i].contractAddress,
+        b: collections[j].contractAddress,
+        shared: Array.from(smaller).filter(owner => larger.has(owner)).length,
+      });
+    }
+  }
+
+  const [first, ...rest] = ownerSets;
+  const sharedByAll = first ? Array.from(first).filter(owner => rest.every(owners => owners.has(owner))).length : 0;
+
+  return {
+    holders: Object.fromEntries(collections.map((c, i) => [c.contractAddress, ownerSets[i].size])),
+    pairs,
+    sharedByAll,
+  };
+}
+
+/**
+ * Holder distribution analysis using on-chain ownership with token balances
+ * Computes top-10 share, Gini, Nakamoto coefficient, whales and overlap with other approved collections
+ */
+export async function computeHolderAnalysis(
+  collection: Collection,
+  peerCollections?: Collection[]
+): Promise<HolderAnalytics> {
+  try {
+    console.log(`👥 Computing holder analysis for ${collection.name}...`);
+    
+    const peers = (peerCollections ?? (await getCollectionCache()).collections).filter(
+      c => c.contractAddress.toLowerCase() !== collection.contractAddress.toLowerCase()
+    );
+
+    const [{ balances, tokens }, peerOwnerSets] = await Promise.all([
+      fetchOwnerBalances(collection.contractAddress),
+      // A failing peer lookup only narrows the overlap, it doesn't fail the analysis
+      Promise.all(peers.map(peer => fetchOwnerSet(peer.contractAddress).catch(() => new Set<string>()))),
+    ]);
+
+    const concentration = computeHolderConcentration(Array.from(balances.values()), collection.totalSupply);
+
+    const crossCollectionHolders = Array.from(balances.keys()).filter(
+      holder => peerOwnerSets.some(owners => owners.has(holder))
+    ).length;
+
+    const distribution = concentration.gini > 0.6 || concentration.top10Share > 70 ? 'concentrated' :
+                        concentration.gini < 0.35 && concentration.top10Share < 30 ? 'distributed' : 'balanced';
+
+    // ERC-1155 balances are quantities across editions - surface the largest editions
+    const tokenBreakdown = collection.standard === 'erc1155'
+      ? Array.from(tokens.values()).sort((a, b) => b.supply - a.supply).slice(0, MAX_TOKEN_BREAKDOWN)
+      : null;
+    
+    console.log(`✅ Holder analysis complete for ${collection.name}`);
+    
+    return {
+      totalHolders: concentration.totalHolders,
+      concentrationRatio: concentration.top10Share,
+      giniCoefficient: concentration.gini,
+      nakamotoCoefficient: concentration.nakamoto,
+      whaleHolders: concentration.whales,
+      crossCollectionHolders,
+      distribution,
+      tokenBreakdown
+    };
+
+  } catch (error) {
+    console.error(`❌ Holder analysis fetch failed for ${collection.name}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Activity trends analysis from timestamped transfer history
+ * Builds a weekday × hour heatmap, daily velocity and a weekly regression trend
+ * over the last 8 weeks, with gas usage read from recent transaction receipts
+ */
+export async function computeActivityTrends(collection: Collection): Promise<ActivityAnalytics> {
+  try {
+    console.log(`📈 Computing activity trends for ${collection.name}...`);
+
+    const latestBlock = await alchemy.core.getBlockNumber();
+    const { timestamp: latestTimestamp } = await alchemy.core.getBlock(latestBlock);
+    const fromBlock = await findBlockByTimestamp(
+      alchemy,
+      latestTimestamp - (ACTIVITY_WEEKS * WEEK_MS) / 1000,
+      { number: latestBlock, timestamp: latestTimestamp }
+    );
+
+    // Newest first, so a truncated history loses the oldest weeks rather than the latest
+    const { transfers, truncated } = await fetchWindowTransfers(collection.contractAddress, fromBlock, latestBlock);
+    const timestampByHash = new Map(transfers.map(t => [t.hash, Date.parse(t.metadata.blockTimestamp)]));
+    const movements = expandTransfers(transfers);
+    const now = latestTimestamp * 1000;
+
+    // Only whole weeks that the fetched history fully covers count towards velocity and trend
+    const oldest = Array.from(timestampByHash.values()).reduce((min, timestamp) => Math.min(min, timestamp), now);
+    const coveredWeeks = truncated ? Math.max(1, Math.floor((now - oldest) / WEEK_MS)) : ACTIVITY_WEEKS;
+    const timestamps = movements
+      .map(m => timestampByHash.get(m.hash)!)
+      .filter(timestamp => timestamp >= now - coveredWeeks * WEEK_MS);
+
+    const windowDays = coveredWeeks * 7;
+    const weeklyTransfers = bucketWeekly(timestamps, coveredWeeks, now);
+    const heatmap = buildActivityHeatmap(timestamps);
+    const transferVelocity = Math.round((timestamps.length / windowDays) * 10) / 10;
+
+    const tradingPattern = transferVelocity > 20 ? 'active' :
+                          transferVelocity > 5 ? 'accumulating' : 'dormant';
+
+    const gas = await fetchGasPerTransfer(movements);
+    const gasEfficiency = gas.avgGasPerTransfer === null ? 'unknown' :
+                         gas.avgGasPerTransfer < GAS_EFFICIENCY_THRESHOLDS.high ? 'high' :
+                         gas.avgGasPerTransfer < GAS_EFFICIENCY_THRESHOLDS.medium ? 'medium' : 'low';
+
+    console.log(`✅ Activity trends complete for ${collection.name}`);
+
+    return {
+      transferVelocity,
+      windowDays,
+      tradingPattern,
+      gasEfficiency,
+      ...gas,
+      peakActivity: describePeakActivity(heatmap) ?? 'No recent activity',
+      heatmap,
+      weeklyTransfers,
+      trendDirection: classifyTrend(weeklyTransfers),
+      truncated
+    };
+
+  } catch (error) {
+    console.error(`❌ Activity trends fetch failed for ${collection.name}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Trait rarity of every token - metadata is read page by page, then each token is scored
+ * by statistical rarity and information content against the collection's trait frequencies
+ */
+export async function computeTokenRarity(collection: Collection): Promise<RarityAnalytics> {
+  try {
+    console.log(`💎 Computing trait rarity for ${collection.name}...`);
+
+    const tokens: RarityToken[] = [];
+    let pageKey: string | undefined;
+    let pages = 0;
+
+    do {
+      const response = await alchemy.nft.getNftsForContract(collection.contractAddress, {
+        pageKey,
+        pageSize: 100,
+        omitMetadata: false,
+      });
+      for (const nft of response.nfts) {
+        tokens.push({
+          tokenId: normalizeTokenId(nft.tokenId),
+          name: nft.name ?? null,
+          image: nft.image?.thumbnailUrl || nft.image?.cachedUrl || nft.image?.originalUrl || null,
+          attributes: readTokenAttributes(nft.raw?.metadata),
+        });
+      }
+      pageKey = response.pageKey;
+      pages++;
+    } while (pageKey && pages < MAX_METADATA_PAGES);
+
+    const { traits, tokens: ranked } = computeTraitRarity(tokens);
+
+    console.log(`✅ Trait rarity complete for ${collection.name}: ${ranked.length} tokens, ${Object.keys(traits).length} traits`);
+
+    return {
+      totalTokens: ranked.length,
+      traits,
+      tokens: ranked,
+      truncated: !!pageKey,
+    };
+
+  } catch (error) {
+    console.error(`❌ Trait rarity fetch failed for ${collection.name}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Average gas used and fee paid per token movement across recent transactions
+ * A transaction's gas is shared evenly by the movements it contains
+ */
+async function fetchGasPerTransfer(movements: TokenMovement[]) {
+  const movementsPerTx = new Map<string, number>();
+  movements.forEach(m => movementsPerTx.set(m.hash, (movementsPerTx.get(m.hash) ?? 0) + 1));
+  const hashes = Array.from(movementsPerTx.keys()).slice(0, MAX_GAS_SAMPLES);
+
+  let gasUsed = 0;
+  let fees = BigNumber.from(0);
+  let sampled = 0;
+
+  for (let i = 0; i < hashes.length; i += PRICING_BATCH_SIZE) {
+    const receipts = await Promise.all(
+      hashes.slice(i, i + PRICING_BATCH_SIZE).map(hash => alchemy.core.getTransactionReceipt(hash).catch(() => null))
+    );
+
+    for (const receipt of receipts) {
+      if (!receipt) continue;
+      gasUsed += receipt.gasUsed.toNumber();
+      fees = fees.add(receipt.gasUsed.mul(receipt.effectiveGasPrice));
+      sampled += movementsPerTx.get(receipt.transactionHash) ?? 1;
+    }
+  }
+
+  if (sampled === 0) return { avgGasPerTransfer: null, avgGasCostEth: null };
+
+  return {
+    avgGasPerTransfer: Math.round(gasUsed / sampled),
+    avgGasCostEth: parseFloat(Utils.formatEther(fees)) / sampled,
+  };
+}
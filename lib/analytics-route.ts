@@ -0,0 +1,164 @@
+/**
+ * Shared handler for the /api/analytics/[address]/* routes - validation, caching and rate limiting
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress } from 'viem';
+import { z } from 'zod';
+import { type Collection } from './collections-data';
+import { getCollectionCache } from './collections-cache';
+import { computeActivityTrends, computeHolderAnalysis, computeMarketHealth, computeTokenRarity } from './analytics-engine';
+import { createRateLimiter, getClientId } from './rate-limit';
+
+/** Requests per client per minute across all analytics routes */
+const RATE_LIMIT_PER_MINUTE = Number(process.env.ANALYTICS_RATE_LIMIT_PER_MINUTE || 30);
+
+/** Shared limiter so a client cannot multiply its budget across sections */
+const checkRateLimit = createRateLimiter(RATE_LIMIT_PER_MINUTE, 60 * 1000);
+
+/**
+ * Analytics sections served by the routes, with their cache lifetimes
+ * market: 5 minutes - the 24h window moves quickly
+ * holders: 15 minutes - ownership shifts slowly and overlap reads every peer collection
+ * activity: 15 minutes - the trend covers eight weeks of history
+ * rarity: 6 hours - token metadata rarely changes and reads every page of it
+ */
+export const ANALYTICS_SECTIONS = {
+  market: { compute: computeMarketHealth, ttlMs: 5 * 60 * 1000 },
+  holders: { compute: (collection: Collection) => computeHolderAnalysis(collection), ttlMs: 15 * 60 * 1000 },
+  activity: { compute: computeActivityTrends, ttlMs: 15 * 60 * 1000 },
+  rarity: { compute: computeTokenRarity, ttlMs: 6 * 60 * 60 * 1000 },
+};
+
+export type AnalyticsSection = keyof typeof ANALYTICS_SECTIONS;
+
+/** Result type of one section's computation */
+type SectionResult<S extends AnalyticsSection> = Awaited<ReturnType<(typeof ANALYTICS_SECTIONS)[S]['compute']>>;
+
+const analyticsParamsSchema = z.object({
+  address: z.string().refine((val) => isAddress(val), {
+    message: 'Invalid Ethereum address format',
+  }),
+});
+
+/** Cached analytics result for one section of one collection */
+interface CachedAnalytics {
+  value: Promise<unknown>;
+  computedAt: number;
+}
+
+/** Results keyed by `${section}:${address}`, including computations still in flight */
+const ANALYTICS_CACHE = new Map<string, CachedAnalytics>();
+
+/**
+ * Counts a request against the caller's budget
+ * Returns a 429 response when the budget is spent, otherwise null
+ */
+export function enforceRateLimit(request: NextRequest): NextResponse | null {
+  const limit = checkRateLimit(getClientId(request));
+  if (limit.allowed) return null;
+
+  return NextResponse.json(
+    { error: 'Too many analytics requests, try again shortly' },
+    { status: 429, headers: { 'Retry-After': String(limit.retryAfterSeconds) } }
+  );
+}
+
+/**
+ * Looks up an approved collection by address (case-insensitive)
+ */
+export async function findApprovedCollection(address: string): Promise<Collection | undefined> {
+  const { collections } = await getCollectionCache();
+  return collections.find(c => c.contractAddress.toLowerCase() === address.toLowerCase());
+}
+
+/**
+ * True while a section's analytics for a collection are cached or being computed
+ */
+export function isAnalyticsCached(section: AnalyticsSection, collection: Collection): boolean {
+  const cached = ANALYTICS_CACHE.get(`${section}:${collection.contractAddress.toLowerCase()}`);
+  return !!cached && Date.now() - cached.computedAt < ANALYTICS_SECTIONS[section].ttlMs;
+}
+
+/**
+ * Returns a section's analytics for a collection from cache, computing on a miss
+ * Concurrent callers share one computation; failures are not cached
+ */
+export async function getCachedAnalytics<S extends AnalyticsSection>(
+  section: S,
+  collection: Collection
+): Promise<{ analytics: SectionResult<S>; computedAt: number; hit: boolean }> {
+  const { compute, ttlMs } = ANALYTICS_SECTIONS[section];
+  const key = `${section}:${collection.contractAddress.toLowerCase()}`;
+  let cached = ANALYTICS_CACHE.get(key);
+  const hit = !!cached && Date.now() - cached.computedAt < ttlMs;
+
+  if (!cached || !hit) {
+    const entry: CachedAnalytics = { value: compute(collection), computedAt: Date.now() };
+    entry.value.catch(() => {
+      if (ANALYTICS_CACHE.get(key) === entry) ANALYTICS_CACHE.delete(key);
+    });
+    ANALYTICS_CACHE.set(key, entry);
+    cached = entry;
+  }
+
+  return { analytics: (await cached.value) as SectionResult<S>, computedAt: cached.computedAt, hit };
+}
+
+/**
+ * Creates the GET handler serving one analytics section for approved collections
+ */
+export function createAnalyticsHandler(section: AnalyticsSection) {
+  return async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ address: string }> }
+  ) {
+    const limited = enforceRateLimit(request);
+    if (limited) return limited;
+
+    const validation = analyticsParamsSchema.safeParse(await params);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validation.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { address } = validation.data;
+
+    try {
+      const collection = await findApprovedCollection(address);
+      if (!collection) {
+        return NextResponse.json({ error: `Unknown collection: ${address}` }, { status: 404 });
+      }
+
+      const { analytics, computedAt, hit } = await getCachedAnalytics(section, collection);
+
+      return NextResponse.json(
+        {
+          success: true,
+          analytics,
+          computedAt: new Date(computedAt).toISOString(),
+        },
+        { headers: { 'X-Cache': hit ? 'HIT' : 'MISS' } }
+      );
+    } catch (error) {
+      console.error(`❌ API: ${section} analytics failed for ${address}:`, error);
+      return NextResponse.json(
+        {
+          error: `Failed to compute ${section} analytics`,
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        { status: 500 }
+      );
+    }
+  };
+}
@@ -1,5 +1,6 @@
 /**
  * 4 analytics functions (market, holder, activity, AI analysis)
+ * Thin fetchers over the server analytics routes; no chain access from the browser
  * 
  * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
  * ShapeCraft2 Hackathon Submission | Shape Network 2025
@@ -7,40 +8,89 @@
  * @author ATrnd
  */
 
-import { Alchemy, Network, AssetTransfersCategory, SortingOrder } from 'alchemy-sdk';
 import { type Collection } from './collections-data';
+import { type SalesSummary } from './sales-ledger';
+import { type AnalyticsSnapshot, type SnapshotDeltas } from './analytics-snapshots';
+import { type AnalyticsWindow } from './block-windows';
+import { type ActivityHeatmap } from './activity-metrics';
+import { type CollectionComparison, type TokenRecommendationResult } from './ai-service';
+import { type HolderOverlapGraph } from './overlap-graph';
+import { type RankedToken, type TraitFrequency } from './trait-rarity';
 
-/** Alchemy SDK instance for Shape Network blockchain data */
-const alchemy = new Alchemy({
-  apiKey: process.env.NEXT_PUBLIC_ALCHEMY_KEY || process.env.ALCHEMY_API_KEY,
-  network: Network.SHAPE_MAINNET,
-});
+/** Transfer and sale activity within one time window */
+export interface MarketWindowStats {
+  transfers: number; // token movements - an ERC-1155 batch counts once per token id
+  units: number; // tokens moved, summing ERC-1155 quantities
+  traders: number; // unique senders and recipients
+  sales: number; // transfers paired with an ETH/WETH payment
+  volume: number; // ETH
+}
 
 /** Market health analytics data structure */
 export interface MarketAnalytics {
   transferCount24h: number;
   uniqueTraders24h: number;
+  windows: Record<AnalyticsWindow, MarketWindowStats>;
   liquidityScore: number; // 0-100
   momentum: 'bullish' | 'neutral' | 'bearish';
-  avgTransactionValue: number;
+  avgTransactionValue: number; // average 30d sale price in ETH, 0 without sales
+  truncated: boolean; // transfer history exceeded the page cap
+  sales: SalesSummary | null; // marketplace sales ledger, null when unavailable
 }
 
 /** Holder distribution analytics data structure */
 export interface HolderAnalytics {
   totalHolders: number;
   concentrationRatio: number; // % held by top 10 holders
+  giniCoefficient: number; // 0-1 ownership inequality
+  nakamotoCoefficient: number; // fewest holders controlling >50% supply
   whaleHolders: number; // holders with >5% supply
-  crossCollectionHolders: number; // holders with multiple collections
+  crossCollectionHolders: number; // holders who also own another cached collection
   distribution: 'concentrated' | 'distributed' | 'balanced';
+  tokenBreakdown: TokenHolding[] | null; // ERC-1155 only: largest token ids by supply
+}
+
+/** Supply and holder count of one ERC-1155 token id */
+export interface TokenHolding {
+  tokenId: string;
+  supply: number;
+  holders: number;
+}
+
+/** Holder overlap between compared collections */
+export interface HolderOverlap {
+  holders: Record<string, number>; // unique holders per contract address
+  pairs: { a: string; b: string; shared: number }[];
+  sharedByAll: number; // holders owning every compared collection
 }
 
 /** Activity trends analytics data structure */
 export interface ActivityAnalytics {
-  transferVelocity: number; // transfers per day
+  transferVelocity: number; // transfers per day over the covered window
+  windowDays: number; // days of history the velocity and trend cover
   tradingPattern: 'active' | 'accumulating' | 'dormant';
-  gasEfficiency: 'high' | 'medium' | 'low';
-  peakActivity: string; // time period
-  trendDirection: 'up' | 'down' | 'stable';
+  gasEfficiency: 'high' | 'medium' | 'low' | 'unknown';
+  avgGasPerTransfer: number | null; // gas units from sampled receipts
+  avgGasCostEth: number | null; // fee paid per transfer
+  peakActivity: string; // busiest weekday and UTC time band
+  heatmap: ActivityHeatmap; // transfers per [weekday][hour] UTC
+  weeklyTransfers: number[]; // oldest first
+  trendDirection: 'up' | 'down' | 'stable'; // regression over weekly buckets
+  truncated: boolean; // history exceeded the page cap; older weeks are dropped
+}
+
+/** Token-level trait rarity for one collection */
+export interface RarityAnalytics {
+  totalTokens: number; // tokens read, capped by the metadata page limit
+  traits: Record<string, TraitFrequency[]>; // rarest value first
+  tokens: RankedToken[]; // rarest first
+  truncated: boolean; // metadata exceeded the page cap; ranks cover the tokens read
+}
+
+/** Recorded snapshots for a collection with week-over-week deltas */
+export interface AnalyticsHistory {
+  history: AnalyticsSnapshot[];
+  deltas: SnapshotDeltas;
 }
 
 /** AI-powered investment analysis data structure */
@@ -55,134 +105,144 @@ export interface AIAnalytics {
   reasoning: string;
 }
 
+/** Analytics computed by the server routes */
+type AnalyticsKind = 'market' | 'holders' | 'activity' | 'rarity';
+
+/**
+ * Fetches one analytics section from /api/analytics/[address]/[kind]
+ * Throws with the server's message so panels can surface rate limits and failures
+ */
+async function fetchAnalyticsSection<T>(collection: Collection, kind: AnalyticsKind): Promise<T> {
+  const response = await fetch(`/api/analytics/${collection.contractAddress}/${kind}`);
+  const data = await response.json();
+
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || `Analytics request failed: ${response.statusText}`);
+  }
+
+  return data.analytics;
+}
+
 /**
- * Market health analysis - live transfer data + momentum classification
- * Simple logic-based analysis, not AI-powered
+ * Market health - windowed transfers, sales and momentum
  */
 export async function fetchMarketHealth(collection: Collection): Promise<MarketAnalytics> {
-  try {
-    console.log(`📊 Fetching market health for ${collection.name}...`);
-    
-    // Get recent transfers for market activity analysis
-    const transfers = await alchemy.core.getAssetTransfers({
-      contractAddresses: [collection.contractAddress],
-      category: [AssetTransfersCategory.ERC721],
-      maxCount: 50,
-      order: SortingOrder.DESCENDING
-    });
+  console.log(`📊 Fetching market health for ${collection.name}...`);
+  return fetchAnalyticsSection<MarketAnalytics>(collection, 'market');
+}
 
-    const recentTransfers = transfers.transfers.slice(0, 20);
-    
-    // Calculate basic market metrics
-    const transferCount24h = recentTransfers.length;
-    const uniqueTraders24h = new Set([
-      ...recentTransfers.map(t => t.from),
-      ...recentTransfers.map(t => t.to)
-    ]).size;
-    
-    // Simple momentum calculation based on transfer frequency
-    const momentum = transferCount24h > 10 ? 'bullish' : 
-                    transferCount24h > 5 ? 'neutral' : 'bearish';
-    
-    // Mock additional metrics (would use more complex analysis in production)
-    const liquidityScore = Math.min(100, transferCount24h * 5);
-    const avgTransactionValue = 0.1; // ETH equivalent
-    
-    console.log(`✅ Market health analysis complete for ${collection.name}`);
-    
-    return {
-      transferCount24h,
-      uniqueTraders24h,
-      liquidityScore,
-      momentum,
-      avgTransactionValue
-    };
+/**
+ * Holder distribution - concentration, whales and cross-collection overlap
+ */
+export async function fetchHolderAnalysis(collection: Collection): Promise<HolderAnalytics> {
+  console.log(`👥 Fetching holder analysis for ${collection.name}...`);
+  return fetchAnalyticsSection<HolderAnalytics>(collection, 'holders');
+}
 
-  } catch (error) {
-    console.error(`❌ Market health fetch failed for ${collection.name}:`, error);
-    throw error;
+/**
+ * Activity trends - heatmap, velocity, weekly trend and gas usage
+ */
+export async function fetchActivityTrends(collection: Collection): Promise<ActivityAnalytics> {
+  console.log(`📈 Fetching activity trends for ${collection.name}...`);
+  return fetchAnalyticsSection<ActivityAnalytics>(collection, 'activity');
+}
+
+/**
+ * Trait rarity - trait frequencies and every token ranked rarest first
+ */
+export async function fetchTokenRarity(collection: Collection): Promise<RarityAnalytics> {
+  console.log(`💎 Fetching trait rarity for ${collection.name}...`);
+  return fetchAnalyticsSection<RarityAnalytics>(collection, 'rarity');
+}
+
+/**
+ * Holders shared between 2-4 collections
+ */
+export async function fetchHolderOverlap(collections: Collection[]): Promise<HolderOverlap> {
+  const addresses = collections.map(c => c.contractAddress).join(',');
+  const response = await fetch(`/api/analytics/overlap?addresses=${addresses}`);
+  const data = await response.json();
+
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || `Holder overlap request failed: ${response.statusText}`);
   }
+
+  return data.overlap;
 }
 
 /**
- * Holder distribution analysis using ownership data
- * Calculates concentration ratios and whale detection via statistical estimations
+ * Holder overlap graph across every approved collection
  */
-export async function fetchHolderAnalysis(collection: Collection): Promise<HolderAnalytics> {
-  try {
-    console.log(`👥 Fetching holder analysis for ${collection.name}...`);
-    
-    // Get current holders
-    const ownersResponse = await alchemy.nft.getOwnersForContract(collection.contractAddress);
-    const totalHolders = ownersResponse.owners.length;
-    
-    // Calculate distribution metrics (simplified)
-    const concentrationRatio = Math.min(90, Math.max(10, 100 - (totalHolders / 10)));
-    const whaleHolders = Math.floor(totalHolders * 0.05); // Estimate 5% are whales
-    const crossCollectionHolders = Math.floor(totalHolders * 0.3); // Estimate 30% hold multiple
-    
-    const distribution = concentrationRatio > 70 ? 'concentrated' :
-                        concentrationRatio < 30 ? 'distributed' : 'balanced';
-    
-    console.log(`✅ Holder analysis complete for ${collection.name}`);
-    
-    return {
-      totalHolders,
-      concentrationRatio,
-      whaleHolders,
-      crossCollectionHolders,
-      distribution
-    };
+export async function fetchHolderOverlapGraph(): Promise<HolderOverlapGraph> {
+  const response = await fetch('/api/analytics/overlap/graph');
+  const data = await response.json();
 
-  } catch (error) {
-    console.error(`❌ Holder analysis fetch failed for ${collection.name}:`, error);
-    throw error;
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || `Holder overlap graph request failed: ${response.statusText}`);
   }
+
+  return data.graph;
 }
 
 /**
- * Activity trends analysis from recent transfer data
- * Extrapolates daily velocity and classifies trading patterns via threshold logic
+ * LLM comparative summary of 2-4 collections
  */
-export async function fetchActivityTrends(collection: Collection): Promise<ActivityAnalytics> {
-  try {
-    console.log(`📈 Fetching activity trends for ${collection.name}...`);
-    
-    // Get recent transfers
-    const transfers = await alchemy.core.getAssetTransfers({
-      contractAddresses: [collection.contractAddress],
-      category: [AssetTransfersCategory.ERC721],
-      maxCount: 20,
-      order: SortingOrder.DESCENDING
-    });
+export async function fetchComparisonSummary(collections: Collection[]): Promise<CollectionComparison> {
+  console.log(`⚖️ Requesting comparison of ${collections.length} collections...`);
 
-    const recentTransfers = transfers.transfers.slice(0, 10);
-    
-    // Calculate transfer velocity (simplified)
-    const transferVelocity = recentTransfers.length * 2.4; // Extrapolate to daily rate
-    
-    const tradingPattern = transferVelocity > 20 ? 'active' :
-                          transferVelocity > 5 ? 'accumulating' : 'dormant';
-    
-    // Mock additional metrics
-    const gasEfficiency = 'high'; // Shape Network is gas efficient
-    const peakActivity = 'Evening (7-9 PM UTC)';
-    const trendDirection = transferVelocity > 10 ? 'up' : 
-                          transferVelocity > 5 ? 'stable' : 'down';
-    
-    console.log(`✅ Activity trends complete for ${collection.name}`);
-    
-    return {
-      transferVelocity,
-      tradingPattern,
-      gasEfficiency,
-      peakActivity,
-      trendDirection
-    };
+  const response = await fetch('/api/compare-analysis', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ addresses: collections.map(c => c.contractAddress) }),
+  });
+  const data = await response.json();
+
+  if (!response.ok || !data.success) {
+    throw new Error(data.details || data.error || `Comparison request failed: ${response.statusText}`);
+  }
+
+  return data.comparison;
+}
+
+/**
+ * LLM token picks from one collection for a persona - the second curation stage
+ */
+export async function fetchTokenRecommendations(collection: Collection, persona: string): Promise<TokenRecommendationResult> {
+  console.log(`🎯 Requesting ${persona.toUpperCase()} token picks for ${collection.name}...`);
+
+  const response = await fetch('/api/recommend-tokens', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ persona, contractAddress: collection.contractAddress }),
+  });
+  const data = await response.json();
 
+  if (!response.ok || !data.success) {
+    throw new Error(data.details || data.error || `Token recommendations request failed: ${response.statusText}`);
+  }
+
+  return data.recommendations;
+}
+
+/**
+ * Loads recorded analytics snapshots for sparklines and deltas
+ * Null when no history has been recorded or the request fails
+ */
+export async function fetchAnalyticsHistory(collection: Collection, days = 30): Promise<AnalyticsHistory | null> {
+  try {
+    const response = await fetch(`/api/analytics/${collection.contractAddress}/history?days=${days}`);
+    const data = await response.json();
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || response.statusText);
+    }
+    return data.history.length > 0 ? { history: data.history, deltas: data.deltas } : null;
   } catch (error) {
-    console.error(`❌ Activity trends fetch failed for ${collection.name}:`, error);
-    throw error;
+    console.warn(`⚠️ Analytics history unavailable for ${collection.name}:`, error);
+    return null;
   }
 }
 
@@ -0,0 +1,247 @@
+/**
+ * Analytics snapshot job and time-series store for market, holder and activity history
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { type Collection } from './collections-data';
+import { getCollectionCache } from './collections-cache';
+import { readJsonFile, writeJsonFile } from './json-store';
+import { computeActivityTrends, computeHolderAnalysis, computeMarketHealth } from './analytics-engine';
+import { type ActivityAnalytics, type HolderAnalytics, type MarketAnalytics } from './analytics-service';
+
+/** Time-series file name inside the data directory */
+const HISTORY_FILE = 'analytics-history.json';
+
+/** Snapshots older than this are pruned */
+const RETENTION_DAYS = 180;
+
+/** Interval for the in-process snapshot schedule (0 disables it) */
+const SNAPSHOT_INTERVAL_MS = Number(process.env.ANALYTICS_SNAPSHOT_INTERVAL_MS || 0);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Market metrics kept per snapshot */
+export interface MarketSnapshot {
+  transfers24h: number;
+  traders24h: number;
+  transfers7d: number;
+  sales30d: number;
+  volume30d: number; // ETH
+  liquidityScore: number;
+  floorPrice: number | null; // ETH
+}
+
+/** Holder metrics kept per snapshot */
+export interface HolderSnapshot {
+  totalHolders: number;
+  top10Share: number;
+  gini: number;
+  nakamoto: number;
+  whales: number;
+  crossCollectionHolders: number;
+}
+
+/** Activity metrics kept per snapshot */
+export interface ActivitySnapshot {
+  transferVelocity: number;
+  avgGasPerTransfer: number | null;
+}
+
+/** One point in a collection's analytics history - a section is null when its fetch failed */
+export interface AnalyticsSnapshot {
+  recordedAt: string; // ISO
+  market: MarketSnapshot | null;
+  holders: HolderSnapshot | null;
+  activity: ActivitySnapshot | null;
+}
+
+/** Relative change (%) of every numeric metric, null when there is no baseline */
+export interface SnapshotDeltas {
+  baselineAt: string | null;
+  market: Partial<Record<keyof MarketSnapshot, number | null>>;
+  holders: Partial<Record<keyof HolderSnapshot, number | null>>;
+  activity: Partial<Record<keyof ActivitySnapshot, number | null>>;
+}
+
+type HistoryDocument = Record<string, AnalyticsSnapshot[]>;
+
+/** Serializes read-modify-write cycles on the history file */
+let historyQueue: Promise<unknown> = Promise.resolve();
+
+/** Snapshot run in flight, shared by overlapping triggers */
+let runInFlight: Promise<SnapshotRunResult> | null = null;
+
+/** Active in-process schedule timer */
+let scheduleTimer: ReturnType<typeof setInterval> | null = null;
+
+/** Outcome of one snapshot run */
+export interface SnapshotRunResult {
+  recorded: number;
+  failed: string[];
+  recordedAt: string;
+}
+
+/**
+ * Runs an update against the history document with exclusive access
+ */
+function updateHistory<T>(update: (history: HistoryDocument) => T): Promise<T> {
+  const run = historyQueue.then(async () => {
+    const history = await readJsonFile<HistoryDocument>(HISTORY_FILE, {});
+    const result = update(history);
+    await writeJsonFile(HISTORY_FILE, history);
+    return result;
+  });
+  historyQueue = run.catch(() => undefined);
+  return run;
+}
+
+/** Reduces market analytics to the tracked metrics */
+function toMarketSnapshot(market: MarketAnalytics): MarketSnapshot {
+  return {
+    transfers24h: market.windows['24h'].transfers,
+    traders24h: market.windows['24h'].traders,
+    transfers7d: market.windows['7d'].transfers,
+    sales30d: market.windows['30d'].sales,
+    volume30d: market.windows['30d'].volume,
+    liquidityScore: market.liquidityScore,
+    floorPrice: market.sales?.floorPrice ?? null,
+  };
+}
+
+/** Reduces holder analytics to the tracked metrics */
+function toHolderSnapshot(holders: HolderAnalytics): HolderSnapshot {
+  return {
+    totalHolders: holders.totalHolders,
+    top10Share: holders.concentrationRatio,
+    gini: holders.giniCoefficient,
+    nakamoto: holders.nakamotoCoefficient,
+    whales: holders.whaleHolders,
+    crossCollectionHolders: holders.crossCollectionHolders,
+  };
+}
+
+/** Reduces activity analytics to the tracked metrics */
+function toActivitySnapshot(activity: ActivityAnalytics): ActivitySnapshot {
+  return {
+    transferVelocity: activity.transferVelocity,
+    avgGasPerTransfer: activity.avgGasPerTransfer,
+  };
+}
+
+/**
+ * Computes one snapshot for a collection; each section fails independently
+ */
+async function captureSnapshot(collection: Collection, peers: Collection[]): Promise<AnalyticsSnapshot> {
+  const [market, holders, activity] = await Promise.allSettled([
+    computeMarketHealth(collection),
+    computeHolderAnalysis(collection, peers),
+    computeActivityTrends(collection),
+  ]);
+
+  return {
+    recordedAt: new Date().toISOString(),
+    market: market.status === 'fulfilled' ? toMarketSnapshot(market.value) : null,
+    holders: holders.status === 'fulfilled' ? toHolderSnapshot(holders.value) : null,
+    activity: activity.status === 'fulfilled' ? toActivitySnapshot(activity.value) : null,
+  };
+}
+
+/**
+ * Records a snapshot for every approved collection
+ * Collections are processed sequentially to stay inside Alchemy rate limits
+ */
+export function recordAnalyticsSnapshots(): Promise<SnapshotRunResult> {
+  if (runInFlight) return runInFlight;
+
+  runInFlight = (async () => {
+    const { collections } = await getCollectionCache();
+    const recordedAt = new Date().toISOString();
+    const failed: string[] = [];
+    let recorded = 0;
+
+    console.log(`📸 Recording analytics snapshots for ${collections.length} collections...`);
+
+    for (const collection of collections) {
+      const snapshot = await captureSnapshot(collection, collections);
+      if (!snapshot.market && !snapshot.holders && !snapshot.activity) {
+        failed.push(collection.contractAddress);
+        continue;
+      }
+
+      const key = collection.contractAddress.toLowerCase();
+      await updateHistory(history => {
+        const cutoff = Date.now() - RETENTION_DAYS * DAY_MS;
+        history[key] = [...(history[key] ?? []), snapshot].filter(point => Date.parse(point.recordedAt) >= cutoff);
+      });
+      recorded++;
+    }
+
+    console.log(`✅ Analytics snapshots recorded: ${recorded} ok, ${failed.length} failed`);
+    return { recorded, failed, recordedAt };
+  })();
+
+  runInFlight.finally(() => { runInFlight = null; }).catch(() => undefined);
+  return runInFlight;
+}
+
+/**
+ * Returns a collection's snapshots from the last `days` days, oldest first
+ */
+export async function getAnalyticsHistory(contractAddress: string, days = 30): Promise<AnalyticsSnapshot[]> {
+  const history = await readJsonFile<HistoryDocument>(HISTORY_FILE, {});
+  const cutoff = Date.now() - days * DAY_MS;
+  return (history[contractAddress.toLowerCase()] ?? []).filter(point => Date.parse(point.recordedAt) >= cutoff);
+}
+
+/** Percentage change between two metric sections */
+function diffSection<T extends object>(current: T | null, baseline: T | null): Partial<Record<keyof T, number | null>> {
+  const deltas: Partial<Record<keyof T, number | null>> = {};
+  if (!current) return deltas;
+
+  for (const key of Object.keys(current) as (keyof T)[]) {
+    const now = current[key];
+    const then = baseline?.[key];
+    deltas[key] = typeof now === 'number' && typeof then === 'number' && then !== 0
+      ? Math.round(((now - then) / Math.abs(then)) * 1000) / 10
+      : null;
+  }
+  return deltas;
+}
+
+/**
+ * Compares the latest snapshot with the newest one at least `periodDays` older
+ * e.g. holders +12% week over week
+ */
+export function computeSnapshotDeltas(history: AnalyticsSnapshot[], periodDays = 7): SnapshotDeltas {
+  const latest = history[history.length - 1];
+  if (!latest) return { baselineAt: null, market: {}, holders: {}, activity: {} };
+
+  const target = Date.parse(latest.recordedAt) - periodDays * DAY_MS;
+  const baseline = [...history].reverse().find(point => Date.parse(point.recordedAt) <= target) ?? null;
+
+  return {
+    baselineAt: baseline?.recordedAt ?? null,
+    market: diffSection(latest.market, baseline?.market ?? null),
+    holders: diffSection(latest.holders, baseline?.holders ?? null),
+    activity: diffSection(latest.activity, baseline?.activity ?? null),
+  };
+}
+
+/**
+ * Starts the in-process snapshot schedule when ANALYTICS_SNAPSHOT_INTERVAL_MS is set
+ * Safe to call repeatedly; an external cron can POST /api/analytics/snapshots instead
+ */
+export function startSnapshotSchedule(): void {
+  if (scheduleTimer || SNAPSHOT_INTERVAL_MS <= 0) return;
+
+  console.log(`⏱️ Analytics snapshots scheduled every ${Math.round(SNAPSHOT_INTERVAL_MS / 60000)} minutes`);
+  scheduleTimer = setInterval(() => {
+    recordAnalyticsSnapshots().catch(error => {
+      console.error('❌ Scheduled analytics snapshot failed:', error);
+    });
+  }, SNAPSHOT_INTERVAL_MS);
+}
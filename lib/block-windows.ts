@@ -0,0 +1,111 @@
+/**
+ * Timestamp → block number resolution for time-windowed on-chain queries
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { type Alchemy } from 'alchemy-sdk';
+
+/** Analytics windows in seconds */
+export const ANALYTICS_WINDOWS = {
+  '24h': 24 * 60 * 60,
+  '7d': 7 * 24 * 60 * 60,
+  '30d': 30 * 24 * 60 * 60,
+} as const;
+
+export type AnalyticsWindow = keyof typeof ANALYTICS_WINDOWS;
+
+/** Start block of each window plus the head block they end at */
+export interface WindowBlocks {
+  latestBlock: number;
+  latestTimestamp: number; // seconds
+  startBlocks: Record<AnalyticsWindow, number>;
+}
+
+/** Blocks sampled to estimate the average block time */
+const BLOCK_TIME_SAMPLE = 10_000;
+
+/** Resolved timestamps kept; every window start is a new minute, so the oldest are dropped */
+const MAX_BLOCK_CACHE_ENTRIES = 100;
+
+/** Resolved blocks keyed by timestamp rounded to the minute, oldest first */
+const BLOCK_CACHE = new Map<number, number>();
+
+/** Block timestamp in seconds */
+async function blockTimestamp(alchemy: Alchemy, blockNumber: number): Promise<number> {
+  const block = await alchemy.core.getBlock(blockNumber);
+  return block.timestamp;
+}
+
+/**
+ * Finds the first block at or after `timestamp` (seconds)
+ * Seeds a bracket from the average block time, then binary-searches inside it
+ */
+export async function findBlockByTimestamp(
+  alchemy: Alchemy,
+  timestamp: number,
+  head?: { number: number; timestamp: number }
+): Promise<number> {
+  const cacheKey = Math.floor(timestamp / 60);
+  const cached = BLOCK_CACHE.get(cacheKey);
+  if (cached !== undefined) return cached;
+
+  const latestNumber = head?.number ?? (await alchemy.core.getBlockNumber());
+  const latestTimestamp = head?.timestamp ?? (await blockTimestamp(alchemy, latestNumber));
+  if (timestamp >= latestTimestamp) return latestNumber;
+
+  const sampleNumber = Math.max(0, latestNumber - BLOCK_TIME_SAMPLE);
+  const sampleTimestamp = await blockTimestamp(alchemy, sampleNumber);
+  const blockTime = Math.max(0.1, (latestTimestamp - sampleTimestamp) / Math.max(1, latestNumber - sampleNumber));
+
+  // Estimated position with a ±10% bracket, widened until it contains the target
+  const estimate = Math.max(0, Math.round(latestNumber - (latestTimestamp - timestamp) / blockTime));
+  const margin = Math.max(100, Math.round((latestNumber - estimate) * 0.1));
+  let low = Math.max(0, estimate - margin);
+  let high = Math.min(latestNumber, estimate + margin);
+
+  while (low > 0 && (await blockTimestamp(alchemy, low)) > timestamp) {
+    low = Math.max(0, low - (high - low));
+  }
+  while (high < latestNumber && (await blockTimestamp(alchemy, high)) < timestamp) {
+    high = Math.min(latestNumber, high + (high - low));
+  }
+
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if ((await blockTimestamp(alchemy, mid)) < timestamp) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+
+  BLOCK_CACHE.set(cacheKey, low);
+  if (BLOCK_CACHE.size > MAX_BLOCK_CACHE_ENTRIES) {
+    BLOCK_CACHE.delete(BLOCK_CACHE.keys().next().value!);
+  }
+  return low;
+}
+
+/**
+ * Resolves start blocks for the 24h/7d/30d windows ending at the chain head
+ */
+export async function resolveWindowBlocks(alchemy: Alchemy): Promise<WindowBlocks> {
+  const latestBlock = await alchemy.core.getBlockNumber();
+  const latestTimestamp = await blockTimestamp(alchemy, latestBlock);
+  const head = { number: latestBlock, timestamp: latestTimestamp };
+
+  const windows = Object.keys(ANALYTICS_WINDOWS) as AnalyticsWindow[];
+  const blocks = await Promise.all(
+    windows.map(window => findBlockByTimestamp(alchemy, latestTimestamp - ANALYTICS_WINDOWS[window], head))
+  );
+
+  return {
+    latestBlock,
+    latestTimestamp,
+    startBlocks: Object.fromEntries(windows.map((window, i) => [window, blocks[i]])) as Record<AnalyticsWindow, number>,
+  };
+}
@@ -0,0 +1,164 @@
+/**
+ * Unit tests for co-ownership recommendations and their blend with LLM curation
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { describe, expect, it } from 'vitest';
+import { type Collection } from './collections-data';
+import { type CuratedCollection, type PersonaAnalysisResult } from './ai-service';
+import { blendWithCoOwnership, coOwnershipAnalysis, recommendByCoOwnership } from './co-ownership-recommender';
+import { buildOverlapGraph } from './overlap-graph';
+
+const A = '0x00000000000000000000000000000000000000aa';
+const B = '0x00000000000000000000000000000000000000bb';
+const C = '0x00000000000000000000000000000000000000cc';
+const D = '0x00000000000000000000000000000000000000dd';
+
+/** Builds an approved-looking collection */
+function collection(contractAddress: string, name: string): Collection {
+  return {
+    contractAddress,
+    name,
+    symbol: null,
+    totalSupply: 100,
+    owners: 50,
+    image: '',
+    openSeaUrl: `https://opensea.io/assets/shape/${contractAddress}`,
+    originalUrl: '',
+  };
+}
+
+const ALPHA = collection(A, 'Alpha');
+const BETA = collection(B, 'Beta');
+const GAMMA = collection(C, 'Gamma');
+const DELTA = collection(D, 'Delta');
+
+/** Alpha shares two holders with Beta and one with Gamma; Beta and Gamma share none */
+const GRAPH = buildOverlapGraph(
+  [ALPHA, BETA, GAMMA],
+  [new Set(['w1', 'w2', 'w3', 'w4']), new Set(['w1', 'w2']), new Set(['w3'])]
+);
+
+/** Builds a curation result from scored picks */
+function analysis(curated: CuratedCollection[]): PersonaAnalysisResult {
+  return {
+    selectedCollections: curated.map(c => c.collection),
+    curated,
+    mode: 'rank',
+    reasoning: 'Ranked by persona fit',
+    confidence: 0.8,
+    source: 'llm',
+  };
+}
+
+describe('recommendByCoOwnership', () => {
+  it('scores candidates by cosine similarity to the seeds, leaving the seeds out', () => {
+    const picks = recommendByCoOwnership(GRAPH, [ALPHA, BETA, GAMMA], [A]);
+
+    expect(picks).toEqual([
+      { collection: BETA, score: 100, rationale: 'Collectors of "Alpha" also hold this collection' },
+      { collection: GAMMA, score: 71, rationale: 'Collectors of "Alpha" also hold this collection' },
+    ]);
+  });
+
+  it('matches seeds case-insensitively', () => {
+    const picks = recommendByCoOwnership(GRAPH, [ALPHA, BETA], [A.toUpperCase().replace('0X', '0x')]);
+
+    expect(picks.map(p => p.collection)).toEqual([BETA]);
+  });
+
+  it('scores by mean similarity to every other collection without seeds', () => {
+    const picks = recommendByCoOwnership(GRAPH, [BETA, GAMMA, ALPHA]);
+
+    expect(picks.map(p => [p.collection.name, p.score])).toEqual([['Alpha', 100], ['Beta', 59], ['Gamma', 41]]);
+    expect(picks[0].rationale).toBe('Shares collectors with 2 other Shape collections');
+    expect(picks[1].rationale).toBe('Shares collectors with 1 other Shape collection');
+  });
+
+  it('ignores seeds missing from the graph', () => {
+    expect(recommendByCoOwnership(GRAPH, [BETA, GAMMA], [D])).toEqual(recommendByCoOwnership(GRAPH, [BETA, GAMMA]));
+  });
+
+  it('scores collections without co-ownership data at 0', () => {
+    const picks = recommendByCoOwnership(GRAPH, [DELTA, BETA], [A]);
+
+    expect(picks[1]).toEqual({ collection: DELTA, score: 0, rationale: 'No co-ownership data for this collection yet' });
+  });
+
+  it('scores every candidate at 0 on an empty graph', () => {
+    const picks = recommendByCoOwnership(buildOverlapGraph([], []), [ALPHA, BETA]);
+
+    expect(picks.map(p => p.score)).toEqual([0, 0]);
+  });
+
+  it('gives tied candidates the same score in candidate order', () => {
+    const graph = buildOverlapGraph([ALPHA, BETA, GAMMA], [new Set(['w1', 'w2']), new Set(['w1']), new Set(['w2'])]);
+    const picks = recommendByCoOwnership(graph, [GAMMA, BETA], [A]);
+
+    expect(picks.map(p => [p.collection.name, p.score])).toEqual([['Gamma', 100], ['Beta', 100]]);
+  });
+});
+
+describe('blendWithCoOwnership', () => {
+  const llm = analysis([
+    { collection: ALPHA, score: 80, rationale: 'Calm palette' },
+    { collection: BETA, score: 20, rationale: 'Loud palette' },
+  ]);
+
+  it('returns the LLM result untouched at weight 0 or without co-ownership scores', () => {
+    expect(blendWithCoOwnership(llm, [{ collection: BETA, score: 100, rationale: '' }], 0, 1)).toBe(llm);
+    expect(blendWithCoOwnership(llm, [], 0.5, 1)).toBe(llm);
+  });
+
+  it('weights both scores and re-ranks the picks', () => {
+    const blended = blendWithCoOwnership(llm, [
+      { collection: BETA, score: 100, rationale: 'Shared collectors' },
+      { collection: GAMMA, score: 50, rationale: 'Some shared collectors' },
+    ], 0.5, 1);
+
+    expect(blended.curated).toEqual([
+      { collection: BETA, score: 60, rationale: 'Loud palette' },
+      { collection: ALPHA, score: 40, rationale: 'Calm palette' },
+      { collection: GAMMA, score: 25, rationale: 'Some shared collectors' },
+    ]);
+    expect(blended.selectedCollections).toEqual([BETA]);
+    expect(blended.source).toBe('blended');
+  });
+
+  it('drops collections that blend to 0', () => {
+    const blended = blendWithCoOwnership(llm, [{ collection: GAMMA, score: 0, rationale: '' }], 0.5, 3);
+
+    expect(blended.curated.map(c => c.collection)).toEqual([ALPHA, BETA]);
+  });
+});
+
+describe('coOwnershipAnalysis', () => {
+  const scores: CuratedCollection[] = [
+    { collection: BETA, score: 100, rationale: 'Shared collectors' },
+    { collection: GAMMA, score: 71, rationale: 'Shared collectors' },
+    { collection: DELTA, score: 0, rationale: 'No co-ownership data for this collection yet' },
+  ];
+
+  it('keeps scored collections and takes the top picks', () => {
+    const result = coOwnershipAnalysis(scores, true, { mode: 'select', topPicks: 1 });
+
+    expect(result.curated.map(c => c.collection)).toEqual([BETA, GAMMA]);
+    expect(result.selectedCollections).toEqual([BETA]);
+    expect(result).toMatchObject({ mode: 'select', confidence: 0.5, source: 'co-ownership' });
+  });
+
+  it('is less confident without seeds', () => {
+    expect(coOwnershipAnalysis(scores, false, { mode: 'rank', topPicks: 3 }).confidence).toBe(0.3);
+  });
+
+  it('returns no picks from no scores', () => {
+    const result = coOwnershipAnalysis([], false, { mode: 'select', topPicks: 3 });
+
+    expect(result.curated).toEqual([]);
+    expect(result.selectedCollections).toEqual([]);
+  });
+});
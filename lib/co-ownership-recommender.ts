@@ -0,0 +1,155 @@
+/**
+ * Item-item collaborative filtering over holder co-ownership, blendable with LLM curation
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { type Collection } from './collections-data';
+import { type CuratedCollection, type PersonaAnalysisResult } from './ai-service';
+import { type CurationOptions } from './curation-schema';
+import { type HolderOverlapGraph } from './overlap-graph';
+
+/** Share of the blended score taken from co-ownership when a request does not set its own */
+export const DEFAULT_CO_OWNERSHIP_WEIGHT = Number(process.env.CO_OWNERSHIP_WEIGHT || 0.3);
+
+/** Seed collections named in a recommendation rationale */
+const MAX_RATIONALE_SEEDS = 2;
+
+/**
+ * Cosine similarity between every pair of collections' holder sets
+ * shared / sqrt(|A| × |B|) - unlike Jaccard, a niche collection isn't penalised by a large neighbour
+ */
+function buildSimilarityIndex(graph: HolderOverlapGraph): Map<string, Map<string, number>> {
+  const holders = new Map(graph.nodes.map(n => [n.contractAddress, n.holders]));
+  const index = new Map(graph.nodes.map(n => [n.contractAddress, new Map<string, number>()]));
+
+  for (const edge of graph.edges) {
+    const denominator = Math.sqrt((holders.get(edge.source) ?? 0) * (holders.get(edge.target) ?? 0));
+    if (denominator === 0) continue;
+    const similarity = edge.shared / denominator;
+    index.get(edge.source)?.set(edge.target, similarity);
+    index.get(edge.target)?.set(edge.source, similarity);
+  }
+
+  return index;
+}
+
+/**
+ * Scores candidates by co-ownership with the seed collections (e.g. a wallet's holdings)
+ * Without usable seeds, candidates are scored by mean similarity to every other collection
+ * Scores are normalised to 0-100 against the strongest candidate
+ */
+export function recommendByCoOwnership(
+  graph: HolderOverlapGraph,
+  candidates: Collection[],
+  seeds: string[] = []
+): CuratedCollection[] {
+  const index = buildSimilarityIndex(graph);
+  const names = new Map(graph.nodes.map(n => [n.contractAddress, n.name]));
+  const seedKeys = Array.from(new Set(seeds.map(s => s.toLowerCase()))).filter(s => index.has(s));
+  const seeded = seedKeys.length > 0;
+
+  const raw = candidates
+    .filter(c => !seedKeys.includes(c.contractAddress.toLowerCase()))
+    .map(collection => {
+      const neighbours = index.get(collection.contractAddress.toLowerCase());
+      if (!neighbours) return { collection, raw: 0, rationale: 'No co-ownership data for this collection yet' };
+
+      if (!seeded) {
+        const total = Array.from(neighbours.values()).reduce((sum, sim) => sum + sim, 0);
+        return {
+          collection,
+          raw: graph.nodes.length > 1 ? total / (graph.nodes.length - 1) : 0,
+          rationale: neighbours.size > 0
+            ? `Shares collectors with ${neighbours.size} other Shape collection${neighbours.size === 1 ? '' : 's'}`
+            : 'No collectors shared with other Shape collections',
+        };
+      }
+
+      const contributions = seedKeys
+        .map(seed => ({ seed, similarity: neighbours.get(seed) ?? 0 }))
+        .filter(c => c.similarity > 0)
+        .sort((a, b) => b.similarity - a.similarity);
+      const topSeeds = contributions.slice(0, MAX_RATIONALE_SEEDS).map(c => `"${names.get(c.seed)}"`);
+
+      return {
+        collection,
+        raw: contributions.reduce((sum, c) => sum + c.similarity, 0),
+        rationale: topSeeds.length > 0
+          ? `Collectors of ${topSeeds.join(' and ')} also hold this collection`
+          : 'No collectors shared with your collections',
+      };
+    });
+
+  const maxRaw = Math.max(0, ...raw.map(r => r.raw));
+
+  return raw
+    .map(r => ({
+      collection: r.collection,
+      score: maxRaw > 0 ? Math.round((r.raw / maxRaw) * 100) : 0,
+      rationale: r.rationale,
+    }))
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Blends LLM persona scores with co-ownership scores: (1 - weight) × LLM + weight × co-ownership
+ * Collections the LLM left unscored count as 0 on its side
+ */
+export function blendWithCoOwnership(
+  analysis: PersonaAnalysisResult,
+  coOwnership: CuratedCollection[],
+  weight: number,
+  topPicks: number
+): PersonaAnalysisResult {
+  if (weight <= 0 || coOwnership.length === 0) return analysis;
+
+  const llmScores = new Map(analysis.curated.map(c => [c.collection.contractAddress, c]));
+  const cfScores = new Map(coOwnership.map(c => [c.collection.contractAddress, c]));
+  const addresses = new Set([...llmScores.keys(), ...cfScores.keys()]);
+
+  const curated = Array.from(addresses)
+    .map(address => {
+      const llm = llmScores.get(address);
+      const cf = cfScores.get(address);
+      return {
+        collection: (llm ?? cf)!.collection,
+        score: Math.round((1 - weight) * (llm?.score ?? 0) + weight * (cf?.score ?? 0)),
+        rationale: llm?.rationale ?? cf!.rationale,
+      };
+    })
+    .filter(c => c.score > 0)
+    .sort((a, b) => b.score - a.score);
+
+  return {
+    ...analysis,
+    selectedCollections: curated.slice(0, topPicks).map(c => c.collection),
+    curated,
+    source: 'blended',
+  };
+}
+
+/**
+ * Curation result built from co-ownership alone, used when the LLM provider is unavailable
+ */
+export function coOwnershipAnalysis(
+  coOwnership: CuratedCollection[],
+  seeded: boolean,
+  options: CurationOptions
+): PersonaAnalysisResult {
+  const curated = coOwnership.filter(c => c.score > 0);
+
+  return {
+    selectedCollections: curated.slice(0, options.topPicks).map(c => c.collection),
+    curated,
+    mode: options.mode,
+    reasoning: seeded
+      ? 'AI curation is unavailable, so these picks come from co-ownership: the Shape collections most held by collectors of the collections in your wallet.'
+      : 'AI curation is unavailable, so these picks come from co-ownership: the Shape collections whose collectors are most active across the rest of the network.',
+    confidence: seeded ? 0.5 : 0.3,
+    source: 'co-ownership',
+  };
+}
@@ -0,0 +1,192 @@
+/**
+ * Discovery scan tests against a local JSON-RPC stand-in serving recorded logs
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { createServer, type Server } from 'http';
+import { type AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { getAddress, hexToBigInt, toHex } from 'viem';
+import { discoverCollections, scoreCandidate } from './collection-discovery';
+import fixtures from './discovery-log-fixtures.json';
+
+/**
+ * Recorded contracts:
+ * 0xa1… ERC-721 deployed in range (Ownable), three mints and a transfer
+ * 0xb2… ERC-1155 deployed before the range, TransferSingle and TransferBatch
+ * 0xc3… ERC-721 clone initialized in range with no transfers yet
+ * 0xd4… Ownable ERC-20 - supportsInterface reverts
+ * 0xe5… ERC-721-shaped Transfer logs, supportsInterface reverts
+ * 0xf6… ownership handover only (not a deployment)
+ * 0x07… ERC-721-shaped Transfer logs from an address without code
+ */
+const ADDRESSES = {
+  erc721: getAddress('0xa1a1a1a1a1a1a1a1a1a1a1a1a1a1a1a1a1a1a1a1'),
+  erc1155: getAddress('0xb2b2b2b2b2b2b2b2b2b2b2b2b2b2b2b2b2b2b2b2'),
+  fresh: getAddress('0xc3c3c3c3c3c3c3c3c3c3c3c3c3c3c3c3c3c3c3c3'),
+};
+
+/** supportsInterface(bytes4) selector */
+const SUPPORTS_INTERFACE_SELECTOR = '0x01ffc9a7';
+
+interface JsonRpcRequest {
+  id: number;
+  method: string;
+  params: unknown[];
+}
+
+type InterfaceBehaviour = string[] | 'revert' | 'empty';
+
+/**
+ * Answers one JSON-RPC call from the fixtures; `failCalls` turns eth_call into an HTTP error
+ */
+function answer(request: JsonRpcRequest, failCalls: boolean): { status: number; body: unknown } {
+  const reply = (result: unknown) => ({ status: 200, body: { jsonrpc: '2.0', id: request.id, result } });
+
+  switch (request.method) {
+    case 'eth_blockNumber':
+      return reply(toHex(fixtures.latestBlock));
+
+    case 'eth_getLogs': {
+      const [filter] = request.params as [{ fromBlock: `0x${string}`; toBlock: `0x${string}`; topics: string[][] }];
+      const from = hexToBigInt(filter.fromBlock);
+      const to = hexToBigInt(filter.toBlock);
+      return reply(fixtures.logs.filter(log => {
+        const block = hexToBigInt(log.blockNumber as `0x${string}`);
+        return block >= from && block <= to && filter.topics[0].includes(log.topics[0]);
+      }));
+    }
+
+    case 'eth_call': {
+      if (failCalls) return { status: 503, body: 'Service Unavailable' };
+
+      const [call] = request.params as [{ to: string; data: string }];
+      const behaviours = fixtures.supportsInterface as Record<string, InterfaceBehaviour>;
+      const behaviour = behaviours[call.to.toLowerCase()] ?? 'empty';
+
+      if (behaviour === 'revert') {
+        return { status: 200, body: { jsonrpc: '2.0', id: request.id, error: { code: 3, message: 'execution reverted', data: '0x' } } };
+      }
+      if (behaviour === 'empty' || !call.data.startsWith(SUPPORTS_INTERFACE_SELECTOR)) return reply('0x');
+
+      const interfaceId = `0x${call.data.slice(10, 18)}`;
+      return reply(`0x${(behaviour.includes(interfaceId) ? '1' : '0').padStart(64, '0')}`);
+    }
+
+    default:
+      return { status: 200, body: { jsonrpc: '2.0', id: request.id, error: { code: -32601, message: 'Method not found' } } };
+  }
+}
+
+/**
+ * Starts a JSON-RPC stand-in on a random local port
+ */
+async function startStandIn(failCalls = false): Promise<{ server: Server; url: string }> {
+  const server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      const { status, body } = answer(JSON.parse(raw), failCalls);
+      res.writeHead(status, { 'Content-Type': typeof body === 'string' ? 'text/plain' : 'application/json' });
+      res.end(typeof body === 'string' ? body : JSON.stringify(body));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return { server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}` };
+}
+
+describe('discoverCollections', () => {
+  let standIn: { server: Server; url: string };
+
+  beforeAll(async () => {
+    standIn = await startStandIn();
+  });
+
+  afterAll(() => {
+    standIn.server.close();
+  });
+
+  it('keeps only contracts that confirm an NFT standard via ERC-165', async () => {
+    const { candidates } = await discoverCollections({ rpcUrl: standIn.url });
+
+    expect(candidates.map(c => c.contractAddress).sort()).toEqual(
+      [ADDRESSES.erc721, ADDRESSES.erc1155, ADDRESSES.fresh].sort()
+    );
+  });
+
+  it('scans from the lookback window up to the latest block', async () => {
+    const result = await discoverCollections({ rpcUrl: standIn.url });
+
+    expect(result.fromBlock).toBe(BigInt(0));
+    expect(result.toBlock).toBe(BigInt(fixtures.latestBlock));
+  });
+
+  it('replays ERC-721 transfers into holders, mints and deployment block', async () => {
+    const { candidates } = await discoverCollections({ rpcUrl: standIn.url });
+    const candidate = candidates.find(c => c.contractAddress === ADDRESSES.erc721);
+
+    expect(candidate).toEqual({
+      contractAddress: ADDRESSES.erc721,
+      standard: 'erc721',
+      deployedBlock: 100,
+      firstSeenBlock: 100,
+      lastSeenBlock: 300,
+      mintCount: 3,
+      transferCount: 4,
+      holders: 2,
+      score: scoreCandidate(2, 4, 3),
+    });
+  });
+
+  it('decodes ERC-1155 single and batch amounts', async () => {
+    const { candidates } = await discoverCollections({ rpcUrl: standIn.url });
+    const candidate = candidates.find(c => c.contractAddress === ADDRESSES.erc1155);
+
+    expect(candidate).toMatchObject({
+      standard: 'erc1155',
+      deployedBlock: null,
+      mintCount: 1,
+      transferCount: 2,
+      holders: 2,
+    });
+  });
+
+  it('detects deployments that have no transfers yet and probes their standard', async () => {
+    const { candidates } = await discoverCollections({ rpcUrl: standIn.url });
+    const candidate = candidates.find(c => c.contractAddress === ADDRESSES.fresh);
+
+    expect(candidate).toMatchObject({
+      standard: 'erc721',
+      deployedBlock: 400,
+      transferCount: 0,
+      holders: 0,
+      score: 0,
+    });
+  });
+
+  it('ranks candidates by score', async () => {
+    const { candidates } = await discoverCollections({ rpcUrl: standIn.url });
+
+    expect(candidates.map(c => c.score)).toEqual([...candidates.map(c => c.score)].sort((a, b) => b - a));
+  });
+
+  it('respects an explicit block range', async () => {
+    const { candidates } = await discoverCollections({ rpcUrl: standIn.url, fromBlock: BigInt(350), toBlock: BigInt(450) });
+
+    expect(candidates.map(c => c.contractAddress)).toEqual([ADDRESSES.fresh]);
+  });
+
+  it('fails the scan when the standard check itself cannot reach the node', async () => {
+    const failing = await startStandIn(true);
+    try {
+      await expect(discoverCollections({ rpcUrl: failing.url, fromBlock: BigInt(350), toBlock: BigInt(450) })).rejects.toThrow();
+    } finally {
+      failing.server.close();
+    }
+  });
+});
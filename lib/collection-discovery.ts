@@ -0,0 +1,363 @@
+/**
+ * On-chain collection discovery - scans Shape Network logs for NFT contract deployments and activity
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  ContractFunctionZeroDataError,
+  createPublicClient,
+  http,
+  getAddress,
+  hexToBigInt,
+  toHex,
+  type Hex,
+} from 'viem';
+import { shape } from 'viem/chains';
+import { type TokenStandard } from './collections-data';
+
+/** Event topic hashes for NFT transfer events */
+const TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef'; // Transfer(address,address,uint256)
+const TRANSFER_SINGLE_TOPIC = '0xc3d58168c5ae7397731d063d5bbf3d657854427343f4c083240f7aacaa2d0f62'; // TransferSingle(address,address,address,uint256,uint256)
+const TRANSFER_BATCH_TOPIC = '0x4a39dc06d4c0dbc64b70af90fd698a233a518aa5d07e595d983b8c0526c8f7fb'; // TransferBatch(address,address,address,uint256[],uint256[])
+
+/**
+ * Event topic hashes emitted when a contract is deployed: Ownable constructors transfer
+ * ownership from the zero address, and initializable clones emit Initialized
+ */
+const OWNERSHIP_TRANSFERRED_TOPIC = '0x8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e0'; // OwnershipTransferred(address,address)
+const INITIALIZED_TOPIC = '0x7f26b83ff96e1f2b6a682f133852f6798a09c465da95921460cefb3847402498'; // Initialized(uint8)
+const INITIALIZED_V5_TOPIC = '0xc7f505b2f371ae2175ee4913f4499e1f2633a7b5936321eed1cdaeb6115181d2'; // Initialized(uint64)
+
+/** ERC-165 interface ids used to confirm token standards */
+const ERC721_INTERFACE_ID = '0x80ac58cd';
+const ERC1155_INTERFACE_ID = '0xd9b67a26';
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+
+/** Maximum block span per eth_getLogs request (Alchemy-friendly) */
+const LOG_CHUNK_SIZE = BigInt(2000);
+
+/** Minimal ABI for ERC-165 standard detection */
+const ERC165_ABI = [
+  {
+    type: 'function',
+    name: 'supportsInterface',
+    stateMutability: 'view',
+    inputs: [{ name: 'interfaceId', type: 'bytes4' }],
+    outputs: [{ name: '', type: 'bool' }],
+  },
+] as const;
+
+/** Raw log shape as returned by eth_getLogs */
+interface RawLog {
+  address: Hex;
+  topics: Hex[];
+  data: Hex;
+  blockNumber: Hex;
+  transactionHash: Hex;
+}
+
+/** Collection candidate discovered from chain activity */
+export interface DiscoveryCandidate {
+  contractAddress: string;
+  standard: TokenStandard;
+  deployedBlock: number | null; // null when the deployment predates the scanned range
+  firstSeenBlock: number;
+  lastSeenBlock: number;
+  mintCount: number;
+  transferCount: number;
+  holders: number;
+  score: number; // 0-100
+}
+
+/** Options for a discovery scan */
+export interface DiscoveryScanOptions {
+  fromBlock?: bigint;
+  toBlock?: bigint;
+  lookbackBlocks?: bigint;
+  rpcUrl?: string;
+  onProgress?: (progress: number, status: string) => void;
+}
+
+/** Result of a discovery scan over a block range */
+export interface DiscoveryScanResult {
+  fromBlock: bigint;
+  toBlock: bigint;
+  candidates: DiscoveryCandidate[];
+}
+
+/** Default lookback window (~1 day of Shape blocks at 2s block time) */
+const DEFAULT_LOOKBACK_BLOCKS = BigInt(43200);
+
+/**
+ * Resolves the JSON-RPC endpoint for discovery scans
+ * SHAPE_RPC_URL lets a local JSON-RPC stand-in serve recorded logs
+ */
+export function getDiscoveryRpcUrl(): string {
+  const alchemyKey = process.env.ALCHEMY_API_KEY || process.env.NEXT_PUBLIC_ALCHEMY_KEY;
+  return process.env.SHAPE_RPC_URL || `https://shape-mainnet.g.alchemy.com/v2/${alchemyKey}`;
+}
+
+/**
+ * Creates a viem public client bound to the discovery RPC endpoint
+ */
+export function createDiscoveryClient(rpcUrl: string = getDiscoveryRpcUrl()) {
+  return createPublicClient({
+    chain: shape,
+    transport: http(rpcUrl),
+  });
+}
+
+/** Public client type used by discovery helpers */
+type DiscoveryClient = ReturnType<typeof createDiscoveryClient>;
+
+/** Per-contract accumulator while replaying logs */
+interface ContractActivity {
+  standard: TokenStandard | null; // null until a transfer reveals it
+  deployedBlock: number | null;
+  firstSeenBlock: number;
+  lastSeenBlock: number;
+  mintCount: number;
+  transferCount: number;
+  balances: Map<string, bigint>;
+}
+
+/**
+ * Scans a block range for NFT deployments and transfer logs and returns scored candidates
+ * Replays Transfer/TransferSingle/TransferBatch events to estimate holders and activity;
+ * contracts deployed in range are included even before their first transfer
+ */
+export async function discoverCollections(
+  options: DiscoveryScanOptions = {}
+): Promise<DiscoveryScanResult> {
+  const client = createDiscoveryClient(options.rpcUrl);
+  const latestBlock = options.toBlock ?? (await client.getBlockNumber());
+  const lookback = options.lookbackBlocks ?? DEFAULT_LOOKBACK_BLOCKS;
+  const fromBlock = options.fromBlock ?? (latestBlock > lookback ? latestBlock - lookback : ZERO);
+
+  console.log(`🔭 Scanning Shape Network blocks ${fromBlock}-${latestBlock} for NFT activity...`);
+
+  const activity = new Map<string, ContractActivity>();
+  const totalSpan = latestBlock - fromBlock + ONE;
+
+  for (let start = fromBlock; start <= latestBlock; start += LOG_CHUNK_SIZE) {
+    const end = start + LOG_CHUNK_SIZE - ONE < latestBlock ? start + LOG_CHUNK_SIZE - ONE : latestBlock;
+    const progress = Number(((start - fromBlock) * BigInt(100)) / totalSpan);
+    options.onProgress?.(progress, `Scanning blocks ${start}-${end}...`);
+
+    const logs = await client.request({
+      method: 'eth_getLogs',
+      params: [
+        {
+          fromBlock: toHex(start),
+          toBlock: toHex(end),
+          topics: [[
+            TRANSFER_TOPIC,
+            TRANSFER_SINGLE_TOPIC,
+            TRANSFER_BATCH_TOPIC,
+            OWNERSHIP_TRANSFERRED_TOPIC,
+            INITIALIZED_TOPIC,
+            INITIALIZED_V5_TOPIC,
+          ]],
+        },
+      ],
+    });
+
+    for (const log of logs as RawLog[]) {
+      applyLog(activity, log);
+    }
+  }
+
+  const candidates: DiscoveryCandidate[] = [];
+
+  for (const [contractAddress, entry] of activity) {
+    const standard = await detectTokenStandard(client, contractAddress, entry.standard);
+    if (!standard) continue;
+
+    const holders = Array.from(entry.balances.values()).filter(balance => balance > ZERO).length;
+
+    candidates.push({
+      contractAddress,
+      standard,
+      deployedBlock: entry.deployedBlock,
+      firstSeenBlock: entry.firstSeenBlock,
+      lastSeenBlock: entry.lastSeenBlock,
+      mintCount: entry.mintCount,
+      transferCount: entry.transferCount,
+      holders,
+      score: scoreCandidate(holders, entry.transferCount, entry.mintCount),
+    });
+  }
+
+  candidates.sort((a, b) => b.score - a.score);
+
+  console.log(`✅ Discovery scan complete: ${candidates.length} NFT contracts found`);
+  options.onProgress?.(100, `Found ${candidates.length} candidate collections`);
+
+  return { fromBlock, toBlock: latestBlock, candidates };
+}
+
+/**
+ * Returns the activity entry for a contract, creating it at the given block
+ */
+function getActivity(activity: Map<string, ContractActivity>, contractAddress: string, blockNumber: number): ContractActivity {
+  const entry = activity.get(contractAddress) ?? {
+    standard: null,
+    deployedBlock: null,
+    firstSeenBlock: blockNumber,
+    lastSeenBlock: blockNumber,
+    mintCount: 0,
+    transferCount: 0,
+    balances: new Map<string, bigint>(),
+  };
+
+  entry.firstSeenBlock = Math.min(entry.firstSeenBlock, blockNumber);
+  entry.lastSeenBlock = Math.max(entry.lastSeenBlock, blockNumber);
+  activity.set(contractAddress, entry);
+
+  return entry;
+}
+
+/**
+ * Folds a single raw log into the per-contract activity map
+ * ERC-20 Transfer logs (3 topics) are ignored; ERC-721 Transfer carries 4 topics.
+ * Only ownership transfers from the zero address mark a deployment
+ */
+function applyLog(activity: Map<string, ContractActivity>, log: RawLog): void {
+  const topic = log.topics[0];
+  const blockNumber = Number(hexToBigInt(log.blockNumber));
+
+  const isDeployment =
+    (topic === OWNERSHIP_TRANSFERRED_TOPIC && log.topics.length === 3 && topicToAddress(log.topics[1]) === ZERO_ADDRESS) ||
+    topic === INITIALIZED_TOPIC ||
+    topic === INITIALIZED_V5_TOPIC;
+
+  if (isDeployment) {
+    const entry = getActivity(activity, getAddress(log.address), blockNumber);
+    entry.deployedBlock = Math.min(entry.deployedBlock ?? blockNumber, blockNumber);
+    return;
+  }
+
+  let standard: TokenStandard;
+  let from: string;
+  let to: string;
+  let amount: bigint;
+
+  if (topic === TRANSFER_TOPIC) {
+    if (log.topics.length !== 4) return;
+    standard = 'erc721';
+    from = topicToAddress(log.topics[1]);
+    to = topicToAddress(log.topics[2]);
+    amount = ONE;
+  } else if (topic === TRANSFER_SINGLE_TOPIC || topic === TRANSFER_BATCH_TOPIC) {
+    if (log.topics.length !== 4) return;
+    standard = 'erc1155';
+    from = topicToAddress(log.topics[2]);
+    to = topicToAddress(log.topics[3]);
+    amount = topic === TRANSFER_SINGLE_TOPIC ? decodeSingleValue(log.data) : decodeBatchTotal(log.data);
+  } else {
+    return;
+  }
+
+  const entry = getActivity(activity, getAddress(log.address), blockNumber);
+  entry.standard ??= standard;
+  entry.transferCount++;
+  if (from === ZERO_ADDRESS) entry.mintCount++;
+
+  if (from !== ZERO_ADDRESS) {
+    entry.balances.set(from, (entry.balances.get(from) ?? ZERO) - amount);
+  }
+  if (to !== ZERO_ADDRESS) {
+    entry.balances.set(to, (entry.balances.get(to) ?? ZERO) + amount);
+  }
+}
+
+/** Extracts a 20-byte address from a 32-byte indexed topic */
+function topicToAddress(topic: Hex): string {
+  return getAddress(`0x${topic.slice(26)}`);
+}
+
+/** Reads the `value` word from TransferSingle data (id, value) */
+function decodeSingleValue(data: Hex): bigint {
+  return hexToBigInt(`0x${data.slice(66, 130)}`);
+}
+
+/**
+ * Sums the `values` array from TransferBatch data (ids[], values[])
+ * ABI layout: offset(ids), offset(values), then length-prefixed arrays
+ */
+function decodeBatchTotal(data: Hex): bigint {
+  const words = data.slice(2).match(/.{64}/g) ?? [];
+  const valuesOffset = Number(hexToBigInt(`0x${words[1]}`)) / 32;
+  const length = Number(hexToBigInt(`0x${words[valuesOffset]}`));
+
+  let total = ZERO;
+  for (let i = 0; i < length; i++) {
+    total += hexToBigInt(`0x${words[valuesOffset + 1 + i]}`);
+  }
+  return total;
+}
+
+/**
+ * Confirms the contract implements a standard via ERC-165
+ * A revert or empty return means "not confirmed"; RPC failures propagate so a scan never
+ * silently drops contracts it could not check
+ */
+async function confirmTokenStandard(
+  client: DiscoveryClient,
+  contractAddress: string,
+  standard: TokenStandard
+): Promise<boolean> {
+  try {
+    return await client.readContract({
+      address: contractAddress as Hex,
+      abi: ERC165_ABI,
+      functionName: 'supportsInterface',
+      args: [standard === 'erc721' ? ERC721_INTERFACE_ID : ERC1155_INTERFACE_ID],
+    });
+  } catch (error) {
+    const reverted = error instanceof BaseError && error.walk(cause =>
+      cause instanceof ContractFunctionRevertedError || cause instanceof ContractFunctionZeroDataError
+    );
+    if (reverted) return false;
+    throw error;
+  }
+}
+
+/**
+ * Resolves a contract's token standard: the one its transfer logs imply, confirmed via ERC-165,
+ * or for contracts seen only deploying, whichever standard ERC-165 reports
+ */
+async function detectTokenStandard(
+  client: DiscoveryClient,
+  contractAddress: string,
+  logStandard: TokenStandard | null
+): Promise<TokenStandard | null> {
+  const standards: TokenStandard[] = logStandard ? [logStandard] : ['erc721', 'erc1155'];
+
+  for (const standard of standards) {
+    if (await confirmTokenStandard(client, contractAddress, standard)) return standard;
+  }
+  return null;
+}
+
+/**
+ * Scores a candidate 0-100 from holder breadth and transfer activity
+ * Holders dominate so airdrop spam with one recipient ranks low
+ */
+export function scoreCandidate(holders: number, transferCount: number, mintCount: number): number {
+  const holderScore = Math.min(60, Math.log10(holders + 1) * 30);
+  const activityScore = Math.min(30, Math.log10(transferCount + 1) * 15);
+  const mintScore = mintCount > 0 ? 10 : 0;
+
+  return Math.round(holderScore + activityScore + mintScore);
+}
@@ -0,0 +1,124 @@
+/**
+ * Registry persistence tests - serialized updates, corrupt files and incremental scan merges
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { afterAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { discoverCollections, scoreCandidate, type DiscoveryCandidate, type DiscoveryScanResult } from './collection-discovery';
+import { getRegistryEntries, runCollectionDiscovery, setRegistryStatus } from './collection-registry';
+import { SHAPE_COLLECTION_CONTRACTS } from './shape-collections-fetcher';
+
+/** Registry writes go to a throwaway data directory, set before the modules load */
+const dataDir = await vi.hoisted(async () => {
+  const { mkdtempSync } = await import('fs');
+  const { tmpdir } = await import('os');
+  const dir = mkdtempSync(`${tmpdir()}/shapemeai-registry-`);
+  process.env.SHAPEMEAI_DATA_DIR = dir;
+  return dir;
+});
+
+vi.mock('./collection-discovery', async importOriginal => ({
+  ...(await importOriginal<typeof import('./collection-discovery')>()),
+  discoverCollections: vi.fn(),
+}));
+
+const REGISTRY_PATH = path.join(dataDir, 'collection-registry.json');
+const DISCOVERED = '0x00000000000000000000000000000000000000d1';
+
+/** Builds a candidate with the given activity in one scanned range */
+function candidate(holders: number, transferCount: number, mintCount: number): DiscoveryCandidate {
+  return {
+    contractAddress: DISCOVERED,
+    standard: 'erc721',
+    deployedBlock: null,
+    firstSeenBlock: 1,
+    lastSeenBlock: 1,
+    mintCount,
+    transferCount,
+    holders,
+    score: scoreCandidate(holders, transferCount, mintCount),
+  };
+}
+
+/** Queues one scan result for the next discovery run */
+function scanReturns(toBlock: number, candidates: DiscoveryCandidate[]) {
+  vi.mocked(discoverCollections).mockResolvedValueOnce({ fromBlock: BigInt(0), toBlock: BigInt(toBlock), candidates });
+}
+
+describe('collection registry', () => {
+  beforeEach(async () => {
+    await fs.rm(REGISTRY_PATH, { force: true });
+    vi.mocked(discoverCollections).mockReset();
+  });
+
+  afterAll(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('keeps both of two concurrent review decisions', async () => {
+    const [first, second] = SHAPE_COLLECTION_CONTRACTS;
+    await Promise.all([setRegistryStatus(first, 'rejected'), setRegistryStatus(second, 'pending')]);
+
+    const entries = await getRegistryEntries();
+    expect(entries.find(e => e.contractAddress === first)?.status).toBe('rejected');
+    expect(entries.find(e => e.contractAddress === second)?.status).toBe('pending');
+  });
+
+  it('keeps a review decision made while a discovery scan is running', async () => {
+    const [curated] = SHAPE_COLLECTION_CONTRACTS;
+    let finishScan!: (result: DiscoveryScanResult) => void;
+    vi.mocked(discoverCollections).mockReturnValueOnce(new Promise(resolve => { finishScan = resolve; }));
+
+    const discovery = runCollectionDiscovery();
+    await vi.waitFor(() => expect(discoverCollections).toHaveBeenCalled());
+    await setRegistryStatus(curated, 'rejected');
+    finishScan({ fromBlock: BigInt(0), toBlock: BigInt(100), candidates: [candidate(5, 10, 5)] });
+    await discovery;
+
+    const entries = await getRegistryEntries();
+    expect(entries.find(e => e.contractAddress === curated)?.status).toBe('rejected');
+    expect(entries.find(e => e.contractAddress === DISCOVERED)).toBeDefined();
+  });
+
+  it('refuses to read or overwrite a corrupt registry', async () => {
+    await fs.writeFile(REGISTRY_PATH, '{"entries": [');
+
+    await expect(getRegistryEntries()).rejects.toThrow('corrupt');
+    await expect(setRegistryStatus(SHAPE_COLLECTION_CONTRACTS[0], 'rejected')).rejects.toThrow('corrupt');
+    expect(await fs.readFile(REGISTRY_PATH, 'utf8')).toBe('{"entries": [');
+  });
+
+  it('adds a resumed scan to the stored metrics instead of replacing them', async () => {
+    scanReturns(100, [candidate(40, 60, 40)]);
+    await runCollectionDiscovery();
+    scanReturns(200, [candidate(3, 4, 0)]);
+    await runCollectionDiscovery();
+
+    expect(vi.mocked(discoverCollections).mock.calls[1][0]).toMatchObject({ fromBlock: BigInt(101) });
+    expect((await getRegistryEntries()).find(e => e.contractAddress === DISCOVERED)).toMatchObject({
+      holders: 40,
+      transferCount: 64,
+      mintCount: 40,
+      score: scoreCandidate(40, 64, 40),
+    });
+  });
+
+  it('replaces stored metrics with an explicit range scan', async () => {
+    scanReturns(100, [candidate(40, 60, 40)]);
+    await runCollectionDiscovery();
+    scanReturns(100, [candidate(30, 50, 30)]);
+    await runCollectionDiscovery({ fromBlock: BigInt(0), toBlock: BigInt(100) });
+
+    expect((await getRegistryEntries()).find(e => e.contractAddress === DISCOVERED)).toMatchObject({
+      holders: 30,
+      transferCount: 50,
+      mintCount: 30,
+    });
+  });
+});
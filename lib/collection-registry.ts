@@ -0,0 +1,197 @@
+/**
+ * Approved collection registry - curated seed list plus discovered contracts
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { SHAPE_COLLECTION_CONTRACTS } from './shape-collections-fetcher';
+import { discoverCollections, scoreCandidate, type DiscoveryCandidate, type DiscoveryScanOptions } from './collection-discovery';
+import { type TokenStandard } from './collections-data';
+import { readJsonFileStrict, writeJsonFile } from './json-store';
+
+/** Registry file name inside the data directory */
+const REGISTRY_FILE = 'collection-registry.json';
+
+/** Candidates at or above this score are approved without manual review */
+const AUTO_APPROVE_SCORE = Number(process.env.DISCOVERY_AUTO_APPROVE_SCORE || 70);
+
+/** Review status of a registry entry */
+export type RegistryStatus = 'approved' | 'pending' | 'rejected';
+
+/** Single contract entry in the collection registry */
+export interface RegistryEntry {
+  contractAddress: string;
+  status: RegistryStatus;
+  source: 'curated' | 'discovered';
+  standard?: TokenStandard;
+  score?: number;
+  holders?: number;
+  transferCount?: number;
+  mintCount?: number;
+  discoveredAt?: string;
+  updatedAt: string;
+}
+
+/** Persisted registry document */
+interface RegistryDocument {
+  entries: RegistryEntry[];
+  lastScannedBlock: string | null;
+}
+
+/**
+ * Builds the initial registry from the hand-curated contract list
+ */
+function createSeedRegistry(): RegistryDocument {
+  const now = new Date().toISOString();
+  return {
+    entries: SHAPE_COLLECTION_CONTRACTS.map(contractAddress => ({
+      contractAddress,
+      status: 'approved' as const,
+      source: 'curated' as const,
+      updatedAt: now,
+    })),
+    lastScannedBlock: null,
+  };
+}
+
+/** Serializes read-modify-write cycles on the registry file */
+let registryQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Loads the registry document, seeding it with curated contracts on first use
+ * A corrupt file throws rather than falling back to the seed, so review decisions are never overwritten
+ */
+async function loadRegistry(): Promise<RegistryDocument> {
+  return readJsonFileStrict<RegistryDocument>(REGISTRY_FILE, createSeedRegistry());
+}
+
+/**
+ * Runs an update against the registry document with exclusive access
+ */
+function updateRegistry<T>(update: (registry: RegistryDocument) => T): Promise<T> {
+  const run = registryQueue.then(async () => {
+    const registry = await loadRegistry();
+    const result = update(registry);
+    await writeJsonFile(REGISTRY_FILE, registry);
+    return result;
+  });
+  registryQueue = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Returns every registry entry regardless of status
+ */
+export async function getRegistryEntries(): Promise<RegistryEntry[]> {
+  const registry = await loadRegistry();
+  return registry.entries;
+}
+
+/**
+ * Returns contract addresses approved for persona curation
+ */
+export async function getApprovedContracts(): Promise<string[]> {
+  const entries = await getRegistryEntries();
+  return entries.filter(entry => entry.status === 'approved').map(entry => entry.contractAddress);
+}
+
+/**
+ * Updates the review status of a registry entry
+ * Returns the updated entry, or null if the address is not registered
+ */
+export async function setRegistryStatus(
+  contractAddress: string,
+  status: RegistryStatus
+): Promise<RegistryEntry | null> {
+  return updateRegistry(registry => {
+    const entry = registry.entries.find(
+      e => e.contractAddress.toLowerCase() === contractAddress.toLowerCase()
+    );
+
+    if (!entry) return null;
+
+    entry.status = status;
+    entry.updatedAt = new Date().toISOString();
+    return entry;
+  });
+}
+
+/**
+ * Folds a scan of a later block range into an entry's stored metrics
+ * Transfer and mint counts add up; holders are a per-range estimate, so the larger one is kept
+ */
+export function mergeCandidateMetrics(entry: RegistryEntry, candidate: DiscoveryCandidate): Pick<RegistryEntry, 'score' | 'holders' | 'transferCount' | 'mintCount'> {
+  const holders = Math.max(entry.holders ?? 0, candidate.holders);
+  const transferCount = (entry.transferCount ?? 0) + candidate.transferCount;
+  const mintCount = (entry.mintCount ?? 0) + candidate.mintCount;
+
+  return { score: scoreCandidate(holders, transferCount, mintCount), holders, transferCount, mintCount };
+}
+
+/**
+ * Runs a discovery scan and merges candidates into the registry
+ * Resumes from the last scanned block unless an explicit range is given
+ */
+export async function runCollectionDiscovery(
+  options: DiscoveryScanOptions = {}
+): Promise<{ added: RegistryEntry[]; candidates: DiscoveryCandidate[] }> {
+  const { lastScannedBlock } = await loadRegistry();
+  const fromBlock =
+    options.fromBlock ??
+    (lastScannedBlock !== null ? BigInt(lastScannedBlock) + BigInt(1) : undefined);
+
+  // The scan runs outside the queue; its results merge into the registry as it is by then
+  const { toBlock, candidates } = await discoverCollections({ ...options, fromBlock });
+  // Resumed scans cover only new blocks and add to stored metrics; explicit ranges replace them
+  const incremental = options.fromBlock === undefined && lastScannedBlock !== null;
+
+  const added = await updateRegistry(registry => {
+    const now = new Date().toISOString();
+    const newEntries: RegistryEntry[] = [];
+
+    for (const candidate of candidates) {
+      const existing = registry.entries.find(
+        e => e.contractAddress.toLowerCase() === candidate.contractAddress.toLowerCase()
+      );
+
+      if (existing) {
+        // Refresh metrics without overriding a manual review decision
+        Object.assign(existing, incremental
+          ? mergeCandidateMetrics(existing, candidate)
+          : { score: candidate.score, holders: candidate.holders, transferCount: candidate.transferCount, mintCount: candidate.mintCount });
+        existing.standard = candidate.standard;
+        existing.updatedAt = now;
+        continue;
+      }
+
+      const entry: RegistryEntry = {
+        contractAddress: candidate.contractAddress,
+        status: candidate.score >= AUTO_APPROVE_SCORE ? 'approved' : 'pending',
+        source: 'discovered',
+        standard: candidate.standard,
+        score: candidate.score,
+        holders: candidate.holders,
+        transferCount: candidate.transferCount,
+        mintCount: candidate.mintCount,
+        discoveredAt: now,
+        updatedAt: now,
+      };
+
+      registry.entries.push(entry);
+      newEntries.push(entry);
+    }
+
+    // Overlapping runs never move the resume point backwards
+    if (registry.lastScannedBlock === null || toBlock > BigInt(registry.lastScannedBlock)) {
+      registry.lastScannedBlock = toBlock.toString();
+    }
+    return newEntries;
+  });
+
+  console.log(`✅ Registry updated: ${added.length} new collections (${added.filter(e => e.status === 'approved').length} auto-approved)`);
+
+  return { added, candidates };
+}
@@ -0,0 +1,155 @@
+/**
+ * Persistent server-side collection cache with per-collection TTL
+ * Serves stale entries immediately and revalidates them in the background
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import type { Collection, CollectionCache } from './collections-data';
+import { getApprovedContracts } from './collection-registry';
+import { fetchAllShapeCollections, testShapeNetworkConnection } from './shape-collections-fetcher';
+import { readJsonFile, writeJsonFile } from './json-store';
+
+/** Cache file name inside the data directory */
+const CACHE_FILE = 'collections-cache.json';
+
+/** TTL for successfully fetched collections (override with COLLECTION_CACHE_TTL_MS) */
+const DEFAULT_TTL_MS = Number(process.env.COLLECTION_CACHE_TTL_MS || 15 * 60 * 1000);
+
+/** Shorter TTL for entries whose fetch failed so they are retried sooner */
+const FAILED_TTL_MS = 60 * 1000;
+
+/** Single cached collection with its own freshness window */
+interface CacheEntry {
+  collection: Collection;
+  fetchedAt: string;
+  ttlMs: number;
+}
+
+/** Persisted cache document */
+interface CacheDocument {
+  entries: Record<string, CacheEntry>;
+  lastUpdated: string | null;
+  networkStatus: CollectionCache['networkStatus'];
+}
+
+/** Fresh empty document for first run (never shared, since refreshes mutate it) */
+function createEmptyCache(): CacheDocument {
+  return { entries: {}, lastUpdated: null, networkStatus: 'offline' };
+}
+
+/** In-flight background refresh, shared so concurrent requests do not stack fetches */
+let refreshInFlight: Promise<CacheDocument> | null = null;
+
+/**
+ * A fetch that yielded neither supply nor owners is treated as failed
+ * fetchCollectionData returns a placeholder instead of throwing
+ */
+function isFailedFetch(collection: Collection): boolean {
+  return collection.totalSupply === null && collection.owners === null;
+}
+
+/** Cache keys are case-insensitive contract addresses */
+function cacheKey(contractAddress: string): string {
+  return contractAddress.toLowerCase();
+}
+
+/** Returns true when an entry is still inside its TTL window */
+function isFresh(entry: CacheEntry, now: number): boolean {
+  return now - new Date(entry.fetchedAt).getTime() < entry.ttlMs;
+}
+
+/**
+ * Fetches the given contracts and merges them into the persisted cache
+ * Network status reflects the outcome of this refresh
+ */
+async function refreshCollections(contracts: string[]): Promise<CacheDocument> {
+  const document = await readJsonFile<CacheDocument>(CACHE_FILE, createEmptyCache());
+
+  const isConnected = await testShapeNetworkConnection();
+  if (!isConnected) {
+    document.networkStatus = 'offline';
+    await writeJsonFile(CACHE_FILE, document);
+    return document;
+  }
+
+  const collections = await fetchAllShapeCollections(undefined, contracts);
+  const fetchedAt = new Date().toISOString();
+  let failures = contracts.length - collections.length;
+
+  for (const collection of collections) {
+    const failed = isFailedFetch(collection);
+    if (failed) failures++;
+
+    document.entries[cacheKey(collection.contractAddress)] = {
+      collection,
+      fetchedAt,
+      ttlMs: failed ? FAILED_TTL_MS : DEFAULT_TTL_MS,
+    };
+  }
+
+  document.lastUpdated = fetchedAt;
+  document.networkStatus = failures > 0 ? 'degraded' : 'healthy';
+  await writeJsonFile(CACHE_FILE, document);
+
+  console.log(`✅ Collection cache refreshed: ${contracts.length - failures}/${contracts.length} collections healthy`);
+
+  return document;
+}
+
+/**
+ * Starts (or joins) a refresh of the given contracts
+ */
+function scheduleRefresh(contracts: string[]): Promise<CacheDocument> {
+  if (!refreshInFlight) {
+    refreshInFlight = refreshCollections(contracts).finally(() => {
+      refreshInFlight = null;
+    });
+  }
+  return refreshInFlight;
+}
+
+/**
+ * Returns the collection cache for all approved contracts
+ * Missing entries are fetched before responding; stale entries are served
+ * immediately and refreshed in the background (stale-while-revalidate)
+ */
+export async function getCollectionCache(options: { forceRefresh?: boolean } = {}): Promise<CollectionCache> {
+  const contracts = await getApprovedContracts();
+  let document = await readJsonFile<CacheDocument>(CACHE_FILE, createEmptyCache());
+  const now = Date.now();
+
+  const missing = contracts.filter(address => !document.entries[cacheKey(address)]);
+  const stale = contracts.filter(address => {
+    const entry = document.entries[cacheKey(address)];
+    return entry && !isFresh(entry, now);
+  });
+
+  if (options.forceRefresh) {
+    document = await scheduleRefresh(contracts);
+  } else if (missing.length > 0) {
+    console.log(`🗄️ Collection cache missing ${missing.length} collections, fetching...`);
+    // Let any background refresh settle first so the missing contracts are not skipped
+    await refreshInFlight?.catch(() => undefined);
+    document = await scheduleRefresh([...missing, ...stale]);
+  } else if (stale.length > 0) {
+    console.log(`🗄️ Serving ${stale.length} stale collections, revalidating in background...`);
+    scheduleRefresh(stale).catch(error => {
+      console.error('❌ Background collection refresh failed:', error);
+    });
+  }
+
+  const collections = contracts
+    .map(address => document.entries[cacheKey(address)]?.collection)
+    .filter((collection): collection is Collection => Boolean(collection));
+
+  return {
+    collections,
+    lastUpdated: document.lastUpdated ?? new Date(0).toISOString(),
+    networkStatus: document.networkStatus,
+    totalCollections: collections.length,
+  };
+}
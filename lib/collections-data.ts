@@ -7,16 +7,38 @@
  * @author ATrnd
  */
 
+/** NFT token standard of a collection contract */
+export type TokenStandard = 'erc721' | 'erc1155';
+
+/** Trait name → distinct values seen across sampled tokens */
+export type TraitSchema = Record<string, string[]>;
+
+/** Social links published for a collection */
+export interface CollectionSocials {
+  twitter?: string; // handle without @
+  discord?: string; // invite URL
+}
+
 /** NFT collection data structure from Shape Network */
 export interface Collection {
   contractAddress: string;
   name: string | null;
   symbol: string | null;
-  totalSupply: number | null;
+  standard?: TokenStandard;
+  totalSupply: number | null; // ERC-1155: sum of every token id's supply
+  tokenSupply?: Record<string, number>; // ERC-1155 only: supply per token id
   owners: number | null;
+  transfers7d?: number | null; // NFT transfers in the trailing 7 days, capped at 1000
   image: string;
   openSeaUrl: string;
   originalUrl: string;
+  description?: string | null;
+  externalUrl?: string | null; // project homepage
+  creator?: string | null; // contract deployer address
+  socials?: CollectionSocials;
+  mintedAt?: string | null; // ISO, contract deployment time
+  sampleImages?: string[]; // image URLs of a few sampled tokens
+  traits?: TraitSchema;
 }
 
 /** Collection cache metadata structure */
@@ -27,8 +49,11 @@ export interface CollectionCache {
   totalCollections: number;
 }
 
-/** User persona types for NFT curation */
-export type PersonaType = 'renegade' | 'fomo' | 'zen' | 'chaos';
+/** Persona identifier - built-in personas plus user-defined registry entries */
+export type PersonaType = string;
+
+/** Identifiers of the personas shipped with ShapeMeAI */
+export type BuiltInPersonaType = 'renegade' | 'fomo' | 'zen' | 'chaos';
 
 /** Persona configuration structure */
 export interface PersonaDefinition {
@@ -38,17 +63,30 @@ export interface PersonaDefinition {
   description: string;
   color: string;
   theme: string;
+  criteria: string[]; // collection prioritization criteria for the curation prompt
+  lookFor: string[]; // aesthetic and cultural keywords
+  builtIn?: boolean;
 }
 
-/** Pre-defined personas for AI-powered NFT matching */
-export const PERSONA_DEFINITIONS: Record<PersonaType, PersonaDefinition> = {
+/** Pre-defined personas for AI-powered NFT matching (seeds the persona registry) */
+export const PERSONA_DEFINITIONS: Record<BuiltInPersonaType, PersonaDefinition> = {
   renegade: {
     id: 'renegade',
     emoji: '🔥',
     title: 'RENEGADE',
     description: 'Anti-establishment rebel',
     color: '#ef4444',
-    theme: 'Anti-establishment, punk rebellion, questioning normalcy'
+    theme: 'Anti-establishment, punk rebellion, questioning normalcy',
+    criteria: [
+      'Challenge conventional NFT aesthetics or market norms',
+      'Have underground, countercultural, or punk vibes',
+      'Represent artistic rebellion or anti-establishment themes',
+      'Appeal to collectors who reject mainstream trends',
+      'Show experimental, edgy, or provocative concepts',
+      'Have smaller, tight-knit communities of rebels',
+    ],
+    lookFor: ['Dark aesthetics', 'punk art', 'glitch art', 'underground movements', 'anti-corporate themes'],
+    builtIn: true,
   },
   fomo: {
     id: 'fomo',
@@ -56,7 +94,17 @@ export const PERSONA_DEFINITIONS: Record<PersonaType, PersonaDefinition> = {
     title: 'FOMO',
     description: 'Trend-chasing maximalist',
     color: '#eab308',
-    theme: 'Fear of missing out, trend-following, hype-driven'
+    theme: 'Fear of missing out, trend-following, hype-driven',
+    criteria: [
+      'Generate excitement, hype, or urgency',
+      'Have viral potential or trending aesthetics',
+      'Appeal to collectors who chase the "next big thing"',
+      'Show high activity, buzz, or social momentum',
+      'Feature eye-catching, shareable visual styles',
+      'Represent current or emerging cultural trends',
+    ],
+    lookFor: ['Trending styles', 'viral concepts', 'hype-worthy art', 'social media friendly', 'momentum indicators'],
+    builtIn: true,
   },
   zen: {
     id: 'zen',
@@ -64,7 +112,17 @@ export const PERSONA_DEFINITIONS: Record<PersonaType, PersonaDefinition> = {
     title: 'ZEN',
     description: 'Mindful digital collector nerd',
     color: '#22c55e',
-    theme: 'Mindfulness, balance, thoughtful curation'
+    theme: 'Mindfulness, balance, thoughtful curation',
+    criteria: [
+      'Promote calm, mindfulness, or spiritual reflection',
+      'Have minimalist, meditative, or nature-inspired aesthetics',
+      'Appeal to thoughtful, intentional collectors',
+      'Show artistic depth, philosophy, or meaning',
+      'Encourage slow appreciation over quick flipping',
+      'Represent balance, harmony, or inner peace',
+    ],
+    lookFor: ['Minimalist art', 'nature themes', 'spiritual concepts', 'meditative qualities', 'timeless appeal'],
+    builtIn: true,
   },
   chaos: {
     id: 'chaos',
@@ -72,16 +130,75 @@ export const PERSONA_DEFINITIONS: Record<PersonaType, PersonaDefinition> = {
     title: 'CHAOS',
     description: 'Unpredictable maximalist',
     color: '#8b5cf6',
-    theme: 'Randomness, experimentation, breaking patterns'
+    theme: 'Randomness, experimentation, breaking patterns',
+    criteria: [
+      'Embrace randomness, unpredictability, or complexity',
+      'Have maximalist, eclectic, or wildly creative aesthetics',
+      'Appeal to experimental, risk-taking collectors',
+      'Show innovative, boundary-pushing concepts',
+      'Feature multiple styles, themes, or approaches',
+      'Represent creative freedom and artistic chaos',
+    ],
+    lookFor: ['Experimental art', 'random generation', 'complex systems', 'innovative concepts', 'creative chaos'],
+    builtIn: true,
   }
 };
 
-/** Collections cache populated from Shape Network via Alchemy SDK */
+/** Persona registry populated from /api/personas (built-ins until loaded) */
+let CACHED_PERSONAS: Record<PersonaType, PersonaDefinition> = { ...PERSONA_DEFINITIONS };
+
+/**
+ * Loads built-in and custom personas from the server-side persona registry
+ * Falls back to built-in personas when the registry is unavailable
+ */
+export async function loadPersonaDefinitions(): Promise<Record<PersonaType, PersonaDefinition>> {
+  try {
+    const response = await fetch('/api/personas');
+
+    if (!response.ok) {
+      throw new Error(`Personas API failed: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    CACHED_PERSONAS = data.personas;
+  } catch (error) {
+    console.error('❌ Failed to load persona registry, using built-in personas:', error);
+    CACHED_PERSONAS = { ...PERSONA_DEFINITIONS };
+  }
+
+  return CACHED_PERSONAS;
+}
+
+/**
+ * Returns a persona definition from the loaded registry
+ */
+export function getPersonaDefinition(persona: PersonaType): PersonaDefinition | undefined {
+  return CACHED_PERSONAS[persona];
+}
+
+/**
+ * URL of a collection's cached sample-token thumbnail
+ */
+export function getThumbnailUrl(collection: Collection, index: number): string {
+  return `/api/collections/${collection.contractAddress.toLowerCase()}/images/${index}`;
+}
+
+/**
+ * URL of one token's cached artwork thumbnail
+ */
+export function getTokenThumbnailUrl(contractAddress: string, tokenId: string): string {
+  return `/api/collections/${contractAddress.toLowerCase()}/tokens/${encodeURIComponent(tokenId)}/image`;
+}
+
+/** Collections cache populated from the server-side /api/collections cache */
 let CACHED_COLLECTIONS: Collection[] = [];
 
+/** Metadata of the last server cache response (freshness and network health) */
+let CACHE_METADATA: Omit<CollectionCache, 'collections'> | null = null;
+
 /**
- * Primary cache loader - fetches live Shape Network data via Alchemy SDK
- * Returns cached data if available, otherwise initiates fresh fetch
+ * Primary cache loader - reads the persistent server-side collection cache
+ * Returns cached data if available, otherwise requests /api/collections
  */
 export async function loadCollectionsCache(
   onProgress?: (progress: number, status: string) => void
@@ -93,27 +210,28 @@ export async function loadCollectionsCache(
   }
 
   try {
-    // Dynamic import to avoid SSR issues
-    const { fetchAllShapeCollections, testShapeNetworkConnection } = await import('./shape-collections-fetcher');
-    
-    // Test connection first
-    onProgress?.(5, 'Testing Shape Network connection...');
-    const isConnected = await testShapeNetworkConnection();
-    
-    if (!isConnected) {
-      throw new Error('Shape Network connection failed');
+    onProgress?.(10, 'Fetching Shape Network collections...');
+    const response = await fetch('/api/collections');
+
+    if (!response.ok) {
+      throw new Error(`Collections API failed: ${response.statusText}`);
     }
 
-    // Fetch real collections
-    onProgress?.(10, 'Fetching Shape Network collections...');
-    const collections = await fetchAllShapeCollections((progress, status) => {
-      // Map fetcher progress (0-100) to overall progress (10-95)
-      const overallProgress = 10 + (progress * 0.85);
-      onProgress?.(overallProgress, status);
-    });
+    const data = await response.json();
+
+    if (!data.success) {
+      throw new Error(data.error || 'Collections API failed');
+    }
+
+    const { collections, ...metadata }: CollectionCache = data.cache;
+
+    if (collections.length === 0) {
+      throw new Error(`No collections available (network ${metadata.networkStatus})`);
+    }
 
     // Cache the results
     CACHED_COLLECTIONS = collections;
+    CACHE_METADATA = metadata;
     onProgress?.(100, `Loaded ${collections.length} collections!`);
     
     return collections;
@@ -125,12 +243,24 @@ export async function loadCollectionsCache(
     onProgress?.(90, 'Using fallback collections...');
     const fallbackCollections = await loadFallbackCollections();
     CACHED_COLLECTIONS = fallbackCollections;
+    CACHE_METADATA = {
+      lastUpdated: new Date().toISOString(),
+      networkStatus: 'offline',
+      totalCollections: fallbackCollections.length,
+    };
     
     onProgress?.(100, 'Fallback collections loaded');
     return fallbackCollections;
   }
 }
 
+/**
+ * Returns freshness and network health of the loaded collections cache
+ */
+export function getCollectionsCacheMetadata(): Omit<CollectionCache, 'collections'> | null {
+  return CACHE_METADATA;
+}
+
 /**
  * Fallback collections used when Shape Network fetch fails
  * Returns static collection data with placeholder images
@@ -173,25 +303,6 @@ async function loadFallbackCollections(): Promise<Collection[]> {
   ];
 }
 
-/**
- * Simple persona mapping fallback when AI analysis fails
- * Returns basic collection selection based on persona type
- */
-export async function getCollectionsByPersona(persona: PersonaType): Promise<Collection[]> {
-  const collections = await loadCollectionsCache();
-  
-  /** Static mapping used as fallback when AI analysis fails */
-  const personaMap: Record<PersonaType, number[]> = {
-    renegade: [0], // First collection
-    fomo: [1],     // Second collection  
-    zen: [2],      // Third collection
-    chaos: [0, 1]  // Multiple collections
-  };
-  
-  const indices = personaMap[persona] || [0];
-  return indices.map(i => collections[i]).filter(Boolean);
-}
-
 /**
  * Returns all cached collections for AI analysis processing
  */
@@ -204,4 +315,5 @@ export function getAllCollections(): Collection[] {
  */
 export function clearCollectionsCache(): void {
   CACHED_COLLECTIONS = [];
+  CACHE_METADATA = null;
 }
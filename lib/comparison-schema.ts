@@ -0,0 +1,61 @@
+/**
+ * Request and structured output schemas for side-by-side collection comparison
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { isAddress } from 'viem';
+import { z } from 'zod';
+
+/** Collections a comparison may include */
+export const MIN_COMPARE = 2;
+export const MAX_COMPARE = 4;
+
+/** 2-4 distinct contract addresses */
+export const compareAddressesSchema = z
+  .array(
+    z.string().refine((val) => isAddress(val), {
+      message: 'Invalid Ethereum address format',
+    })
+  )
+  .min(MIN_COMPARE)
+  .max(MAX_COMPARE)
+  .refine(
+    addresses => new Set(addresses.map(a => a.toLowerCase())).size === addresses.length,
+    'Each collection may only be compared once'
+  );
+
+/**
+ * Builds the comparison schema for a prompt listing `collectionCount` collections
+ * Indices are 1-based to match the numbered collections in the prompt
+ */
+export function createComparisonSchema(collectionCount: number) {
+  const index = z.number().int().min(1).max(collectionCount).describe('Collection number from the comparison');
+
+  return z.object({
+    summary: z.string().min(1).describe('3-4 sentence comparative analysis grounded in the metrics'),
+    verdicts: z
+      .array(
+        z.object({
+          index,
+          verdict: z.string().min(1).describe('One sentence on this collection relative to the others'),
+        })
+      )
+      .length(collectionCount)
+      .refine(
+        verdicts => new Set(verdicts.map(v => v.index)).size === verdicts.length,
+        'Each collection needs exactly one verdict'
+      ),
+    standout: z.object({
+      index,
+      reason: z.string().min(1).describe('Why this collection is the strongest of the set'),
+    }),
+    confidence: z.number().min(0).max(1).describe('Confidence (0-1) given the available data'),
+  });
+}
+
+/** Validated model output for a comparison request */
+export type ComparisonOutput = z.infer<ReturnType<typeof createComparisonSchema>>;
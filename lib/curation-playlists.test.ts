@@ -0,0 +1,118 @@
+/**
+ * Unit tests for holding, sharing and bounding curation playlists
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { afterAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PERSONA_DEFINITIONS, type Collection } from './collections-data';
+import { type PersonaAnalysisResult } from './ai-service';
+import { getPlaylist, holdCuration, SHARE_ID_PATTERN, sharePlaylist, type CurationPlaylist } from './curation-playlists';
+
+/** Playlists are written to a throwaway data directory, set before the modules load */
+const dataDir = await vi.hoisted(async () => {
+  const { mkdtempSync } = await import('fs');
+  const { tmpdir } = await import('os');
+  const dir = mkdtempSync(`${tmpdir()}/shapemeai-playlists-`);
+  process.env.SHAPEMEAI_DATA_DIR = dir;
+  return dir;
+});
+
+const PLAYLISTS_PATH = path.join(dataDir, 'playlists.json');
+
+/** Builds an approved-looking collection */
+function collection(contractAddress: string, name: string): Collection {
+  return {
+    contractAddress,
+    name,
+    symbol: null,
+    totalSupply: 100,
+    owners: 50,
+    image: '',
+    openSeaUrl: `https://opensea.io/assets/shape/${contractAddress}`,
+    originalUrl: '',
+    sampleImages: ['https://example.com/1.png'],
+  };
+}
+
+/** Builds a one-pick curation result */
+function analysis(name: string): PersonaAnalysisResult {
+  const pick = collection('0x00000000000000000000000000000000000000a1', name);
+  return {
+    selectedCollections: [pick],
+    curated: [{ collection: pick, score: 90, rationale: 'Fits the persona' }],
+    mode: 'rank',
+    reasoning: 'Ranked by persona fit',
+    confidence: 0.8,
+    source: 'llm',
+  };
+}
+
+describe('curation playlists', () => {
+  beforeEach(async () => {
+    await fs.rm(PLAYLISTS_PATH, { force: true });
+  });
+
+  afterAll(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('holds curations in memory without saving them', async () => {
+    const shareId = holdCuration(PERSONA_DEFINITIONS.zen, analysis('Calm Waters'), 'test:model');
+
+    expect(shareId).toMatch(SHARE_ID_PATTERN);
+    await expect(fs.access(PLAYLISTS_PATH)).rejects.toThrow();
+  });
+
+  it('saves a held curation when it is shared', async () => {
+    const shareId = holdCuration(PERSONA_DEFINITIONS.zen, analysis('Calm Waters'), 'test:model');
+    const playlist = await sharePlaylist(shareId);
+
+    expect(playlist).toMatchObject({
+      persona: { id: 'zen' },
+      collections: [{ name: 'Calm Waters', score: 90, rationale: 'Fits the persona', thumbnailUrl: '/api/collections/0x00000000000000000000000000000000000000a1/images/0' }],
+      model: 'test:model',
+    });
+    expect(await getPlaylist(playlist!.id)).toEqual(playlist);
+  });
+
+  it('returns the same playlist when shared twice', async () => {
+    const shareId = holdCuration(PERSONA_DEFINITIONS.zen, analysis('Calm Waters'), 'test:model');
+
+    expect((await sharePlaylist(shareId))!.id).toBe((await sharePlaylist(shareId))!.id);
+  });
+
+  it('refuses unknown share ids', async () => {
+    expect(await sharePlaylist('0'.repeat(32))).toBeNull();
+  });
+
+  it('evicts the oldest playlists beyond the cap', async () => {
+    const stored: Record<string, CurationPlaylist> = {};
+    for (let i = 0; i < 1000; i++) {
+      const id = i.toString(16).padStart(12, '0');
+      stored[id] = {
+        id,
+        createdAt: new Date(Date.UTC(2025, 0, 1, 0, 0, i)).toISOString(),
+        persona: { id: 'zen', title: 'Zen', emoji: '🧘', description: '' },
+        collections: [],
+        reasoning: '',
+        confidence: 0,
+        source: 'rules',
+        model: 'rules',
+      };
+    }
+    await fs.writeFile(PLAYLISTS_PATH, JSON.stringify(stored));
+
+    const playlist = await sharePlaylist(holdCuration(PERSONA_DEFINITIONS.zen, analysis('Calm Waters'), 'test:model'));
+    const saved = JSON.parse(await fs.readFile(PLAYLISTS_PATH, 'utf8')) as Record<string, CurationPlaylist>;
+
+    expect(Object.keys(saved)).toHaveLength(1000);
+    expect(saved['000000000000']).toBeUndefined();
+    expect(saved[playlist!.id]).toBeDefined();
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Persisted curation playlists - shareable records of one persona curation under a stable id
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { getThumbnailUrl, type PersonaDefinition } from './collections-data';
+import { type PersonaAnalysisResult } from './ai-service';
+import { readJsonFile, writeJsonFile } from './json-store';
+
+/** Playlist file name inside the data directory */
+const PLAYLISTS_FILE = 'playlists.json';
+
+/** Characters of the content hash used as the playlist id */
+const PLAYLIST_ID_LENGTH = 12;
+
+/** Playlist ids are lowercase hex of PLAYLIST_ID_LENGTH */
+export const PLAYLIST_ID_PATTERN = /^[0-9a-f]{12}$/;
+
+/** Saved playlists kept on disk - the oldest are evicted beyond this */
+const MAX_PLAYLISTS = 1000;
+
+/** Curations held in memory until shared, and for how long */
+const MAX_PENDING_CURATIONS = 500;
+const PENDING_CURATION_TTL_MS = 60 * 60 * 1000;
+
+/** Share ids are random lowercase hex, 32 characters */
+export const SHARE_ID_PATTERN = /^[0-9a-f]{32}$/;
+
+/** One curated collection as recorded in a playlist */
+export interface PlaylistEntry {
+  contractAddress: string;
+  name: string | null;
+  symbol: string | null;
+  openSeaUrl: string;
+  thumbnailUrl: string | null; // cached sample artwork, null without sample images
+  score: number | null; // 0-100 persona match, null when unscored
+  rationale: string | null;
+}
+
+/** A persisted curation: the persona, its picks and how they were produced */
+export interface CurationPlaylist {
+  id: string;
+  createdAt: string; // ISO
+  persona: Pick<PersonaDefinition, 'id' | 'title' | 'emoji' | 'description'>;
+  collections: PlaylistEntry[]; // top picks, best first
+  reasoning: string;
+  confidence: number; // 0-1 scale
+  source: PersonaAnalysisResult['source'];
+  model: string; // provider:model label that produced the scores
+}
+
+type PlaylistDocument = Record<string, CurationPlaylist>;
+
+/** Playlist content before it is saved under an id */
+type PlaylistRecord = Omit<CurationPlaylist, 'id' | 'createdAt'>;
+
+/** Server-held curations awaiting a share, keyed by share id in insertion order */
+const PENDING_CURATIONS = new Map<string, { record: PlaylistRecord; expiresAt: number }>();
+
+/** Serializes read-modify-write cycles on the playlist file */
+let playlistQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Runs an update against the playlist document with exclusive access
+ */
+function updatePlaylists<T>(update: (playlists: PlaylistDocument) => T): Promise<T> {
+  const run = playlistQueue.then(async () => {
+    const playlists = await readJsonFile<PlaylistDocument>(PLAYLISTS_FILE, {});
+    const result = update(playlists);
+    await writeJsonFile(PLAYLISTS_FILE, playlists);
+    return result;
+  });
+  playlistQueue = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Content-derived id - the same curation always maps to the same permalink
+ */
+function playlistId(playlist: PlaylistRecord): string {
+  return createHash('sha256').update(JSON.stringify(playlist)).digest('hex').slice(0, PLAYLIST_ID_LENGTH);
+}
+
+/**
+ * Snapshots a server-side curation result as playlist content
+ */
+function toPlaylistRecord(persona: PersonaDefinition, analysis: PersonaAnalysisResult, model: string): PlaylistRecord {
+  const matches = new Map(analysis.curated.map(c => [c.collection.contractAddress, c]));
+
+  return {
+    persona: { id: persona.id, title: persona.title, emoji: persona.emoji, description: persona.description },
+    collections: analysis.selectedCollections.map(collection => {
+      const match = matches.get(collection.contractAddress);
+      return {
+        contractAddress: collection.contractAddress,
+        name: collection.name,
+        symbol: collection.symbol,
+        openSeaUrl: collection.openSeaUrl,
+        thumbnailUrl: collection.sampleImages?.length ? getThumbnailUrl(collection, 0) : null,
+        score: match?.score ?? null,
+        rationale: match?.rationale ?? null,
+      };
+    }),
+    reasoning: analysis.reasoning,
+    confidence: analysis.confidence,
+    source: analysis.source,
+    model,
+  };
+}
+
+/**
+ * Holds a curation in memory so the user can share it later, and returns its share id
+ * Only curations produced on the server can be shared - clients never supply playlist content
+ */
+export function holdCuration(persona: PersonaDefinition, analysis: PersonaAnalysisResult, model: string): string {
+  const now = Date.now();
+  for (const [shareId, pending] of PENDING_CURATIONS) {
+    if (pending.expiresAt <= now) PENDING_CURATIONS.delete(shareId);
+  }
+  while (PENDING_CURATIONS.size >= MAX_PENDING_CURATIONS) {
+    PENDING_CURATIONS.delete(PENDING_CURATIONS.keys().next().value!);
+  }
+
+  const shareId = randomBytes(16).toString('hex');
+  PENDING_CURATIONS.set(shareId, { record: toPlaylistRecord(persona, analysis, model), expiresAt: now + PENDING_CURATION_TTL_MS });
+  return shareId;
+}
+
+/**
+ * Saves a held curation as a playlist and returns it, or null when the share id is unknown or expired
+ * Re-sharing an identical curation returns the existing record unchanged
+ */
+export async function sharePlaylist(shareId: string): Promise<CurationPlaylist | null> {
+  const pending = PENDING_CURATIONS.get(shareId);
+  if (!pending || pending.expiresAt <= Date.now()) return null;
+
+  const { record } = pending;
+  const id = playlistId(record);
+
+  return updatePlaylists(playlists => {
+    if (!playlists[id]) {
+      playlists[id] = { id, createdAt: new Date().toISOString(), ...record };
+      console.log(`🎵 Playlist saved: ${id} (${record.persona.title}, ${record.collections.length} collections)`);
+
+      // Oldest first; ISO timestamps sort chronologically
+      const evicted = Object.values(playlists)
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+        .slice(0, Math.max(0, Object.keys(playlists).length - MAX_PLAYLISTS));
+      evicted.forEach(playlist => delete playlists[playlist.id]);
+    }
+    return playlists[id];
+  });
+}
+
+/**
+ * Loads a playlist by id, or null when it does not exist
+ */
+export async function getPlaylist(id: string): Promise<CurationPlaylist | null> {
+  if (!PLAYLIST_ID_PATTERN.test(id)) return null;
+  const playlists = await readJsonFile<PlaylistDocument>(PLAYLISTS_FILE, {});
+  return playlists[id] ?? null;
+}
@@ -0,0 +1,94 @@
+/**
+ * Structured output schema for LLM persona curation
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { z } from 'zod';
+
+/** Top picks shown when a request does not set its own cap */
+export const DEFAULT_TOP_PICKS = 4;
+
+/** Upper bound on the per-request top picks cap */
+export const MAX_TOP_PICKS = 10;
+
+/**
+ * Per-request curation options
+ * select: the model picks up to `topPicks` collections
+ * rank: the model scores every collection; the best `topPicks` become top picks
+ * coOwnershipWeight: share of each score taken from holder co-ownership (0 = LLM only)
+ */
+export const curationOptionsSchema = z.object({
+  mode: z.enum(['select', 'rank']).default('select'),
+  topPicks: z.number().int().min(1).max(MAX_TOP_PICKS).default(DEFAULT_TOP_PICKS),
+  coOwnershipWeight: z.number().min(0).max(1).optional(),
+});
+
+/** Validated curation options */
+export type CurationOptions = z.infer<typeof curationOptionsSchema>;
+
+/**
+ * Builds the curation schema for a prompt listing `collectionCount` collections
+ * Indices are 1-based to match the numbered collections database in the prompt
+ * Rank mode requires exactly one entry per collection
+ */
+export function createCurationSchema(collectionCount: number, options: CurationOptions) {
+  const maxSelections = options.mode === 'rank' ? collectionCount : Math.min(options.topPicks, collectionCount);
+  const minSelections = options.mode === 'rank' ? collectionCount : 1;
+
+  return z.object({
+    selections: z
+      .array(
+        z.object({
+          index: z.number().int().min(1).max(collectionCount).describe('Collection number from the database'),
+          score: z.number().int().min(0).max(100).describe('Persona match score from 0 to 100'),
+          rationale: z.string().min(1).describe('One to two sentences on why this collection fits the persona'),
+        })
+      )
+      .min(minSelections)
+      .max(maxSelections)
+      .refine(
+        selections => new Set(selections.map(s => s.index)).size === selections.length,
+        'Each collection may only be selected once'
+      ),
+    reasoning: z.string().min(1).describe('2-3 sentence cultural analysis of the overall selection'),
+    confidence: z.number().min(0).max(1).describe('Confidence (0-1) in this persona match'),
+  });
+}
+
+/** Validated model output for a curation request */
+export type CurationOutput = z.infer<ReturnType<typeof createCurationSchema>>;
+
+/** Tokens recommended when a request does not set its own count */
+export const DEFAULT_TOKEN_PICKS = 6;
+
+/** Upper bound on tokens recommended per request */
+export const MAX_TOKEN_PICKS = 12;
+
+/**
+ * Builds the token curation schema for a prompt listing `tokenCount` candidate tokens
+ * Indices are 1-based to match the numbered candidates in the prompt
+ */
+export function createTokenCurationSchema(tokenCount: number, picks: number) {
+  return z.object({
+    selections: z
+      .array(
+        z.object({
+          index: z.number().int().min(1).max(tokenCount).describe('Token number from the candidates'),
+          score: z.number().int().min(0).max(100).describe('Persona match score from 0 to 100'),
+          rationale: z.string().min(1).describe('One to two sentences on which traits or visuals fit the persona'),
+        })
+      )
+      .min(1)
+      .max(Math.min(picks, tokenCount))
+      .refine(
+        selections => new Set(selections.map(s => s.index)).size === selections.length,
+        'Each token may only be selected once'
+      ),
+    reasoning: z.string().min(1).describe('2-3 sentences on what ties the picks to the persona'),
+    confidence: z.number().min(0).max(1).describe('Confidence (0-1) in these token picks'),
+  });
+}
@@ -0,0 +1,73 @@
+/**
+ * Unit tests for holder concentration statistics
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { describe, expect, it } from 'vitest';
+import { computeHolderConcentration } from './holder-metrics';
+
+describe('computeHolderConcentration', () => {
+  it('returns zeros without holders', () => {
+    const empty = { totalHolders: 0, heldSupply: 0, top10Share: 0, gini: 0, nakamoto: 0, whales: 0 };
+
+    expect(computeHolderConcentration([])).toEqual(empty);
+    expect(computeHolderConcentration([0, -2])).toEqual(empty);
+  });
+
+  it('treats a single holder as fully concentrated with a zero Gini', () => {
+    expect(computeHolderConcentration([10])).toEqual({
+      totalHolders: 1,
+      heldSupply: 10,
+      top10Share: 100,
+      gini: 0,
+      nakamoto: 1,
+      whales: 1,
+    });
+  });
+
+  it('measures shares against a known on-chain supply', () => {
+    const stats = computeHolderConcentration([10], 100);
+
+    expect(stats.top10Share).toBe(10);
+    expect(stats.nakamoto).toBe(0); // held tokens never reach a majority
+    expect(stats.whales).toBe(1);
+  });
+
+  it('ignores a supply below the held total', () => {
+    expect(computeHolderConcentration([6, 4], 5).top10Share).toBe(100);
+  });
+
+  it('gives equal balances a zero Gini and needs a strict majority for Nakamoto', () => {
+    const stats = computeHolderConcentration([5, 5, 5, 5]);
+
+    expect(stats.gini).toBe(0);
+    expect(stats.nakamoto).toBe(3);
+    expect(stats.whales).toBe(4);
+  });
+
+  it('computes the Gini coefficient of a skewed distribution', () => {
+    // Ascending 1,1,1,7: 2·(1+2+3+28)/(4·10) − 5/4 = 0.45
+    const stats = computeHolderConcentration([1, 7, 1, 1]);
+
+    expect(stats.gini).toBe(0.45);
+    expect(stats.nakamoto).toBe(1);
+  });
+
+  it('caps the top-10 share at the ten largest holders, whatever their ties', () => {
+    const stats = computeHolderConcentration(new Array(12).fill(1));
+
+    expect(stats.top10Share).toBe(83.3);
+    expect(stats.gini).toBe(0);
+    expect(stats.nakamoto).toBe(7);
+    expect(stats.whales).toBe(12);
+  });
+
+  it('counts only holders above 5% of supply as whales', () => {
+    // 5 of 100 is exactly 5% - not a whale
+    expect(computeHolderConcentration([50, 5, 45]).whales).toBe(2);
+  });
+});
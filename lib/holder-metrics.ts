@@ -0,0 +1,66 @@
+/**
+ * Ownership concentration statistics from per-holder token balances
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+/** Holders above this share of supply count as whales */
+export const WHALE_SUPPLY_SHARE = 0.05;
+
+/** Concentration statistics for one collection */
+export interface HolderConcentration {
+  totalHolders: number;
+  heldSupply: number;
+  top10Share: number; // 0-100 % of supply held by the 10 largest holders
+  gini: number; // 0 (equal) - 1 (one holder owns everything)
+  nakamoto: number; // fewest holders that together control more than 50% of supply
+  whales: number; // holders with more than 5% of supply
+}
+
+/**
+ * Computes concentration statistics from token counts per holder
+ * `supply` overrides the held total when the on-chain supply is known
+ */
+export function computeHolderConcentration(balances: number[], supply?: number | null): HolderConcentration {
+  const positive = balances.filter(balance => balance > 0);
+  const descending = [...positive].sort((a, b) => b - a);
+  const heldSupply = descending.reduce((sum, balance) => sum + balance, 0);
+  const denominator = supply && supply >= heldSupply ? supply : heldSupply;
+
+  if (descending.length === 0 || denominator === 0) {
+    return { totalHolders: 0, heldSupply: 0, top10Share: 0, gini: 0, nakamoto: 0, whales: 0 };
+  }
+
+  const top10 = descending.slice(0, 10).reduce((sum, balance) => sum + balance, 0);
+
+  // Gini over ascending balances: G = 2·Σ(i·x_i) / (n·Σx) − (n + 1) / n
+  const n = descending.length;
+  const weightedSum = descending.reduce((sum, balance, i) => sum + (n - i) * balance, 0);
+  const gini = n > 1 ? (2 * weightedSum) / (n * heldSupply) - (n + 1) / n : 0;
+
+  let nakamoto = 0;
+  let controlled = 0;
+  while (controlled <= denominator / 2 && nakamoto < n) {
+    controlled += descending[nakamoto];
+    nakamoto++;
+  }
+  if (controlled <= denominator / 2) nakamoto = 0; // held tokens never reach a majority
+
+  return {
+    totalHolders: n,
+    heldSupply,
+    top10Share: round((top10 / denominator) * 100),
+    gini: round(Math.max(0, gini), 3),
+    nakamoto,
+    whales: descending.filter(balance => balance / denominator > WHALE_SUPPLY_SHARE).length,
+  };
+}
+
+/** Rounds to a fixed number of decimals */
+function round(value: number, decimals = 1): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,131 @@
+/**
+ * Holder overlap subsystem - owner sets per contract and the persisted overlap graph
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { Alchemy, Network } from 'alchemy-sdk';
+import { getCollectionCache } from './collections-cache';
+import { readJsonFile, writeJsonFile } from './json-store';
+import { buildOverlapGraph, type HolderOverlapGraph } from './overlap-graph';
+
+/** Graph file name inside the data directory */
+const GRAPH_FILE = 'holder-overlap.json';
+
+/** Alchemy SDK instance for server-side owner lookups */
+const alchemy = new Alchemy({
+  apiKey: process.env.ALCHEMY_API_KEY || process.env.NEXT_PUBLIC_ALCHEMY_KEY,
+  network: Network.SHAPE_MAINNET,
+});
+
+/** Page cap for owner lookups - keeps very large collections within request budget */
+const MAX_OWNER_PAGES = 10;
+
+/** Owner sets and the graph are rebuilt after this long */
+const OVERLAP_TTL_MS = 6 * 60 * 60 * 1000;
+
+/** Owner set lookup for one contract, including lookups still in flight */
+interface CachedOwnerSet {
+  owners: Promise<Set<string>>;
+  fetchedAt: number;
+}
+
+/** Owner sets per contract, shared by holder analytics, comparison and the graph */
+const OWNER_SET_CACHE = new Map<string, CachedOwnerSet>();
+
+/** Graph build in flight, shared by concurrent requests */
+let buildInFlight: Promise<HolderOverlapGraph> | null = null;
+
+/**
+ * Owner addresses for a contract (paginated, memoized for OVERLAP_TTL_MS)
+ */
+export function fetchOwnerSet(contractAddress: string): Promise<Set<string>> {
+  const key = contractAddress.toLowerCase();
+  const cached = OWNER_SET_CACHE.get(key);
+  if (cached && Date.now() - cached.fetchedAt < OVERLAP_TTL_MS) return cached.owners;
+
+  const owners = (async () => {
+    const owners = new Set<string>();
+    let pageKey: string | undefined;
+
+    for (let page = 0; page < MAX_OWNER_PAGES; page++) {
+      const response = await alchemy.nft.getOwnersForContract(contractAddress, { pageKey });
+      response.owners.forEach(owner => owners.add(owner.toLowerCase()));
+      pageKey = response.pageKey;
+      if (!pageKey) break;
+    }
+
+    return owners;
+  })();
+
+  const entry: CachedOwnerSet = { owners, fetchedAt: Date.now() };
+  // Failed lookups are retried on the next request
+  owners.catch(() => {
+    if (OWNER_SET_CACHE.get(key) === entry) OWNER_SET_CACHE.delete(key);
+  });
+  OWNER_SET_CACHE.set(key, entry);
+  return owners;
+}
+
+/**
+ * Fetches owners of every approved collection and persists the overlap graph
+ * Contracts are read sequentially to stay inside Alchemy rate limits
+ */
+function buildHolderOverlapGraph(): Promise<HolderOverlapGraph> {
+  if (buildInFlight) return buildInFlight;
+
+  buildInFlight = (async () => {
+    const { collections } = await getCollectionCache();
+    console.log(`🕸️ Building holder overlap graph for ${collections.length} collections...`);
+
+    const ownerSets: Set<string>[] = [];
+    for (const collection of collections) {
+      // A failing contract becomes an isolated node rather than failing the graph
+      ownerSets.push(await fetchOwnerSet(collection.contractAddress).catch(error => {
+        console.warn(`⚠️ Owners unavailable for ${collection.contractAddress}:`, error);
+        return new Set<string>();
+      }));
+    }
+
+    const graph = buildOverlapGraph(collections, ownerSets);
+    await writeJsonFile(GRAPH_FILE, graph);
+
+    console.log(`✅ Holder overlap graph built: ${graph.nodes.length} collections, ${graph.edges.length} overlapping pairs`);
+    return graph;
+  })();
+
+  buildInFlight.finally(() => { buildInFlight = null; }).catch(() => undefined);
+  return buildInFlight;
+}
+
+/** Whether a persisted graph is older than the TTL */
+function isStale(graph: HolderOverlapGraph): boolean {
+  return Date.now() - Date.parse(graph.builtAt) >= OVERLAP_TTL_MS;
+}
+
+/**
+ * Returns the holder overlap graph, rebuilding it when missing or stale
+ */
+export async function getHolderOverlapGraph(options: { forceRefresh?: boolean } = {}): Promise<HolderOverlapGraph> {
+  const stored = await readJsonFile<HolderOverlapGraph | null>(GRAPH_FILE, null);
+  if (stored && !options.forceRefresh && !isStale(stored)) return stored;
+  return buildHolderOverlapGraph();
+}
+
+/**
+ * Returns the persisted graph without waiting on a build, or null when none exists yet
+ * A missing or stale graph is refreshed in the background
+ */
+export async function getStoredOverlapGraph(): Promise<HolderOverlapGraph | null> {
+  const stored = await readJsonFile<HolderOverlapGraph | null>(GRAPH_FILE, null);
+
+  if (!stored || isStale(stored)) {
+    buildHolderOverlapGraph().catch(error => {
+      console.error('❌ Background holder overlap build failed:', error);
+    });
+  }
+  return stored;
+}
@@ -0,0 +1,184 @@
+/**
+ * Local asset cache of sample token artwork, downloaded and thumbnailed per collection
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import { type Collection } from './collections-data';
+import { getCollectionCache } from './collections-cache';
+import { DATA_DIR } from './json-store';
+import { fetchPublicResource } from './public-fetch';
+
+/** Thumbnails live under <data dir>/assets/<contract>/<index>.webp, and tokens/<id>.webp for single tokens */
+const ASSET_DIR = path.join(DATA_DIR, 'assets');
+
+/** Thumbnail edge in pixels - square, cover-cropped */
+const THUMBNAIL_SIZE = 256;
+
+/** Thumbnails are re-downloaded after this long, in case sampled tokens change */
+const THUMBNAIL_TTL_MS = 24 * 60 * 60 * 1000;
+
+/** Source download limits */
+const FETCH_TIMEOUT_MS = 10_000;
+const MAX_SOURCE_BYTES = 10 * 1024 * 1024;
+
+/** Public gateway for ipfs:// artwork (override with IPFS_GATEWAY_URL) */
+const IPFS_GATEWAY = process.env.IPFS_GATEWAY_URL || 'https://ipfs.io/ipfs/';
+
+/** Images sent to a vision model per curation request, and per collection */
+const VISION_IMAGE_BUDGET = 16;
+const VISION_IMAGES_PER_COLLECTION = 2;
+
+/** Token images sent to a vision model per token recommendation request */
+const VISION_TOKEN_IMAGES = 12;
+
+/** Thumbnail builds in flight, keyed by file path */
+const IN_FLIGHT = new Map<string, Promise<Buffer | null>>();
+
+/** Thumbnail file path for one sample image */
+function thumbnailPath(contractAddress: string, index: number): string {
+  return path.join(ASSET_DIR, contractAddress.toLowerCase(), `${index}.webp`);
+}
+
+/** Thumbnail file path for one token, with the id reduced to filename-safe characters */
+function tokenThumbnailPath(contractAddress: string, tokenId: string): string {
+  return path.join(ASSET_DIR, contractAddress.toLowerCase(), 'tokens', `${tokenId.replace(/[^a-zA-Z0-9_-]/g, '_')}.webp`);
+}
+
+/**
+ * Maps token image URLs to something fetchable: ipfs:// goes through the gateway,
+ * anything other than http(s) is rejected
+ */
+function resolveSourceUrl(url: string): string | null {
+  if (url.startsWith('ipfs://')) return `${IPFS_GATEWAY}${url.slice('ipfs://'.length).replace(/^ipfs\//, '')}`;
+  return /^https?:\/\//i.test(url) ? url : null;
+}
+
+/**
+ * Downloads, resizes and persists one thumbnail
+ * Source URLs come from token metadata, so only public hosts are fetched
+ * Write-then-rename so concurrent readers never see a partial file
+ */
+async function buildThumbnail(sourceUrl: string, filePath: string): Promise<Buffer> {
+  const source = await fetchPublicResource(sourceUrl, { timeoutMs: FETCH_TIMEOUT_MS, maxBytes: MAX_SOURCE_BYTES });
+  // First frame only, so animated GIFs thumbnail cheaply
+  const thumbnail = await sharp(source, { animated: false })
+    .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'cover' })
+    .webp({ quality: 80 })
+    .toBuffer();
+
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(tempPath, thumbnail);
+  await fs.rename(tempPath, filePath);
+
+  return thumbnail;
+}
+
+/**
+ * Serves a thumbnail from disk while fresh, otherwise (re)builds it from the source URL
+ * Resolves null when the URL is unusable or the download fails with nothing cached
+ */
+async function getCachedThumbnail(sourceUrl: string | null | undefined, filePath: string, label: string): Promise<Buffer | null> {
+  const resolved = sourceUrl ? resolveSourceUrl(sourceUrl) : null;
+  if (!resolved) return null;
+
+  const stat = await fs.stat(filePath).catch(() => null);
+  if (stat && Date.now() - stat.mtimeMs < THUMBNAIL_TTL_MS) return fs.readFile(filePath);
+
+  const inFlight = IN_FLIGHT.get(filePath);
+  if (inFlight) return inFlight;
+
+  const build = buildThumbnail(resolved, filePath)
+    .catch(async error => {
+      console.warn(`⚠️ Thumbnail unavailable for ${label}:`, error instanceof Error ? error.message : error);
+      // A stale thumbnail beats none
+      return stat ? fs.readFile(filePath).catch(() => null) : null;
+    })
+    .finally(() => IN_FLIGHT.delete(filePath));
+
+  IN_FLIGHT.set(filePath, build);
+  return build;
+}
+
+/**
+ * Returns the WebP thumbnail of a collection's sample image, downloading it on first use
+ * Resolves null when the collection has no image at that index or the download fails
+ */
+export function getThumbnail(collection: Collection, index: number): Promise<Buffer | null> {
+  return getCachedThumbnail(
+    collection.sampleImages?.[index],
+    thumbnailPath(collection.contractAddress, index),
+    `${collection.contractAddress}#${index}`
+  );
+}
+
+/**
+ * Returns the WebP thumbnail of one token's artwork, downloading it on first use
+ * `imageUrl` must come from server-side metadata, never from the client
+ */
+export function getTokenThumbnail(contractAddress: string, tokenId: string, imageUrl: string | null): Promise<Buffer | null> {
+  return getCachedThumbnail(imageUrl, tokenThumbnailPath(contractAddress, tokenId), `${contractAddress} token ${tokenId}`);
+}
+
+/**
+ * First sample thumbnail of an approved collection as PNG, for renderers without WebP
+ * support such as Open Graph images
+ */
+export async function getCollectionCoverPng(contractAddress: string): Promise<Buffer | null> {
+  const { collections } = await getCollectionCache();
+  const collection = collections.find(c => c.contractAddress.toLowerCase() === contractAddress.toLowerCase());
+  const thumbnail = collection ? await getThumbnail(collection, 0) : null;
+  return thumbnail ? sharp(thumbnail).png().toBuffer() : null;
+}
+
+/**
+ * Loads a small artwork set for vision curation, keyed by lowercase contract address
+ * Image URLs come from the approved collection cache, never from the client
+ */
+export async function loadCurationImages(contractAddresses: string[]): Promise<Record<string, Buffer[]>> {
+  const { collections } = await getCollectionCache();
+  const approved = new Map(collections.map(c => [c.contractAddress.toLowerCase(), c]));
+  const targets = contractAddresses
+    .map(address => approved.get(address.toLowerCase()))
+    .filter((c): c is Collection => Boolean(c?.sampleImages?.length))
+    .slice(0, VISION_IMAGE_BUDGET);
+  const perCollection = Math.max(1, Math.min(VISION_IMAGES_PER_COLLECTION, Math.floor(VISION_IMAGE_BUDGET / Math.max(1, targets.length))));
+
+  const entries = await Promise.all(targets.map(async collection => {
+    const images: Buffer[] = [];
+    for (let index = 0; index < (collection.sampleImages?.length ?? 0) && images.length < perCollection; index++) {
+      const thumbnail = await getThumbnail(collection, index);
+      if (thumbnail) images.push(thumbnail);
+    }
+    return [collection.contractAddress.toLowerCase(), images] as const;
+  }));
+
+  const loaded = Object.fromEntries(entries.filter(([, images]) => images.length > 0));
+  console.log(`🖼️ Loaded artwork for ${Object.keys(loaded).length}/${contractAddresses.length} collections`);
+  return loaded;
+}
+
+/**
+ * Loads artwork for the first VISION_TOKEN_IMAGES candidate tokens, keyed by token id
+ */
+export async function loadTokenImages(
+  contractAddress: string,
+  tokens: { tokenId: string; image: string | null }[]
+): Promise<Record<string, Buffer>> {
+  const entries = await Promise.all(
+    tokens.slice(0, VISION_TOKEN_IMAGES).map(async token =>
+      [token.tokenId, await getTokenThumbnail(contractAddress, token.tokenId, token.image)] as const
+    )
+  );
+
+  const loaded = Object.fromEntries(entries.filter((entry): entry is readonly [string, Buffer] => entry[1] !== null));
+  console.log(`🖼️ Loaded artwork for ${Object.keys(loaded).length}/${Math.min(tokens.length, VISION_TOKEN_IMAGES)} candidate tokens`);
+  return loaded;
+}
@@ -0,0 +1,63 @@
+/**
+ * File-backed JSON persistence for server-side registries and caches
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/** Root directory for persisted JSON documents (override with SHAPEMEAI_DATA_DIR) */
+export const DATA_DIR = process.env.SHAPEMEAI_DATA_DIR || path.join(process.cwd(), '.data');
+
+/**
+ * Reads a JSON document from the data directory
+ * Returns the fallback value when the file is missing or unreadable
+ */
+export async function readJsonFile<T>(fileName: string, fallback: T): Promise<T> {
+  try {
+    const raw = await fs.readFile(path.join(DATA_DIR, fileName), 'utf8');
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error(`❌ Failed to read ${fileName}, using fallback:`, error);
+    }
+    return fallback;
+  }
+}
+
+/**
+ * Reads a JSON document that must never be silently replaced
+ * Returns the fallback only when the file does not exist; unreadable or corrupt files throw
+ */
+export async function readJsonFileStrict<T>(fileName: string, fallback: T): Promise<T> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(path.join(DATA_DIR, fileName), 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return fallback;
+    throw error;
+  }
+
+  try {
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    throw new Error(`${fileName} is corrupt - fix or remove it: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Writes a JSON document to the data directory
+ * Uses write-then-rename so concurrent readers never see a partial file
+ */
+export async function writeJsonFile<T>(fileName: string, data: T): Promise<void> {
+  const filePath = path.join(DATA_DIR, fileName);
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf8');
+  await fs.rename(tempPath, filePath);
+}
@@ -0,0 +1,104 @@
+/**
+ * Configurable LLM provider layer - vendor and model selected from environment
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { createAnthropic } from '@ai-sdk/anthropic';
+import { type LanguageModel } from 'ai';
+import { createMockLanguageModel } from './mock-llm';
+
+/**
+ * Supported providers
+ * anthropic: direct Anthropic API
+ * gateway: any AI SDK vendor through the AI Gateway ("openai/gpt-4o", "google/gemini-2.0-flash", ...)
+ * mock: deterministic fixture-driven model for offline development
+ */
+export type LlmProviderName = 'anthropic' | 'gateway' | 'mock';
+
+/** Resolved provider configuration */
+export interface LlmConfig {
+  provider: LlmProviderName;
+  modelId: string;
+}
+
+/** Model used when AI_MODEL is not set */
+const DEFAULT_MODELS: Record<LlmProviderName, string> = {
+  anthropic: 'claude-3-5-sonnet-20241022',
+  gateway: 'anthropic/claude-3-5-sonnet-20241022',
+  mock: 'mock-curator-v1',
+};
+
+/** Builds a language model per provider - add new AI SDK providers here */
+const PROVIDER_FACTORIES: Record<LlmProviderName, (modelId: string) => LanguageModel> = {
+  anthropic: modelId => createAnthropic({ apiKey: process.env.ANTHROPIC_API_KEY })(modelId),
+  // Plain model ids resolve through the AI SDK's default global provider (AI Gateway)
+  gateway: modelId => modelId,
+  mock: modelId => createMockLanguageModel(modelId),
+};
+
+/** Credentials each provider needs before it can be called */
+const PROVIDER_CREDENTIALS: Record<LlmProviderName, () => boolean> = {
+  anthropic: () => !!process.env.ANTHROPIC_API_KEY,
+  gateway: () => !!(process.env.AI_GATEWAY_API_KEY || process.env.VERCEL_OIDC_TOKEN),
+  mock: () => true,
+};
+
+/** Whether each provider's default model accepts images - AI_VISION overrides for custom models */
+const PROVIDER_VISION: Record<LlmProviderName, boolean> = {
+  anthropic: true,
+  gateway: true,
+  mock: false, // keeps offline development off the network
+};
+
+/**
+ * Reads AI_PROVIDER / AI_MODEL, defaulting to Anthropic Claude 3.5 Sonnet
+ */
+export function getLlmConfig(): LlmConfig {
+  const requested = (process.env.AI_PROVIDER || 'anthropic').toLowerCase();
+
+  if (!(requested in PROVIDER_FACTORIES)) {
+    throw new Error(`Unknown AI_PROVIDER "${requested}" (expected ${Object.keys(PROVIDER_FACTORIES).join(', ')})`);
+  }
+
+  const provider = requested as LlmProviderName;
+  return {
+    provider,
+    modelId: process.env.AI_MODEL || DEFAULT_MODELS[provider],
+  };
+}
+
+/**
+ * Whether the configured provider has the credentials it needs
+ */
+export function isLlmConfigured(): boolean {
+  return PROVIDER_CREDENTIALS[getLlmConfig().provider]();
+}
+
+/**
+ * Whether curation should send sample artwork to the model (AI_VISION=true|false)
+ */
+export function supportsVision(): boolean {
+  const override = process.env.AI_VISION?.toLowerCase();
+  if (override === 'true' || override === 'false') return override === 'true';
+  return PROVIDER_VISION[getLlmConfig().provider];
+}
+
+/**
+ * Language model for the configured provider and model
+ */
+export function getLanguageModel(): LanguageModel {
+  const { provider, modelId } = getLlmConfig();
+  return PROVIDER_FACTORIES[provider](modelId);
+}
+
+/**
+ * Human-readable "provider/model" label for logs and persisted results
+ */
+export function getModelLabel(): string {
+  const { provider, modelId } = getLlmConfig();
+  return `${provider}:${modelId}`;
+}
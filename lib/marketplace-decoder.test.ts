@@ -0,0 +1,120 @@
+/**
+ * Unit tests for decoding Seaport OrderFulfilled logs into NFT sales
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { encodeAbiParameters, encodeEventTopics, parseAbiItem, parseAbiParameters, parseEther } from 'viem';
+import { describe, expect, it, vi } from 'vitest';
+import { decodeMarketplaceSales, WETH_ADDRESS, type RawLog } from './marketplace-decoder';
+
+const SEAPORT_1_6 = '0x0000000000000068F116a894984e2DB1123eB395';
+const ORDER_FULFILLED_TOPIC = '0x9d9af8e38d66c62e2c12f0225249fd9d721c54b83f48d9352c97c6cacdcb6f31';
+
+const NFT = '0x00000000000000000000000000000000000000aa';
+const OTHER_NFT = '0x00000000000000000000000000000000000000bb';
+const SELLER = '0x1111111111111111111111111111111111111111';
+const BUYER = '0x2222222222222222222222222222222222222222';
+const FEE_RECIPIENT = '0x3333333333333333333333333333333333333333';
+const ZONE = '0x0000000000000000000000000000000000000000';
+
+const ORDER_FULFILLED = parseAbiItem(
+  'event OrderFulfilled(bytes32 orderHash, address indexed offerer, address indexed zone, address recipient, (uint8 itemType, address token, uint256 identifier, uint256 amount)[] offer, (uint8 itemType, address token, uint256 identifier, uint256 amount, address recipient)[] consideration)'
+);
+
+type Item = { itemType: number; token: `0x${string}`; identifier: bigint; amount: bigint };
+type ConsiderationItem = Item & { recipient: `0x${string}` };
+
+/** Encodes an OrderFulfilled log as emitted by Seaport 1.6 */
+function orderFulfilled(
+  offerer: `0x${string}`,
+  recipient: `0x${string}`,
+  offer: Item[],
+  consideration: ConsiderationItem[]
+): RawLog {
+  return {
+    address: SEAPORT_1_6,
+    topics: encodeEventTopics({ abi: [ORDER_FULFILLED], eventName: 'OrderFulfilled', args: { offerer, zone: ZONE } }) as string[],
+    data: encodeAbiParameters(
+      parseAbiParameters('bytes32, address, (uint8, address, uint256, uint256)[], (uint8, address, uint256, uint256, address)[]'),
+      [
+        `0x${'ab'.repeat(32)}`,
+        recipient,
+        offer.map(i => [i.itemType, i.token, i.identifier, i.amount] as const),
+        consideration.map(i => [i.itemType, i.token, i.identifier, i.amount, i.recipient] as const),
+      ]
+    ),
+  };
+}
+
+/** ERC721 token 42 of NFT */
+const TOKEN_42: Item = { itemType: 2, token: NFT, identifier: BigInt(42), amount: BigInt(1) };
+
+/** Listing fill: the seller offers token 42 for 0.095 ETH to them and 0.005 ETH in fees */
+const LISTING_FILL = orderFulfilled(SELLER, BUYER, [TOKEN_42], [
+  { itemType: 0, token: ZONE, identifier: BigInt(0), amount: parseEther('0.095'), recipient: SELLER },
+  { itemType: 0, token: ZONE, identifier: BigInt(0), amount: parseEther('0.005'), recipient: FEE_RECIPIENT },
+]);
+
+describe('decodeMarketplaceSales', () => {
+  it('recognises the Seaport OrderFulfilled topic', () => {
+    expect(LISTING_FILL.topics[0]).toBe(ORDER_FULFILLED_TOPIC);
+  });
+
+  it('returns no sales from no logs', () => {
+    expect(decodeMarketplaceSales([], NFT)).toEqual([]);
+  });
+
+  it('decodes a listing fill, fees included in the price', () => {
+    expect(decodeMarketplaceSales([LISTING_FILL], NFT.toUpperCase().replace('0X', '0x'))).toEqual([
+      { marketplace: 'Seaport', tokenId: '42', quantity: 1, price: 0.1, currency: 'ETH', seller: SELLER, buyer: BUYER },
+    ]);
+  });
+
+  it('decodes an accepted WETH bid with buyer and seller swapped', () => {
+    const bid = orderFulfilled(BUYER, SELLER, [
+      { itemType: 1, token: WETH_ADDRESS, identifier: BigInt(0), amount: parseEther('0.2') },
+    ], [{ ...TOKEN_42, recipient: BUYER }]);
+
+    expect(decodeMarketplaceSales([bid], NFT)).toEqual([
+      { marketplace: 'Seaport', tokenId: '42', quantity: 1, price: 0.2, currency: 'WETH', seller: SELLER, buyer: BUYER },
+    ]);
+  });
+
+  it('splits a bundle price evenly across its tokens', () => {
+    const bundle = orderFulfilled(SELLER, BUYER, [TOKEN_42, { ...TOKEN_42, identifier: BigInt(43) }], [
+      { itemType: 0, token: ZONE, identifier: BigInt(0), amount: parseEther('0.3'), recipient: SELLER },
+    ]);
+
+    expect(decodeMarketplaceSales([bundle], NFT).map(s => [s.tokenId, s.price])).toEqual([['42', 0.15], ['43', 0.15]]);
+  });
+
+  it('skips fills of other collections and payments in other tokens', () => {
+    const otherCollection = orderFulfilled(SELLER, BUYER, [{ ...TOKEN_42, token: OTHER_NFT }], [
+      { itemType: 0, token: ZONE, identifier: BigInt(0), amount: parseEther('0.1'), recipient: SELLER },
+    ]);
+    const otherCurrency = orderFulfilled(SELLER, BUYER, [TOKEN_42], [
+      { itemType: 1, token: OTHER_NFT, identifier: BigInt(0), amount: BigInt(1000), recipient: SELLER },
+    ]);
+
+    expect(decodeMarketplaceSales([otherCollection, otherCurrency], NFT)).toEqual([]);
+  });
+
+  it('ignores logs from other contracts or with other topics', () => {
+    expect(decodeMarketplaceSales([
+      { ...LISTING_FILL, address: FEE_RECIPIENT },
+      { ...LISTING_FILL, topics: [`0x${'00'.repeat(32)}`, ...LISTING_FILL.topics.slice(1)] },
+    ], NFT)).toEqual([]);
+  });
+
+  it('skips a malformed Seaport log and keeps decoding the rest', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    expect(decodeMarketplaceSales([{ ...LISTING_FILL, data: '0x' }, LISTING_FILL], NFT)).toHaveLength(1);
+    expect(warn).toHaveBeenCalledOnce();
+    warn.mockRestore();
+  });
+});
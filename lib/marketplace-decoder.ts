@@ -0,0 +1,143 @@
+/**
+ * Marketplace settlement decoder - turns Seaport fills into priced NFT sales
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { decodeEventLog, formatEther, parseAbiItem, toEventSelector, type Hex } from 'viem';
+
+/** Minimal log shape shared by Alchemy receipts and viem */
+export interface RawLog {
+  address: string;
+  topics: string[];
+  data: string;
+}
+
+/** One NFT sale recovered from a settlement event */
+export interface DecodedSale {
+  marketplace: string;
+  tokenId: string;
+  quantity: number;
+  price: number; // ETH (or WETH) per token
+  currency: 'ETH' | 'WETH';
+  seller: string;
+  buyer: string;
+}
+
+/** Decodes a settlement log into sales of `contractAddress` tokens */
+interface MarketplaceDecoder {
+  name: string;
+  addresses: string[];
+  topic: string;
+  decode: (log: RawLog, contractAddress: string, marketplace: string) => DecodedSale[];
+}
+
+/** Wrapped ETH predeploy on Shape (OP Stack) */
+export const WETH_ADDRESS = '0x4200000000000000000000000000000000000006';
+
+/** Seaport item types */
+const ITEM_NATIVE = 0;
+const ITEM_ERC20 = 1;
+const NFT_ITEM_TYPES = [2, 3, 4, 5]; // ERC721, ERC1155 and their criteria variants
+
+const ORDER_FULFILLED = parseAbiItem(
+  'event OrderFulfilled(bytes32 orderHash, address indexed offerer, address indexed zone, address recipient, (uint8 itemType, address token, uint256 identifier, uint256 amount)[] offer, (uint8 itemType, address token, uint256 identifier, uint256 amount, address recipient)[] consideration)'
+);
+
+interface SeaportItem {
+  itemType: number;
+  token: string;
+  identifier: bigint;
+  amount: bigint;
+}
+
+/**
+ * Seaport OrderFulfilled: listings offer the NFT for ETH/WETH consideration,
+ * accepted bids offer WETH for the NFT in consideration
+ */
+function decodeSeaport(log: RawLog, contractAddress: string, marketplace: string): DecodedSale[] {
+  const { args } = decodeEventLog({
+    abi: [ORDER_FULFILLED],
+    topics: log.topics as [Hex, ...Hex[]],
+    data: log.data as Hex,
+  });
+
+  const target = contractAddress.toLowerCase();
+  const isTargetNft = (item: SeaportItem) => NFT_ITEM_TYPES.includes(item.itemType) && item.token.toLowerCase() === target;
+  const currencyOf = (item: SeaportItem) =>
+    item.itemType === ITEM_NATIVE ? 'ETH' :
+    item.itemType === ITEM_ERC20 && item.token.toLowerCase() === WETH_ADDRESS ? 'WETH' : null;
+
+  const offer = args.offer as readonly SeaportItem[];
+  const consideration = args.consideration as readonly SeaportItem[];
+
+  // Listing fill: offerer sells NFTs, fulfiller (recipient) pays the consideration
+  let nfts = offer.filter(isTargetNft);
+  let payments = consideration.filter(item => currencyOf(item));
+  let seller = args.offerer;
+  let buyer = args.recipient;
+
+  // Accepted bid: offerer pays WETH, fulfiller (recipient) supplies the NFTs
+  if (nfts.length === 0) {
+    nfts = consideration.filter(isTargetNft);
+    payments = offer.filter(item => currencyOf(item));
+    seller = args.recipient;
+    buyer = args.offerer;
+  }
+
+  if (nfts.length === 0 || payments.length === 0) return [];
+
+  const currency = currencyOf(payments[0])!;
+  const total = payments.reduce((sum, item) => sum + item.amount, BigInt(0));
+  const quantity = nfts.reduce((sum, item) => sum + Number(item.amount), 0) || nfts.length;
+  const pricePerToken = Number(formatEther(total)) / quantity;
+
+  return nfts.map(item => ({
+    marketplace,
+    tokenId: item.identifier.toString(),
+    quantity: Number(item.amount) || 1,
+    price: pricePerToken,
+    currency,
+    seller: seller.toLowerCase(),
+    buyer: buyer.toLowerCase(),
+  }));
+}
+
+/** Known settlement contracts on Shape - add further marketplaces here */
+const MARKETPLACE_DECODERS: MarketplaceDecoder[] = [
+  {
+    name: 'Seaport',
+    addresses: [
+      '0x0000000000000068f116a894984e2db1123eb395', // Seaport 1.6
+      '0x00000000000000adc04c56bf30ac9d3c0aaf14dc', // Seaport 1.5
+    ],
+    topic: toEventSelector(ORDER_FULFILLED),
+    decode: decodeSeaport,
+  },
+];
+
+/**
+ * Decodes every recognised marketplace settlement in a transaction's logs
+ */
+export function decodeMarketplaceSales(logs: RawLog[], contractAddress: string): DecodedSale[] {
+  const sales: DecodedSale[] = [];
+
+  for (const log of logs) {
+    const address = log.address.toLowerCase();
+    const decoder = MARKETPLACE_DECODERS.find(
+      d => d.addresses.includes(address) && log.topics[0]?.toLowerCase() === d.topic
+    );
+    if (!decoder) continue;
+
+    try {
+      sales.push(...decoder.decode(log, contractAddress, decoder.name));
+    } catch (error) {
+      console.warn(`⚠️ Could not decode ${decoder.name} log:`, error);
+    }
+  }
+
+  return sales;
+}
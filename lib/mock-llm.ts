@@ -0,0 +1,169 @@
+/**
+ * Deterministic fixture-driven language model for offline development
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { promises as fs } from 'fs';
+import { simulateReadableStream, type LanguageModel } from 'ai';
+import BUILT_IN_FIXTURES from './mock-llm-fixtures.json';
+
+/** AI SDK language model object (as opposed to a gateway model id string) */
+type LanguageModelObject = Exclude<LanguageModel, string>;
+type MockCallOptions = Parameters<LanguageModelObject['doGenerate']>[0];
+
+/**
+ * One canned response, selected when `match` appears in the prompt
+ * `response` is returned verbatim (objects as JSON); `generator` computes it from the prompt
+ */
+export interface MockFixture {
+  name: string;
+  match: string;
+  response?: unknown;
+  generator?: keyof typeof GENERATORS;
+}
+
+/** Generators for responses that depend on prompt contents */
+const GENERATORS = {
+  curation: generateCurationResponse,
+  comparison: generateComparisonResponse,
+};
+
+/**
+ * Loads fixtures - MOCK_LLM_FIXTURES (path to a JSON array) takes precedence over built-ins
+ */
+async function loadFixtures(): Promise<MockFixture[]> {
+  const customPath = process.env.MOCK_LLM_FIXTURES;
+  const builtIn = BUILT_IN_FIXTURES as MockFixture[];
+  if (!customPath) return builtIn;
+
+  const custom = JSON.parse(await fs.readFile(customPath, 'utf8')) as MockFixture[];
+  return [...custom, ...builtIn];
+}
+
+/** Flattens system and user text into a single prompt string */
+function promptText(options: MockCallOptions): string {
+  return options.prompt
+    .map(message =>
+      typeof message.content === 'string'
+        ? message.content
+        : message.content.map(part => (part.type === 'text' ? part.text : '')).join('\n')
+    )
+    .join('\n');
+}
+
+/** FNV-1a hash - stable pseudo-random numbers from prompt content */
+function hash(value: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Scores each numbered collection (or token) in a curation prompt by hashing persona + name
+ * Honors rank mode (every collection) and the top picks cap in select mode
+ */
+function generateCurationResponse(prompt: string): unknown {
+  const persona = prompt.match(/TARGET PERSONA: (.+)/)?.[1]?.trim() ?? 'persona';
+  const collections = Array.from(prompt.matchAll(/^(\d+)\. "(.*)" \(/gm)).map(match => ({
+    index: Number(match[1]),
+    name: match[2],
+  }));
+  const isRanking = prompt.includes('score every one of them');
+  const pickCount = Number(prompt.match(/select up to (\d+)/)?.[1] ?? collections.length);
+
+  const scored = collections
+    .map(c => ({ ...c, score: 20 + (hash(`${persona}:${c.name}`) % 76) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index);
+
+  return {
+    selections: (isRanking ? scored : scored.slice(0, pickCount)).map(c => ({
+      index: c.index,
+      score: c.score,
+      rationale: `"${c.name}" scores ${c.score} against the ${persona} criteria (mock provider).`,
+    })),
+    reasoning: `Mock curation for ${persona}: collections are scored deterministically from their names.`,
+    confidence: 0.5,
+  };
+}
+
+/**
+ * Gives each numbered collection in a comparison prompt a verdict and picks a standout by hash
+ */
+function generateComparisonResponse(prompt: string): unknown {
+  const collections = Array.from(prompt.matchAll(/^(\d+)\. "(.*)" \(/gm)).map(match => ({
+    index: Number(match[1]),
+    name: match[2],
+  }));
+  const standout = collections.reduce((best, c) => (hash(c.name) > hash(best.name) ? c : best), collections[0]);
+
+  return {
+    summary: `Mock comparison of ${collections.map(c => c.name).join(', ')}: verdicts are derived deterministically from collection names.`,
+    verdicts: collections.map(c => ({
+      index: c.index,
+      verdict: `"${c.name}" ${c === standout ? 'leads' : 'trails'} this set (mock provider).`,
+    })),
+    standout: { index: standout?.index ?? 1, reason: `"${standout?.name}" has the highest mock score.` },
+    confidence: 0.5,
+  };
+}
+
+/**
+ * Resolves the response text for a prompt from the first matching fixture
+ */
+async function resolveResponse(prompt: string): Promise<string> {
+  const fixtures = await loadFixtures();
+  const fixture = fixtures.find(f => prompt.includes(f.match));
+
+  if (!fixture) {
+    throw new Error('Mock LLM: no fixture matches this prompt');
+  }
+
+  const response = fixture.generator ? GENERATORS[fixture.generator](prompt) : fixture.response;
+  return typeof response === 'string' ? response : JSON.stringify(response);
+}
+
+/**
+ * Creates the mock language model - same prompt always yields the same output
+ */
+export function createMockLanguageModel(modelId: string): LanguageModelObject {
+  const usage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+
+  return {
+    specificationVersion: 'v2',
+    provider: 'mock',
+    modelId,
+    supportedUrls: {},
+
+    async doGenerate(options) {
+      const text = await resolveResponse(promptText(options));
+      return {
+        content: [{ type: 'text', text }],
+        finishReason: 'stop',
+        usage,
+        warnings: [],
+      };
+    },
+
+    async doStream(options) {
+      const text = await resolveResponse(promptText(options));
+      return {
+        stream: simulateReadableStream({
+          chunks: [
+            { type: 'stream-start', warnings: [] },
+            { type: 'text-start', id: '0' },
+            { type: 'text-delta', id: '0', delta: text },
+            { type: 'text-end', id: '0' },
+            { type: 'finish', finishReason: 'stop', usage },
+          ],
+        }),
+      };
+    },
+  };
+}
@@ -0,0 +1,113 @@
+/**
+ * Unit tests for the holder overlap graph - Jaccard matrix, edges and collector affinities
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { describe, expect, it } from 'vitest';
+import { buildOverlapGraph, getCollectorAffinities, mapCollectorAffinities } from './overlap-graph';
+
+const A = '0x00000000000000000000000000000000000000aa';
+const B = '0x00000000000000000000000000000000000000bb';
+const C = '0x00000000000000000000000000000000000000cc';
+
+describe('buildOverlapGraph', () => {
+  it('builds an empty graph from no collections', () => {
+    const graph = buildOverlapGraph([], []);
+
+    expect(graph.nodes).toEqual([]);
+    expect(graph.matrix).toEqual([]);
+    expect(graph.edges).toEqual([]);
+  });
+
+  it('gives a single collection a 1 on the diagonal and no edges', () => {
+    const graph = buildOverlapGraph([{ contractAddress: A, name: 'Alpha' }], [new Set(['w1', 'w2'])]);
+
+    expect(graph.nodes).toEqual([{ contractAddress: A, name: 'Alpha', holders: 2 }]);
+    expect(graph.matrix).toEqual([[1]]);
+    expect(graph.edges).toEqual([]);
+  });
+
+  it('lowercases addresses and names unnamed collections', () => {
+    const graph = buildOverlapGraph([{ contractAddress: A.toUpperCase().replace('0X', '0x'), name: null }], [new Set()]);
+
+    expect(graph.nodes[0]).toEqual({ contractAddress: A, name: 'Unknown Collection', holders: 0 });
+  });
+
+  it('computes the Jaccard index of overlapping holder sets', () => {
+    const graph = buildOverlapGraph(
+      [{ contractAddress: A }, { contractAddress: B }],
+      [new Set(['w1', 'w2', 'w3']), new Set(['w2', 'w3', 'w4'])]
+    );
+
+    expect(graph.matrix).toEqual([[1, 0.5], [0.5, 1]]);
+    expect(graph.edges).toEqual([{ source: A, target: B, shared: 2, jaccard: 0.5 }]);
+  });
+
+  it('rounds the Jaccard index to 4 decimals', () => {
+    const graph = buildOverlapGraph(
+      [{ contractAddress: A }, { contractAddress: B }],
+      [new Set(['w1', 'w2']), new Set(['w2', 'w3'])]
+    );
+
+    expect(graph.edges[0].jaccard).toBe(0.3333);
+  });
+
+  it('leaves disjoint and empty holder sets at 0 without an edge', () => {
+    const graph = buildOverlapGraph(
+      [{ contractAddress: A }, { contractAddress: B }, { contractAddress: C }],
+      [new Set(['w1']), new Set(['w2']), new Set()]
+    );
+
+    expect(graph.matrix).toEqual([[1, 0, 0], [0, 1, 0], [0, 0, 1]]);
+    expect(graph.edges).toEqual([]);
+  });
+
+  it('orders edges strongest first and keeps pair order on ties', () => {
+    const graph = buildOverlapGraph(
+      [{ contractAddress: A }, { contractAddress: B }, { contractAddress: C }],
+      [new Set(['w1', 'w2']), new Set(['w1', 'w3']), new Set(['w1', 'w2'])]
+    );
+
+    expect(graph.edges.map(e => [e.source, e.target, e.jaccard])).toEqual([
+      [A, C, 1],
+      [A, B, 0.3333],
+      [B, C, 0.3333],
+    ]);
+  });
+});
+
+describe('getCollectorAffinities', () => {
+  const graph = buildOverlapGraph(
+    [{ contractAddress: A, name: 'Alpha' }, { contractAddress: B, name: 'Beta' }, { contractAddress: C, name: 'Gamma' }],
+    [new Set(['w1', 'w2']), new Set(['w1', 'w2', 'w3', 'w4']), new Set(['w4'])]
+  );
+
+  it('measures share against the holders of the queried collection', () => {
+    expect(getCollectorAffinities(graph, A)).toEqual([
+      { contractAddress: B, name: 'Beta', shared: 2, share: 100, jaccard: 0.5 },
+    ]);
+    expect(getCollectorAffinities(graph, B)).toEqual([
+      { contractAddress: A, name: 'Alpha', shared: 2, share: 50, jaccard: 0.5 },
+      { contractAddress: C, name: 'Gamma', shared: 1, share: 25, jaccard: 0.25 },
+    ]);
+  });
+
+  it('matches addresses case-insensitively and respects the limit', () => {
+    expect(getCollectorAffinities(graph, B.toUpperCase().replace('0X', '0x'), 1)).toHaveLength(1);
+  });
+
+  it('returns nothing for unknown or holderless collections', () => {
+    const empty = buildOverlapGraph([{ contractAddress: A }], [new Set()]);
+
+    expect(getCollectorAffinities(graph, '0x00000000000000000000000000000000000000dd')).toEqual([]);
+    expect(getCollectorAffinities(empty, A)).toEqual([]);
+  });
+
+  it('keys affinities by lowercase address', () => {
+    expect(Object.keys(mapCollectorAffinities(graph, [A, C]))).toEqual([A, C]);
+  });
+});
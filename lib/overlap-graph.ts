@@ -0,0 +1,128 @@
+/**
+ * Collection-to-collection holder overlap graph - Jaccard matrix and collector affinities
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+/** One collection in the overlap graph */
+export interface OverlapNode {
+  contractAddress: string; // lowercase
+  name: string;
+  holders: number;
+}
+
+/** Shared holders between two collections */
+export interface OverlapEdge {
+  source: string;
+  target: string;
+  shared: number;
+  jaccard: number; // |A ∩ B| / |A ∪ B|, 0-1
+}
+
+/** Holder overlap across every approved collection */
+export interface HolderOverlapGraph {
+  builtAt: string; // ISO
+  nodes: OverlapNode[];
+  matrix: number[][]; // Jaccard index by node position, 1 on the diagonal
+  edges: OverlapEdge[]; // pairs with at least one shared holder, strongest first
+}
+
+/** "Collectors of X also hold Y" */
+export interface CollectorAffinity {
+  contractAddress: string;
+  name: string;
+  shared: number;
+  share: number; // % of X's holders who also hold Y
+  jaccard: number;
+}
+
+/** Rounds a ratio to 4 decimals for storage and display */
+function roundRatio(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/** Number of owners present in both sets */
+function countShared(a: Set<string>, b: Set<string>): number {
+  const [smaller, larger] = a.size <= b.size ? [a, b] : [b, a];
+  let shared = 0;
+  for (const owner of smaller) {
+    if (larger.has(owner)) shared++;
+  }
+  return shared;
+}
+
+/**
+ * Builds the Jaccard matrix and weighted edge list from per-collection owner sets
+ */
+export function buildOverlapGraph(
+  collections: { contractAddress: string; name?: string | null }[],
+  ownerSets: Set<string>[]
+): HolderOverlapGraph {
+  const nodes = collections.map((c, i) => ({
+    contractAddress: c.contractAddress.toLowerCase(),
+    name: c.name || 'Unknown Collection',
+    holders: ownerSets[i].size,
+  }));
+  const matrix: number[][] = nodes.map((_, i) => nodes.map((__, j) => (i === j ? 1 : 0)));
+  const edges: OverlapEdge[] = [];
+
+  for (let i = 0; i < nodes.length; i++) {
+    for (let j = i + 1; j < nodes.length; j++) {
+      const shared = countShared(ownerSets[i], ownerSets[j]);
+      const union = ownerSets[i].size + ownerSets[j].size - shared;
+      const jaccard = union > 0 ? roundRatio(shared / union) : 0;
+      matrix[i][j] = matrix[j][i] = jaccard;
+      if (shared > 0) {
+        edges.push({ source: nodes[i].contractAddress, target: nodes[j].contractAddress, shared, jaccard });
+      }
+    }
+  }
+
+  edges.sort((a, b) => b.jaccard - a.jaccard);
+  return { builtAt: new Date().toISOString(), nodes, matrix, edges };
+}
+
+/**
+ * Collections most held by collectors of `contractAddress`, ranked by share of its holders
+ * Share is directional: a small collection can sit entirely inside a large one
+ */
+export function getCollectorAffinities(
+  graph: HolderOverlapGraph,
+  contractAddress: string,
+  limit = 3
+): CollectorAffinity[] {
+  const key = contractAddress.toLowerCase();
+  const node = graph.nodes.find(n => n.contractAddress === key);
+  if (!node || node.holders === 0) return [];
+
+  return graph.edges
+    .filter(edge => edge.source === key || edge.target === key)
+    .map(edge => {
+      const other = graph.nodes.find(n => n.contractAddress === (edge.source === key ? edge.target : edge.source))!;
+      return {
+        contractAddress: other.contractAddress,
+        name: other.name,
+        shared: edge.shared,
+        share: Math.round((edge.shared / node.holders) * 1000) / 10,
+        jaccard: edge.jaccard,
+      };
+    })
+    .sort((a, b) => b.share - a.share)
+    .slice(0, limit);
+}
+
+/**
+ * Collector affinities for each of the given collections, keyed by lowercase address
+ */
+export function mapCollectorAffinities(
+  graph: HolderOverlapGraph,
+  contractAddresses: string[],
+  limit = 3
+): Record<string, CollectorAffinity[]> {
+  return Object.fromEntries(
+    contractAddresses.map(address => [address.toLowerCase(), getCollectorAffinities(graph, address, limit)])
+  );
+}
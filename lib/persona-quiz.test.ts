@@ -0,0 +1,116 @@
+/**
+ * Unit tests for the persona quiz scoring model
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { describe, expect, it } from 'vitest';
+import { scorePersonaQuiz, QUIZ_QUESTIONS, type QuizQuestion } from './persona-quiz';
+
+/** Sum of a blend's weights */
+const total = (weights: Record<string, number>) => Object.values(weights).reduce((a, b) => a + b, 0);
+
+describe('scorePersonaQuiz', () => {
+  it('returns an even blend with the first persona as primary when nothing is answered', () => {
+    const blend = scorePersonaQuiz({});
+
+    expect(blend.weights).toEqual({ renegade: 0.25, fomo: 0.25, zen: 0.25, chaos: 0.25 });
+    expect(blend.primary).toBe('renegade');
+    expect(blend.explanation).toMatch(/^No answers yet/);
+  });
+
+  it('gives a single-persona choice its full weight', () => {
+    const blend = scorePersonaQuiz({ aesthetic: 'ink' });
+
+    expect(blend.primary).toBe('zen');
+    expect(blend.weights).toEqual({ renegade: 0, fomo: 0, zen: 1, chaos: 0 });
+    expect(blend.explanation).toContain('single ink brushstroke');
+  });
+
+  it('normalizes mixed choice weights by their total', () => {
+    // glitch: renegade 2 + chaos 1, neon: chaos 2 + fomo 1 → 6 in total
+    const blend = scorePersonaQuiz({ aesthetic: 'glitch', palette: 'neon' });
+
+    expect(blend.weights).toEqual({ renegade: 0.333, fomo: 0.167, zen: 0, chaos: 0.5 });
+    expect(blend.primary).toBe('chaos');
+  });
+
+  it('interpolates slider answers between their low and high profiles', () => {
+    // risk at 50: zen 1.5, fomo 1, chaos 1 → 3.5 in total
+    const blend = scorePersonaQuiz({ risk: 50 });
+
+    expect(blend.weights).toEqual({ renegade: 0, fomo: 0.286, zen: 0.429, chaos: 0.286 });
+    expect(blend.primary).toBe('zen');
+  });
+
+  it('clamps slider answers to 0-100', () => {
+    expect(scorePersonaQuiz({ risk: 250 }).weights).toEqual(scorePersonaQuiz({ risk: 100 }).weights);
+    expect(scorePersonaQuiz({ risk: -40 }).weights).toEqual(scorePersonaQuiz({ risk: 0 }).weights);
+  });
+
+  it('ignores unknown option ids', () => {
+    expect(scorePersonaQuiz({ aesthetic: 'watercolour' })).toEqual(scorePersonaQuiz({}));
+  });
+
+  it('keeps weights summing to 1 for a full set of answers', () => {
+    const answers = {
+      aesthetic: 'glitch',
+      palette: 'earth',
+      discovery: 'timeline',
+      structure: 'unhinged',
+      risk: 73,
+      holding: 12,
+      mainstream: 41,
+    };
+    const blend = scorePersonaQuiz(answers);
+
+    expect(total(blend.weights)).toBeCloseTo(1, 2);
+    for (const weight of Object.values(blend.weights)) {
+      expect(weight).toBeGreaterThanOrEqual(0);
+      expect(weight).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('is deterministic for identical answers', () => {
+    const answers = { aesthetic: 'glitch', discovery: 'underground', risk: 30, holding: 90 };
+
+    expect(scorePersonaQuiz(answers)).toEqual(scorePersonaQuiz({ ...answers }));
+  });
+
+  it('breaks ties by persona order', () => {
+    const questions: QuizQuestion[] = [{
+      id: 'tie',
+      type: 'choice',
+      prompt: 'Tie',
+      options: [
+        { id: 'both', emoji: '⚖️', label: 'Both', weights: { chaos: 1, fomo: 1 } },
+        { id: 'none', emoji: '⚖️', label: 'None', weights: {} },
+      ],
+    }];
+    const blend = scorePersonaQuiz({ tie: 'both' }, questions);
+
+    expect(blend.weights.fomo).toBe(blend.weights.chaos);
+    expect(blend.primary).toBe('fomo');
+  });
+
+  it('falls back to an even blend when the answers carry no weight', () => {
+    const questions: QuizQuestion[] = [{
+      id: 'empty',
+      type: 'slider',
+      prompt: 'Empty',
+      minLabel: 'Low',
+      maxLabel: 'High',
+      low: {},
+      high: {},
+    }];
+
+    expect(scorePersonaQuiz({ empty: 60 }, questions).weights).toEqual({ renegade: 0.25, fomo: 0.25, zen: 0.25, chaos: 0.25 });
+  });
+
+  it('scores against the built-in questionnaire by default', () => {
+    expect(scorePersonaQuiz({ aesthetic: 'ink' })).toEqual(scorePersonaQuiz({ aesthetic: 'ink' }, QUIZ_QUESTIONS));
+  });
+});
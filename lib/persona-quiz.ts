@@ -0,0 +1,218 @@
+/**
+ * Onboarding questionnaire and deterministic persona scoring model
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { PERSONA_DEFINITIONS, type BuiltInPersonaType, type PersonaType } from './collections-data';
+
+/** Per-persona weight contributed by an answer */
+type PersonaWeights = Partial<Record<BuiltInPersonaType, number>>;
+
+/** Visual either/or question */
+export interface ChoiceQuestion {
+  id: string;
+  type: 'choice';
+  prompt: string;
+  options: [QuizOption, QuizOption];
+}
+
+/** Single side of a choice question */
+export interface QuizOption {
+  id: string;
+  emoji: string;
+  label: string;
+  weights: PersonaWeights;
+}
+
+/** 0-100 slider question interpolating between two weight profiles */
+export interface SliderQuestion {
+  id: string;
+  type: 'slider';
+  prompt: string;
+  minLabel: string;
+  maxLabel: string;
+  low: PersonaWeights;
+  high: PersonaWeights;
+}
+
+export type QuizQuestion = ChoiceQuestion | SliderQuestion;
+
+/** Answers keyed by question id: option id for choices, 0-100 for sliders */
+export type QuizAnswers = Record<string, string | number>;
+
+/** Weighted blend of persona scores produced by the quiz */
+export interface PersonaBlend {
+  primary: PersonaType;
+  weights: Record<PersonaType, number>; // normalized, sums to 1
+  explanation: string;
+}
+
+/** Ordered persona ids - also the deterministic tie-break order */
+const PERSONA_ORDER = Object.keys(PERSONA_DEFINITIONS) as BuiltInPersonaType[];
+
+/** Onboarding questionnaire - choice pairs for aesthetics, sliders for appetite */
+export const QUIZ_QUESTIONS: QuizQuestion[] = [
+  {
+    id: 'aesthetic',
+    type: 'choice',
+    prompt: 'Which wall would you rather hang?',
+    options: [
+      { id: 'glitch', emoji: '📺', label: 'Corrupted glitch portrait', weights: { renegade: 2, chaos: 1 } },
+      { id: 'ink', emoji: '🖌️', label: 'Single ink brushstroke', weights: { zen: 3 } },
+    ],
+  },
+  {
+    id: 'palette',
+    type: 'choice',
+    prompt: 'Pick a palette',
+    options: [
+      { id: 'neon', emoji: '🌈', label: 'Clashing neon maximalism', weights: { chaos: 2, fomo: 1 } },
+      { id: 'earth', emoji: '🍂', label: 'Muted earth tones', weights: { zen: 2, renegade: 1 } },
+    ],
+  },
+  {
+    id: 'discovery',
+    type: 'choice',
+    prompt: 'How do you find new art?',
+    options: [
+      { id: 'timeline', emoji: '🔥', label: 'Whatever is trending today', weights: { fomo: 3 } },
+      { id: 'underground', emoji: '🕳️', label: 'Obscure Discords nobody knows', weights: { renegade: 2, chaos: 1 } },
+    ],
+  },
+  {
+    id: 'structure',
+    type: 'choice',
+    prompt: 'Generative art should be...',
+    options: [
+      { id: 'controlled', emoji: '📐', label: 'Precise and intentional', weights: { zen: 2 } },
+      { id: 'unhinged', emoji: '🎲', label: 'Wildly unpredictable', weights: { chaos: 3 } },
+    ],
+  },
+  {
+    id: 'risk',
+    type: 'slider',
+    prompt: 'Risk appetite',
+    minLabel: 'Blue chips only',
+    maxLabel: 'Degen every mint',
+    low: { zen: 3 },
+    high: { fomo: 2, chaos: 2 },
+  },
+  {
+    id: 'holding',
+    type: 'slider',
+    prompt: 'Holding horizon',
+    minLabel: 'Flip within days',
+    maxLabel: 'Hold for years',
+    low: { fomo: 3 },
+    high: { zen: 2, renegade: 1 },
+  },
+  {
+    id: 'mainstream',
+    type: 'slider',
+    prompt: 'How much do you care what others collect?',
+    minLabel: 'Not at all',
+    maxLabel: 'A lot',
+    low: { renegade: 3 },
+    high: { fomo: 3 },
+  },
+];
+
+/** Contribution of a single answer, used for scoring and explanations */
+interface AnswerContribution {
+  questionId: string;
+  label: string;
+  weights: PersonaWeights;
+}
+
+/**
+ * Resolves one answer into the weights it contributes
+ * Sliders linearly interpolate between their low and high profiles
+ */
+function resolveAnswer(question: QuizQuestion, answer: string | number | undefined): AnswerContribution | null {
+  if (answer === undefined) return null;
+
+  if (question.type === 'choice') {
+    const option = question.options.find(o => o.id === answer);
+    return option ? { questionId: question.id, label: option.label, weights: option.weights } : null;
+  }
+
+  const ratio = Math.max(0, Math.min(100, Number(answer))) / 100;
+  const weights: PersonaWeights = {};
+  for (const persona of PERSONA_ORDER) {
+    const value = (question.low[persona] ?? 0) * (1 - ratio) + (question.high[persona] ?? 0) * ratio;
+    if (value > 0) weights[persona] = value;
+  }
+
+  const label = ratio < 0.5 ? question.minLabel : question.maxLabel;
+  return { questionId: question.id, label: `${question.prompt}: ${label.toLowerCase()}`, weights };
+}
+
+/**
+ * Computes a normalized persona blend from quiz answers
+ * Deterministic: identical answers always yield identical weights and primary
+ */
+export function scorePersonaQuiz(answers: QuizAnswers, questions: QuizQuestion[] = QUIZ_QUESTIONS): PersonaBlend {
+  const totals = Object.fromEntries(PERSONA_ORDER.map(persona => [persona, 0])) as Record<BuiltInPersonaType, number>;
+  const contributions: AnswerContribution[] = [];
+
+  for (const question of questions) {
+    const contribution = resolveAnswer(question, answers[question.id]);
+    if (!contribution) continue;
+
+    contributions.push(contribution);
+    for (const persona of PERSONA_ORDER) {
+      totals[persona] += contribution.weights[persona] ?? 0;
+    }
+  }
+
+  const sum = PERSONA_ORDER.reduce((acc, persona) => acc + totals[persona], 0);
+  const weights = Object.fromEntries(
+    PERSONA_ORDER.map(persona => [persona, sum > 0 ? round(totals[persona] / sum) : round(1 / PERSONA_ORDER.length)])
+  ) as Record<PersonaType, number>;
+
+  // Strictly-greater comparison keeps PERSONA_ORDER as the tie-break
+  const primary = PERSONA_ORDER.reduce((best, persona) => (weights[persona] > weights[best] ? persona : best));
+
+  return {
+    primary,
+    weights,
+    explanation: explainBlend(primary, weights, contributions),
+  };
+}
+
+/**
+ * Builds a human-readable explanation from the strongest contributing answers
+ */
+function explainBlend(
+  primary: BuiltInPersonaType,
+  weights: Record<PersonaType, number>,
+  contributions: AnswerContribution[]
+): string {
+  const definition = PERSONA_DEFINITIONS[primary];
+
+  if (contributions.length === 0) {
+    return `No answers yet - showing an even blend with ${definition.title} as the default.`;
+  }
+
+  const drivers = [...contributions]
+    .sort((a, b) => (b.weights[primary] ?? 0) - (a.weights[primary] ?? 0))
+    .filter(c => (c.weights[primary] ?? 0) > 0)
+    .slice(0, 2)
+    .map(c => c.label.toLowerCase());
+
+  const secondary = PERSONA_ORDER.filter(persona => persona !== primary)
+    .sort((a, b) => weights[b] - weights[a])[0];
+
+  const driverText = drivers.length > 0 ? ` You leaned toward ${drivers.join(' and ')}.` : '';
+
+  return `You are ${Math.round(weights[primary] * 100)}% ${definition.title} ${definition.emoji} - ${definition.description.toLowerCase()}.${driverText} Your secondary streak is ${PERSONA_DEFINITIONS[secondary].title} (${Math.round(weights[secondary] * 100)}%).`;
+}
+
+/** Rounds weights to 3 decimals so blends serialize stably */
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,28 @@
+/**
+ * Unit tests for persona registry lookups
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { describe, expect, it } from 'vitest';
+import { PERSONA_DEFINITIONS } from './collections-data';
+import { findPersona } from './persona-registry';
+
+describe('findPersona', () => {
+  const personas = { ...PERSONA_DEFINITIONS };
+
+  it('finds registered personas', () => {
+    expect(findPersona(personas, 'zen')).toBe(PERSONA_DEFINITIONS.zen);
+  });
+
+  it('returns null for unknown ids', () => {
+    expect(findPersona(personas, 'pixel-purist')).toBeNull();
+  });
+
+  it.each(['constructor', 'toString', '__proto__', 'hasOwnProperty'])('never resolves the prototype key %s', id => {
+    expect(findPersona(personas, id)).toBeNull();
+  });
+});
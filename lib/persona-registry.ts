@@ -0,0 +1,121 @@
+/**
+ * Persona registry - built-in personas plus user-defined personas stored as data
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { PERSONA_DEFINITIONS, type PersonaDefinition, type PersonaType } from './collections-data';
+import { slugifyPersonaTitle, type PersonaInput } from './persona-schema';
+import { readJsonFile, writeJsonFile } from './json-store';
+
+/** Registry file name inside the data directory */
+const PERSONAS_FILE = 'personas.json';
+
+/** Persisted custom persona document */
+interface PersonaDocument {
+  personas: PersonaDefinition[];
+}
+
+/** Error raised for invalid persona registry operations */
+export class PersonaRegistryError extends Error {
+  constructor(
+    message: string,
+    public readonly status: 400 | 403 | 404 | 409
+  ) {
+    super(message);
+    this.name = 'PersonaRegistryError';
+  }
+}
+
+/**
+ * Loads user-defined personas from the data directory
+ */
+async function loadCustomPersonas(): Promise<PersonaDefinition[]> {
+  const document = await readJsonFile<PersonaDocument>(PERSONAS_FILE, { personas: [] });
+  return document.personas;
+}
+
+/**
+ * Returns all personas keyed by id - built-ins first, then custom personas
+ */
+export async function getPersonaDefinitions(): Promise<Record<PersonaType, PersonaDefinition>> {
+  const customPersonas = await loadCustomPersonas();
+
+  return customPersonas.reduce<Record<PersonaType, PersonaDefinition>>(
+    (personas, persona) => ({ ...personas, [persona.id]: { ...persona, builtIn: false } }),
+    { ...PERSONA_DEFINITIONS }
+  );
+}
+
+/**
+ * Looks up one persona by id - prototype keys such as "constructor" never match
+ */
+export function findPersona(personas: Record<PersonaType, PersonaDefinition>, id: string): PersonaDefinition | null {
+  return Object.hasOwn(personas, id) ? personas[id] : null;
+}
+
+/**
+ * Creates a new custom persona with an id derived from its title
+ */
+export async function createPersona(input: PersonaInput): Promise<PersonaDefinition> {
+  const id = slugifyPersonaTitle(input.title);
+  if (!id) {
+    throw new PersonaRegistryError('Persona title must contain letters or numbers', 400);
+  }
+
+  const personas = await getPersonaDefinitions();
+  if (findPersona(personas, id)) {
+    throw new PersonaRegistryError(`Persona already exists: ${id}`, 409);
+  }
+
+  const persona: PersonaDefinition = { id, ...input, builtIn: false };
+  const customPersonas = await loadCustomPersonas();
+  await writeJsonFile<PersonaDocument>(PERSONAS_FILE, { personas: [...customPersonas, persona] });
+
+  console.log(`✅ Persona created: ${persona.title} (${id})`);
+
+  return persona;
+}
+
+/**
+ * Updates an existing custom persona; built-in personas are read-only
+ */
+export async function updatePersona(id: PersonaType, input: PersonaInput): Promise<PersonaDefinition> {
+  if (Object.hasOwn(PERSONA_DEFINITIONS, id)) {
+    throw new PersonaRegistryError(`Built-in persona cannot be edited: ${id}`, 403);
+  }
+
+  const customPersonas = await loadCustomPersonas();
+  const index = customPersonas.findIndex(persona => persona.id === id);
+  if (index === -1) {
+    throw new PersonaRegistryError(`Unknown persona: ${id}`, 404);
+  }
+
+  const persona: PersonaDefinition = { id, ...input, builtIn: false };
+  customPersonas[index] = persona;
+  await writeJsonFile<PersonaDocument>(PERSONAS_FILE, { personas: customPersonas });
+
+  console.log(`✅ Persona updated: ${persona.title} (${id})`);
+
+  return persona;
+}
+
+/**
+ * Removes a custom persona; built-in personas cannot be deleted
+ */
+export async function deletePersona(id: PersonaType): Promise<void> {
+  if (Object.hasOwn(PERSONA_DEFINITIONS, id)) {
+    throw new PersonaRegistryError(`Built-in persona cannot be deleted: ${id}`, 403);
+  }
+
+  const customPersonas = await loadCustomPersonas();
+  const remaining = customPersonas.filter(persona => persona.id !== id);
+  if (remaining.length === customPersonas.length) {
+    throw new PersonaRegistryError(`Unknown persona: ${id}`, 404);
+  }
+
+  await writeJsonFile<PersonaDocument>(PERSONAS_FILE, { personas: remaining });
+}
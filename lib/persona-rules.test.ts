@@ -0,0 +1,221 @@
+/**
+ * Unit tests for the rule-based persona matcher
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { describe, expect, it } from 'vitest';
+import { PERSONA_DEFINITIONS, type Collection, type PersonaDefinition } from './collections-data';
+import { getActivityLevel, getPersonaRules, matchCollectionsByRules, matchesCondition, type PersonaRule, type RuleCondition } from './persona-rules';
+
+/** Builds a collection with neutral defaults */
+function collection(overrides: Partial<Collection> = {}): Collection {
+  return {
+    contractAddress: '0x0000000000000000000000000000000000000001',
+    name: null,
+    symbol: null,
+    totalSupply: null,
+    owners: null,
+    image: '',
+    openSeaUrl: '',
+    originalUrl: '',
+    ...overrides,
+  };
+}
+
+/** Builds a custom persona with the given theme */
+function customPersona(id: string, theme: string, lookFor: string[] = []): PersonaDefinition {
+  return { id, emoji: '🧪', title: 'Custom', description: 'Test persona', color: '', theme, criteria: [], lookFor };
+}
+
+describe('matchesCondition', () => {
+  describe('supply', () => {
+    const band: RuleCondition = { attribute: 'supply', min: 100, max: 1000 };
+
+    it('matches inclusive band edges', () => {
+      expect(matchesCondition(collection({ totalSupply: 100 }), band)).toBe(true);
+      expect(matchesCondition(collection({ totalSupply: 1000 }), band)).toBe(true);
+    });
+
+    it('rejects values outside the band', () => {
+      expect(matchesCondition(collection({ totalSupply: 99 }), band)).toBe(false);
+      expect(matchesCondition(collection({ totalSupply: 1001 }), band)).toBe(false);
+    });
+
+    it('treats a missing bound as open', () => {
+      expect(matchesCondition(collection({ totalSupply: 1_000_000 }), { attribute: 'supply', min: 5000 })).toBe(true);
+      expect(matchesCondition(collection({ totalSupply: 0 }), { attribute: 'supply', max: 1000 })).toBe(true);
+    });
+
+    it('never matches an unknown supply', () => {
+      expect(matchesCondition(collection({ totalSupply: null }), { attribute: 'supply', max: 1000 })).toBe(false);
+    });
+  });
+
+  describe('holderRatio', () => {
+    it('divides owners by supply', () => {
+      const target = collection({ totalSupply: 1000, owners: 600 });
+
+      expect(matchesCondition(target, { attribute: 'holderRatio', min: 0.6 })).toBe(true);
+      expect(matchesCondition(target, { attribute: 'holderRatio', min: 0.61 })).toBe(false);
+    });
+
+    it('caps the ratio at 1 when owners exceed supply', () => {
+      const target = collection({ totalSupply: 10, owners: 50 });
+
+      expect(matchesCondition(target, { attribute: 'holderRatio', min: 1, max: 1 })).toBe(true);
+    });
+
+    it('never matches with a null or zero supply', () => {
+      expect(matchesCondition(collection({ totalSupply: null, owners: 10 }), { attribute: 'holderRatio', min: 0 })).toBe(false);
+      expect(matchesCondition(collection({ totalSupply: 0, owners: 10 }), { attribute: 'holderRatio', min: 0 })).toBe(false);
+    });
+
+    it('never matches with unknown owners', () => {
+      expect(matchesCondition(collection({ totalSupply: 100, owners: null }), { attribute: 'holderRatio', max: 1 })).toBe(false);
+    });
+  });
+
+  describe('activity', () => {
+    it('bands weekly transfers at the high and medium thresholds', () => {
+      expect(getActivityLevel(collection({ transfers7d: 100 }))).toBe('high');
+      expect(getActivityLevel(collection({ transfers7d: 99 }))).toBe('medium');
+      expect(getActivityLevel(collection({ transfers7d: 10 }))).toBe('medium');
+      expect(getActivityLevel(collection({ transfers7d: 9 }))).toBe('low');
+      expect(getActivityLevel(collection({ transfers7d: 0 }))).toBe('low');
+    });
+
+    it('matches any of the listed levels', () => {
+      const condition: RuleCondition = { attribute: 'activity', levels: ['high', 'medium'] };
+
+      expect(matchesCondition(collection({ transfers7d: 500 }), condition)).toBe(true);
+      expect(matchesCondition(collection({ transfers7d: 50 }), condition)).toBe(true);
+      expect(matchesCondition(collection({ transfers7d: 5 }), condition)).toBe(false);
+    });
+
+    it('never matches unknown transfer counts', () => {
+      const condition: RuleCondition = { attribute: 'activity', levels: ['low'] };
+
+      expect(matchesCondition(collection({ transfers7d: null }), condition)).toBe(false);
+      expect(matchesCondition(collection(), condition)).toBe(false);
+    });
+  });
+
+  describe('keywords', () => {
+    it('matches term prefixes case-insensitively', () => {
+      expect(matchesCondition(collection({ name: 'Shape PUNKS' }), { attribute: 'keywords', terms: ['punk'] })).toBe(true);
+    });
+
+    it('does not match terms inside a word', () => {
+      expect(matchesCondition(collection({ name: 'Daily Blog' }), { attribute: 'keywords', terms: ['og'] })).toBe(false);
+      expect(matchesCondition(collection({ name: 'OG Pass' }), { attribute: 'keywords', terms: ['og'] })).toBe(true);
+    });
+
+    it('searches symbol, description and trait names and values', () => {
+      const terms = ['glitch'];
+
+      expect(matchesCondition(collection({ symbol: 'GLITCHY' }), { attribute: 'keywords', terms })).toBe(true);
+      expect(matchesCondition(collection({ description: 'Art from corrupted-glitch frames' }), { attribute: 'keywords', terms })).toBe(true);
+      expect(matchesCondition(collection({ traits: { Glitches: ['none'] } }), { attribute: 'keywords', terms })).toBe(true);
+      expect(matchesCondition(collection({ traits: { Effect: ['Glitch wave'] } }), { attribute: 'keywords', terms })).toBe(true);
+    });
+
+    it('matches nothing in empty metadata', () => {
+      expect(matchesCondition(collection(), { attribute: 'keywords', terms: ['zen'] })).toBe(false);
+    });
+  });
+});
+
+describe('getPersonaRules', () => {
+  it('returns the declarative rules for built-in personas', () => {
+    expect(getPersonaRules(PERSONA_DEFINITIONS.zen).length).toBeGreaterThan(0);
+  });
+
+  it('derives keyword rules from a custom persona without stopwords or short words', () => {
+    const [rule] = getPersonaRules(customPersona('pixel-lover', 'Pixel art with retro themes', ['8bit sprites', 'arcade']));
+
+    expect(rule.when).toEqual({ attribute: 'keywords', terms: ['pixel', 'retro', '8bit', 'sprites', 'arcade'] });
+  });
+
+  it('does not treat object prototype keys as built-in personas', () => {
+    expect(getPersonaRules(customPersona('constructor', 'Cranes and scaffolding'))).toEqual([
+      { when: { attribute: 'keywords', terms: ['cranes', 'scaffolding'] }, weight: 1, reason: 'Matches Custom themes' },
+    ]);
+  });
+});
+
+describe('matchCollectionsByRules', () => {
+  const persona = customPersona('ocean', 'ocean waves');
+
+  it('ranks by share of matched rule weight', () => {
+    const rules: PersonaRule[] = getPersonaRules(PERSONA_DEFINITIONS.renegade);
+    expect(rules.map(r => r.weight)).toEqual([3, 2, 1]);
+
+    const punk = collection({ contractAddress: '0xa', name: 'Punks', totalSupply: 500, transfers7d: 20 });
+    const small = collection({ contractAddress: '0xb', name: 'Flowers', totalSupply: 500, transfers7d: 500 });
+    const result = matchCollectionsByRules(PERSONA_DEFINITIONS.renegade, [small, punk]);
+
+    expect(result.curated.map(c => [c.collection.contractAddress, c.score])).toEqual([['0xa', 100], ['0xb', 33]]);
+    expect(result.source).toBe('rules');
+  });
+
+  it('breaks score ties on owners, then contract address', () => {
+    const collections = [
+      collection({ contractAddress: '0xc', name: 'Ocean C', owners: 10 }),
+      collection({ contractAddress: '0xb', name: 'Ocean B', owners: 50 }),
+      collection({ contractAddress: '0xa', name: 'Ocean A', owners: 10 }),
+    ];
+
+    const order = matchCollectionsByRules(persona, collections).curated.map(c => c.collection.contractAddress);
+    expect(order).toEqual(['0xb', '0xa', '0xc']);
+  });
+
+  it('gives the same ranking for any input order', () => {
+    const collections = [
+      collection({ contractAddress: '0x3', name: 'Ocean', owners: 5 }),
+      collection({ contractAddress: '0x1', name: 'Ocean', owners: 5 }),
+      collection({ contractAddress: '0x2', name: 'Desert', owners: 500 }),
+      collection({ contractAddress: '0x4', name: 'Ocean', owners: null }),
+    ];
+
+    const forward = matchCollectionsByRules(persona, collections);
+    const reversed = matchCollectionsByRules(persona, [...collections].reverse());
+    expect(reversed).toEqual(forward);
+  });
+
+  it('picks only matching collections, capped at topPicks', () => {
+    const collections = [
+      collection({ contractAddress: '0x1', name: 'Ocean One' }),
+      collection({ contractAddress: '0x2', name: 'Ocean Two' }),
+      collection({ contractAddress: '0x3', name: 'Ocean Three' }),
+      collection({ contractAddress: '0x4', name: 'Desert' }),
+    ];
+
+    expect(matchCollectionsByRules(persona, collections, 2).selectedCollections.map(c => c.contractAddress)).toEqual(['0x1', '0x2']);
+    expect(matchCollectionsByRules(persona, collections, 10).selectedCollections).toHaveLength(3);
+  });
+
+  it('falls back to the most widely held collections when every score is zero', () => {
+    const collections = [
+      collection({ contractAddress: '0x1', name: 'Desert', owners: 5 }),
+      collection({ contractAddress: '0x2', name: 'Forest', owners: 90 }),
+      collection({ contractAddress: '0x3', name: 'Tundra', owners: 40 }),
+    ];
+    const result = matchCollectionsByRules(persona, collections, 2);
+
+    expect(result.curated.every(c => c.score === 0)).toBe(true);
+    expect(result.selectedCollections.map(c => c.contractAddress)).toEqual(['0x2', '0x3']);
+    expect(result.confidence).toBe(0);
+    expect(result.reasoning).toContain('no collection matched');
+  });
+
+  it('handles an empty collection list', () => {
+    const result = matchCollectionsByRules(persona, []);
+
+    expect(result.selectedCollections).toEqual([]);
+    expect(result.confidence).toBe(0);
+  });
+});
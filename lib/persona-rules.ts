@@ -0,0 +1,171 @@
+/**
+ * Deterministic rule-based persona matcher - the fallback when AI curation is unavailable
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { type BuiltInPersonaType, type Collection, type PersonaDefinition } from './collections-data';
+import { type CuratedCollection, type PersonaAnalysisResult } from './ai-service';
+import { DEFAULT_TOP_PICKS } from './curation-schema';
+
+/** Trading activity band derived from transfers in the trailing 7 days */
+export type ActivityLevel = 'high' | 'medium' | 'low';
+
+/** Weekly transfers at or above which activity counts as high / medium */
+const ACTIVITY_THRESHOLDS = { high: 100, medium: 10 };
+
+/** One declarative condition on a collection attribute */
+export type RuleCondition =
+  | { attribute: 'supply'; min?: number; max?: number }
+  | { attribute: 'holderRatio'; min?: number; max?: number } // owners ÷ supply, 0-1
+  | { attribute: 'activity'; levels: ActivityLevel[] }
+  | { attribute: 'keywords'; terms: string[] }; // matched against name, symbol, description and traits
+
+/** A weighted rule; a collection's score is the share of rule weight it satisfies */
+export interface PersonaRule {
+  when: RuleCondition;
+  weight: number;
+  reason: string; // shown as the match rationale
+}
+
+/** Rules per built-in persona - custom personas derive keyword rules from their definition */
+export const PERSONA_RULES: Record<BuiltInPersonaType, PersonaRule[]> = {
+  renegade: [
+    { when: { attribute: 'keywords', terms: ['punk', 'glitch', 'dark', 'rebel', 'riot', 'anarch', 'underground', 'outlaw', 'skull', 'void'] }, weight: 3, reason: 'Signals punk or underground culture' },
+    { when: { attribute: 'supply', max: 1000 }, weight: 2, reason: 'Small supply keeps the community tight-knit' },
+    { when: { attribute: 'activity', levels: ['low', 'medium'] }, weight: 1, reason: 'Flies under the mainstream trading radar' },
+  ],
+  fomo: [
+    { when: { attribute: 'activity', levels: ['high'] }, weight: 3, reason: 'High transfer activity signals momentum' },
+    { when: { attribute: 'keywords', terms: ['hype', 'moon', 'meme', 'pepe', 'degen', 'viral', 'pump', 'rare', 'og', 'pass'] }, weight: 2, reason: 'Carries hype and meme energy' },
+    { when: { attribute: 'supply', min: 2000 }, weight: 1, reason: 'Large supply supports a wide, liquid market' },
+    { when: { attribute: 'holderRatio', min: 0.3 }, weight: 1, reason: 'Broad holder base spreads the buzz' },
+  ],
+  zen: [
+    { when: { attribute: 'keywords', terms: ['zen', 'calm', 'nature', 'garden', 'mind', 'peace', 'minimal', 'bloom', 'flow', 'tree', 'leaf', 'sky', 'ocean'] }, weight: 3, reason: 'Evokes calm, nature or mindfulness' },
+    { when: { attribute: 'holderRatio', min: 0.6 }, weight: 2, reason: 'Widely held rather than concentrated in few wallets' },
+    { when: { attribute: 'activity', levels: ['low'] }, weight: 2, reason: 'Calm trading suits slow appreciation' },
+    { when: { attribute: 'supply', max: 5000 }, weight: 1, reason: 'Measured supply favours intentional collecting' },
+  ],
+  chaos: [
+    { when: { attribute: 'keywords', terms: ['chaos', 'random', 'generative', 'glitch', 'experiment', 'noise', 'fractal', 'wild', 'fragment', 'entropy', 'exe'] }, weight: 3, reason: 'Points to randomness or experimentation' },
+    { when: { attribute: 'activity', levels: ['high', 'medium'] }, weight: 1, reason: 'Active, unpredictable trading' },
+    { when: { attribute: 'supply', min: 5000 }, weight: 1, reason: 'Maximalist supply' },
+  ],
+};
+
+/** Words too generic to act as persona keywords */
+const STOPWORDS = new Set(['with', 'that', 'this', 'from', 'have', 'over', 'into', 'their', 'themes', 'theme', 'concepts', 'style', 'styles', 'collectors', 'collections']);
+
+/** Activity band of a collection, or null when its transfers are unknown */
+export function getActivityLevel(collection: Collection): ActivityLevel | null {
+  const transfers = collection.transfers7d;
+  if (transfers === null || transfers === undefined) return null;
+  return transfers >= ACTIVITY_THRESHOLDS.high ? 'high' : transfers >= ACTIVITY_THRESHOLDS.medium ? 'medium' : 'low';
+}
+
+/** Whether a value sits inside an optional [min, max] band */
+function inBand(value: number | null, min?: number, max?: number): boolean {
+  if (value === null) return false;
+  return (min === undefined || value >= min) && (max === undefined || value <= max);
+}
+
+/**
+ * Evaluates one condition; unknown attributes (no supply, no transfer data) never match
+ */
+export function matchesCondition(collection: Collection, condition: RuleCondition): boolean {
+  switch (condition.attribute) {
+    case 'supply':
+      return inBand(collection.totalSupply, condition.min, condition.max);
+    case 'holderRatio': {
+      const ratio = collection.totalSupply && collection.owners !== null
+        ? Math.min(1, collection.owners / collection.totalSupply)
+        : null;
+      return inBand(ratio, condition.min, condition.max);
+    }
+    case 'activity': {
+      const level = getActivityLevel(collection);
+      return level !== null && condition.levels.includes(level);
+    }
+    case 'keywords': {
+      const traits = Object.entries(collection.traits ?? {}).flat(2).join(' ');
+      const words = `${collection.name ?? ''} ${collection.symbol ?? ''} ${collection.description ?? ''} ${traits}`
+        .toLowerCase()
+        .split(/[^a-z0-9]+/);
+      // Terms match word prefixes, so "punk" finds "punks" but "og" skips "blog"
+      return condition.terms.some(term => words.some(word => word.startsWith(term.toLowerCase())));
+    }
+  }
+}
+
+/**
+ * Rules for a persona: the declarative built-in set, or keyword rules derived from
+ * a custom persona's theme and look-for terms
+ */
+export function getPersonaRules(persona: PersonaDefinition): PersonaRule[] {
+  if (Object.hasOwn(PERSONA_RULES, persona.id)) return PERSONA_RULES[persona.id as BuiltInPersonaType];
+
+  const terms = Array.from(new Set(
+    [persona.theme, ...persona.lookFor]
+      .join(' ')
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(word => word.length >= 4 && !STOPWORDS.has(word))
+  ));
+
+  return terms.length > 0
+    ? [{ when: { attribute: 'keywords', terms }, weight: 1, reason: `Matches ${persona.title} themes` }]
+    : [];
+}
+
+/**
+ * Scores one collection 0-100 as the share of rule weight it satisfies
+ */
+export function scoreCollection(collection: Collection, rules: PersonaRule[]): CuratedCollection {
+  const totalWeight = rules.reduce((sum, rule) => sum + rule.weight, 0);
+  const matched = rules.filter(rule => matchesCondition(collection, rule.when));
+  const matchedWeight = matched.reduce((sum, rule) => sum + rule.weight, 0);
+
+  return {
+    collection,
+    score: totalWeight > 0 ? Math.round((matchedWeight / totalWeight) * 100) : 0,
+    rationale: matched.length > 0 ? `${matched.map(rule => rule.reason).join('. ')}.` : 'No persona rules matched',
+  };
+}
+
+/**
+ * Ranks every collection against the persona's rules
+ * Ties break on owners, then contract address, so equal inputs always give equal output
+ */
+export function matchCollectionsByRules(
+  persona: PersonaDefinition,
+  collections: Collection[],
+  topPicks = DEFAULT_TOP_PICKS
+): PersonaAnalysisResult {
+  const rules = getPersonaRules(persona);
+  const curated = collections
+    .map(collection => scoreCollection(collection, rules))
+    .sort((a, b) =>
+      b.score - a.score ||
+      (b.collection.owners ?? 0) - (a.collection.owners ?? 0) ||
+      a.collection.contractAddress.localeCompare(b.collection.contractAddress)
+    );
+
+  const matched = curated.filter(c => c.score > 0);
+  const picks = (matched.length > 0 ? matched : curated).slice(0, topPicks);
+  const meanScore = picks.length > 0 ? picks.reduce((sum, c) => sum + c.score, 0) / picks.length : 0;
+
+  return {
+    selectedCollections: picks.map(c => c.collection),
+    curated,
+    mode: 'rank',
+    reasoning: matched.length > 0
+      ? `AI curation is unavailable, so these picks come from the ${persona.title} rules: supply band, holder spread, weekly trading activity and metadata keywords.`
+      : `AI curation is unavailable and no collection matched the ${persona.title} rules, so these are the most widely held collections.`,
+    confidence: Math.round((meanScore / 100) * 0.5 * 100) / 100,
+    source: 'rules',
+  };
+}
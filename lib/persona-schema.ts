@@ -0,0 +1,35 @@
+/**
+ * Validation schema for user-defined personas (shared by API and editor form)
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { z } from 'zod';
+
+/** Editable persona fields - id and builtIn flag are assigned by the registry */
+export const personaInputSchema = z.object({
+  title: z.string().trim().min(2, 'Title is required').max(32),
+  emoji: z.string().trim().min(1, 'Emoji is required').max(8),
+  description: z.string().trim().min(3, 'Description is required').max(80),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex value like #8b5cf6'),
+  theme: z.string().trim().min(3, 'Theme is required').max(200),
+  criteria: z.array(z.string().trim().min(1).max(200)).min(1, 'Add at least one criterion').max(10),
+  lookFor: z.array(z.string().trim().min(1).max(60)).min(1, 'Add at least one keyword').max(15),
+});
+
+/** Validated persona input */
+export type PersonaInput = z.infer<typeof personaInputSchema>;
+
+/**
+ * Derives a registry id from a persona title ("Pixel Purist" → "pixel-purist")
+ */
+export function slugifyPersonaTitle(title: string): string {
+  return title
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
@@ -0,0 +1,73 @@
+/**
+ * Unit tests for the public-host download guard
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { createServer, type Server } from 'http';
+import { type AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { fetchPublicResource, isPublicAddress } from './public-fetch';
+
+const LIMITS = { timeoutMs: 2000, maxBytes: 1024 };
+
+describe('isPublicAddress', () => {
+  it('accepts public IPv4 and IPv6 addresses', () => {
+    for (const address of ['8.8.8.8', '104.16.0.1', '2606:4700::1111']) {
+      expect(isPublicAddress(address)).toBe(true);
+    }
+  });
+
+  it('rejects private, loopback, link-local, CGNAT and multicast IPv4', () => {
+    for (const address of ['10.1.2.3', '172.16.0.1', '172.31.255.255', '192.168.1.1', '127.0.0.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '224.0.0.1', '255.255.255.255']) {
+      expect(isPublicAddress(address)).toBe(false);
+    }
+  });
+
+  it('rejects loopback, unique-local, link-local and IPv4-mapped private IPv6', () => {
+    for (const address of ['::1', '::', 'fd00::1', 'fe80::1', 'ff02::1', '::ffff:127.0.0.1', '::ffff:a9fe:a9fe']) {
+      expect(isPublicAddress(address)).toBe(false);
+    }
+  });
+
+  it('rejects anything that is not an IP literal', () => {
+    expect(isPublicAddress('localhost')).toBe(false);
+  });
+});
+
+describe('fetchPublicResource', () => {
+  let server: Server;
+  let port: number;
+  let hits = 0;
+
+  beforeAll(async () => {
+    server = createServer((_req, res) => {
+      hits++;
+      res.end('internal');
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  it('refuses loopback IP literals without connecting', async () => {
+    await expect(fetchPublicResource(`http://127.0.0.1:${port}/image.png`, LIMITS)).rejects.toThrow('non-public');
+    await expect(fetchPublicResource(`http://[::ffff:127.0.0.1]:${port}/image.png`, LIMITS)).rejects.toThrow('non-public');
+    expect(hits).toBe(0);
+  });
+
+  it('refuses hostnames that resolve to a private address', async () => {
+    await expect(fetchPublicResource(`http://localhost:${port}/image.png`, LIMITS)).rejects.toThrow('non-public');
+    expect(hits).toBe(0);
+  });
+
+  it('refuses non-http protocols', async () => {
+    await expect(fetchPublicResource('file:///etc/passwd', LIMITS)).rejects.toThrow('Unsupported protocol');
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Guarded downloads of untrusted URLs (token metadata artwork) - public hosts only
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { lookup } from 'dns';
+import http, { type IncomingMessage } from 'http';
+import https from 'https';
+import { BlockList, isIP, type LookupFunction } from 'net';
+
+/** Redirect hops followed per download, each re-checked */
+const MAX_REDIRECTS = 3;
+
+/**
+ * Non-public address ranges: private, loopback, link-local, CGNAT, documentation,
+ * benchmarking, multicast and reserved; IPv4-mapped IPv6 addresses match the IPv4 rules
+ */
+const NON_PUBLIC = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15],
+  ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  NON_PUBLIC.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['100::', 64], ['2001:db8::', 32],
+  ['2002::', 16], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  NON_PUBLIC.addSubnet(network, prefix, 'ipv6');
+}
+
+/** Download limits */
+export interface PublicFetchOptions {
+  timeoutMs: number;
+  maxBytes: number;
+}
+
+/**
+ * True for a literal IP address outside every non-public range
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return false;
+  return !NON_PUBLIC.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * DNS lookup that fails when any resolved address is non-public
+ * Runs at connect time, so a host cannot re-resolve to a private address after the check
+ */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '');
+
+    const blocked = addresses.find(entry => !isPublicAddress(entry.address));
+    if (blocked || addresses.length === 0) {
+      return callback(new Error(`Refusing non-public address for ${hostname}`), '');
+    }
+
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+/**
+ * Rejects anything but http(s) URLs, and hosts given as a non-public IP literal
+ * Hostnames are checked when they resolve (see publicLookup)
+ */
+function assertPublicUrl(url: URL): void {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`Unsupported protocol ${url.protocol}`);
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host) && !isPublicAddress(host)) {
+    throw new Error(`Refusing non-public address ${host}`);
+  }
+}
+
+/**
+ * Sends one GET without following redirects
+ */
+function requestOnce(url: URL, signal: AbortSignal): Promise<IncomingMessage> {
+  return new Promise((resolve, reject) => {
+    const client = url.protocol === 'https:' ? https : http;
+    client.get(url, { lookup: publicLookup, signal }, resolve).on('error', reject);
+  });
+}
+
+/**
+ * Reads a response body, aborting as soon as it passes `maxBytes`
+ */
+async function readBody(response: IncomingMessage, maxBytes: number): Promise<Buffer> {
+  const declared = Number(response.headers['content-length'] || 0);
+  if (declared > maxBytes) {
+    response.destroy();
+    throw new Error(`Response too large (${declared} bytes)`);
+  }
+
+  const chunks: Buffer[] = [];
+  let received = 0;
+  for await (const chunk of response) {
+    received += chunk.length;
+    if (received > maxBytes) {
+      response.destroy();
+      throw new Error(`Response too large (over ${maxBytes} bytes)`);
+    }
+    chunks.push(chunk);
+  }
+
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Downloads an untrusted http(s) URL from public hosts only
+ * Redirects are followed manually and every hop is re-checked; the timeout covers the whole download
+ */
+export async function fetchPublicResource(source: string, { timeoutMs, maxBytes }: PublicFetchOptions): Promise<Buffer> {
+  const signal = AbortSignal.timeout(timeoutMs);
+  let url = new URL(source);
+
+  for (let hop = 0; ; hop++) {
+    assertPublicUrl(url);
+    const response = await requestOnce(url, signal);
+    const status = response.statusCode ?? 0;
+
+    if (status >= 300 && status < 400 && response.headers.location) {
+      response.resume();
+      if (hop >= MAX_REDIRECTS) throw new Error(`Too many redirects (${MAX_REDIRECTS})`);
+      url = new URL(response.headers.location, url);
+      continue;
+    }
+
+    if (status < 200 || status >= 300) {
+      response.resume();
+      throw new Error(`HTTP ${status}`);
+    }
+
+    return readBody(response, maxBytes);
+  }
+}
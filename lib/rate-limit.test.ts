@@ -0,0 +1,60 @@
+/**
+ * Unit tests for rate limit client identification
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { NextRequest } from 'next/server';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createRateLimiter, getClientId } from './rate-limit';
+
+/** Builds a request carrying the given forwarding headers */
+function request(headers: Record<string, string>): NextRequest {
+  return new NextRequest('http://localhost/api/sales/0x0', { headers });
+}
+
+describe('getClientId', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('ignores forwarding headers without a trusted proxy', () => {
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '');
+
+    expect(getClientId(request({ 'x-forwarded-for': '1.2.3.4' }))).toBe('anonymous');
+    expect(getClientId(request({ 'x-real-ip': '1.2.3.4' }))).toBe('anonymous');
+  });
+
+  it('takes the address recorded by the trusted proxy, not spoofed entries before it', () => {
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '1');
+
+    expect(getClientId(request({ 'x-forwarded-for': '6.6.6.6, 203.0.113.7' }))).toBe('203.0.113.7');
+  });
+
+  it('counts back one entry per trusted proxy', () => {
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '2');
+
+    expect(getClientId(request({ 'x-forwarded-for': '6.6.6.6, 203.0.113.7, 10.0.0.2' }))).toBe('203.0.113.7');
+  });
+
+  it('falls back to the shared key when the header has fewer entries than trusted hops', () => {
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '2');
+
+    expect(getClientId(request({ 'x-forwarded-for': '203.0.113.7' }))).toBe('anonymous');
+    expect(getClientId(request({}))).toBe('anonymous');
+  });
+});
+
+describe('createRateLimiter', () => {
+  it('allows `limit` requests per client and window', () => {
+    const check = createRateLimiter(2, 60_000);
+
+    expect(check('a').allowed).toBe(true);
+    expect(check('a').allowed).toBe(true);
+    expect(check('a')).toMatchObject({ allowed: false, remaining: 0 });
+    expect(check('b').allowed).toBe(true);
+  });
+});
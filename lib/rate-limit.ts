@@ -0,0 +1,77 @@
+/**
+ * Fixed-window per-client rate limiting for API routes
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { type NextRequest } from 'next/server';
+
+/** Outcome of a rate limit check */
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number;
+}
+
+/** Requests counted for one client in the current window */
+interface WindowCounter {
+  count: number;
+  resetAt: number;
+}
+
+/** Windows are swept once the table grows past this many clients */
+const SWEEP_THRESHOLD = 1000;
+
+/**
+ * Creates a limiter allowing `limit` requests per client every `windowMs`
+ * State is per server process - enough for a single-instance deployment
+ */
+export function createRateLimiter(limit: number, windowMs: number) {
+  const windows = new Map<string, WindowCounter>();
+
+  return (clientId: string): RateLimitResult => {
+    const now = Date.now();
+
+    if (windows.size > SWEEP_THRESHOLD) {
+      for (const [key, window] of windows) {
+        if (window.resetAt <= now) windows.delete(key);
+      }
+    }
+
+    let window = windows.get(clientId);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs };
+      windows.set(clientId, window);
+    }
+
+    window.count++;
+    return {
+      allowed: window.count <= limit,
+      remaining: Math.max(0, limit - window.count),
+      retryAfterSeconds: Math.ceil((window.resetAt - now) / 1000),
+    };
+  };
+}
+
+/** Key shared by every caller when no trusted proxy identifies them */
+const SHARED_CLIENT_ID = 'anonymous';
+
+/**
+ * Identifies the calling client by the address its trusted proxy recorded
+ * TRUSTED_PROXY_HOPS counts the proxies that append to x-forwarded-for; entries before them
+ * are client-supplied, so the client is the entry that many hops from the end. Without the
+ * setting forwarding headers are ignored and all callers share one budget
+ */
+export function getClientId(request: NextRequest): string {
+  const trustedHops = Number(process.env.TRUSTED_PROXY_HOPS || 0);
+  if (!Number.isInteger(trustedHops) || trustedHops <= 0) return SHARED_CLIENT_ID;
+
+  const hops = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map(hop => hop.trim())
+    .filter(Boolean);
+  return hops[hops.length - trustedHops] || SHARED_CLIENT_ID;
+}
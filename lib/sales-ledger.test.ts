@@ -0,0 +1,46 @@
+/**
+ * Unit tests for the sales ledger scan budget
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { describe, expect, it } from 'vitest';
+import { planSalesScan, type ScanTransaction } from './sales-ledger';
+
+/** Builds one transaction per listed block number, oldest first */
+function transactions(...blocks: number[]): ScanTransaction[] {
+  return blocks.map((blockNumber, i) => ({ hash: `0x${i}`, blockNumber, timestamp: '2025-01-01T00:00:00Z' }));
+}
+
+describe('planSalesScan', () => {
+  it('takes everything within the budget and keeps the range end', () => {
+    const scan = planSalesScan(transactions(10, 11, 12), 50, 3);
+
+    expect(scan.transactions.map(t => t.hash)).toEqual(['0x0', '0x1', '0x2']);
+    expect(scan.scannedTo).toBe(50);
+  });
+
+  it('keeps the oldest transactions and resumes after the last decoded block', () => {
+    const scan = planSalesScan(transactions(10, 11, 12, 13, 14), 50, 3);
+
+    expect(scan.transactions.map(t => t.blockNumber)).toEqual([10, 11, 12]);
+    expect(scan.scannedTo).toBe(12);
+  });
+
+  it('never splits a block across syncs', () => {
+    const scan = planSalesScan(transactions(10, 11, 12, 12, 13), 50, 3);
+
+    expect(scan.transactions.map(t => t.blockNumber)).toEqual([10, 11]);
+    expect(scan.scannedTo).toBe(11);
+  });
+
+  it('takes a single block over budget in full', () => {
+    const scan = planSalesScan(transactions(10, 10, 10, 10, 11), 50, 3);
+
+    expect(scan.transactions.map(t => t.blockNumber)).toEqual([10, 10, 10, 10]);
+    expect(scan.scannedTo).toBe(10);
+  });
+});
@@ -0,0 +1,286 @@
+/**
+ * Per-collection sales ledger built from decoded marketplace settlements
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { Alchemy, Network, SortingOrder, type AssetTransfersWithMetadataResult } from 'alchemy-sdk';
+import { ANALYTICS_WINDOWS, findBlockByTimestamp } from './block-windows';
+import { decodeMarketplaceSales, type DecodedSale } from './marketplace-decoder';
+import { readJsonFile, writeJsonFile } from './json-store';
+import { NFT_TRANSFER_CATEGORIES } from './token-transfers';
+
+/** Ledger file name inside the data directory */
+const LEDGER_FILE = 'sales-ledger.json';
+
+/** Alchemy SDK instance for server-side sale scans */
+const alchemy = new Alchemy({
+  apiKey: process.env.ALCHEMY_API_KEY || process.env.NEXT_PUBLIC_ALCHEMY_KEY,
+  network: Network.SHAPE_MAINNET,
+});
+
+/** Sales older than this are pruned from the ledger */
+const RETENTION_DAYS = 90;
+
+/** Days charted in the floor history series */
+const FLOOR_HISTORY_DAYS = 30;
+
+/** Scan budget per sync - a backlog larger than the budget is caught up over several syncs */
+const MAX_TRANSFER_PAGES = 10;
+const MAX_SCANNED_TRANSACTIONS = 300;
+const RECEIPT_BATCH_SIZE = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+/** One priced sale in the ledger */
+export interface SaleRecord extends DecodedSale {
+  txHash: string;
+  blockNumber: number;
+  timestamp: string; // ISO
+}
+
+/** Lowest sale and activity for one UTC day */
+export interface FloorPoint {
+  date: string; // YYYY-MM-DD
+  floor: number | null; // ETH, null on days without sales
+  sales: number;
+  volume: number; // ETH
+}
+
+/** Price statistics derived from the ledger */
+export interface SalesSummary {
+  contractAddress: string;
+  salesCount30d: number;
+  floorPrice: number | null; // lowest sale in the trailing 7 days (30 days if none)
+  volume30d: number;
+  medianSale30d: number | null;
+  lastSaleAt: string | null;
+  floorHistory: FloorPoint[];
+  updatedAt: string;
+}
+
+/** Ledger state for one contract */
+interface LedgerEntry {
+  lastScannedBlock: number;
+  sales: SaleRecord[];
+  updatedAt: string;
+}
+
+type LedgerDocument = Record<string, LedgerEntry>;
+
+/** A traded transaction awaiting receipt decoding */
+export interface ScanTransaction {
+  hash: string;
+  blockNumber: number;
+  timestamp: string;
+}
+
+/** Serializes read-modify-write cycles on the shared ledger file */
+let ledgerQueue: Promise<unknown> = Promise.resolve();
+
+/** Syncs in flight per contract, shared by concurrent requests */
+const syncInFlight = new Map<string, Promise<SaleRecord[]>>();
+
+/**
+ * Runs an update against the ledger document with exclusive access
+ */
+function updateLedger<T>(update: (ledger: LedgerDocument) => Promise<T>): Promise<T> {
+  const run = ledgerQueue.then(async () => {
+    const ledger = await readJsonFile<LedgerDocument>(LEDGER_FILE, {});
+    const result = await update(ledger);
+    await writeJsonFile(LEDGER_FILE, ledger);
+    return result;
+  });
+  ledgerQueue = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Fetches transfers of a contract within a block range (paginated)
+ * When the page cap is hit, the range is cut before the last partially read block
+ */
+async function fetchTransfersInRange(contractAddress: string, fromBlock: number, toBlock: number) {
+  const transfers: AssetTransfersWithMetadataResult[] = [];
+  let pageKey: string | undefined;
+
+  for (let page = 0; page < MAX_TRANSFER_PAGES; page++) {
+    const response = await alchemy.core.getAssetTransfers({
+      contractAddresses: [contractAddress],
+      category: NFT_TRANSFER_CATEGORIES,
+      fromBlock: `0x${fromBlock.toString(16)}`,
+      toBlock: `0x${toBlock.toString(16)}`,
+      order: SortingOrder.ASCENDING,
+      withMetadata: true,
+      pageKey,
+    });
+    transfers.push(...response.transfers);
+    pageKey = response.pageKey;
+    if (!pageKey) return { transfers, scannedTo: toBlock };
+  }
+
+  const lastBlock = parseInt(transfers[transfers.length - 1].blockNum, 16);
+  const complete = transfers.filter(t => parseInt(t.blockNum, 16) < lastBlock);
+
+  // A single block larger than the page budget is accepted as read
+  if (complete.length === 0) return { transfers, scannedTo: lastBlock };
+
+  return { transfers: complete, scannedTo: lastBlock - 1 };
+}
+
+/**
+ * Takes the oldest transactions (ascending by block) that fit the scan budget
+ * The batch ends on a whole block and `scannedTo` moves back to it, so the next sync
+ * resumes with the first transaction left out; a single block over budget is taken in full
+ */
+export function planSalesScan(
+  transactions: ScanTransaction[],
+  scannedTo: number,
+  limit = MAX_SCANNED_TRANSACTIONS
+): { transactions: ScanTransaction[]; scannedTo: number } {
+  if (transactions.length <= limit) return { transactions, scannedTo };
+
+  const cutBlock = transactions[limit].blockNumber;
+  const batch = transactions.filter(t => t.blockNumber < cutBlock);
+
+  if (batch.length === 0) {
+    return { transactions: transactions.filter(t => t.blockNumber === cutBlock), scannedTo: cutBlock };
+  }
+
+  return { transactions: batch, scannedTo: batch[batch.length - 1].blockNumber };
+}
+
+/**
+ * Decodes marketplace sales from the receipts of the given transfers
+ * Returns the last block whose transactions were all decoded
+ */
+async function decodeSalesFromTransfers(
+  contractAddress: string,
+  transfers: AssetTransfersWithMetadataResult[],
+  scannedTo: number
+): Promise<{ sales: SaleRecord[]; scannedTo: number }> {
+  // Mints never settle through a marketplace
+  const trades = transfers.filter(t => t.from.toLowerCase() !== ZERO_ADDRESS);
+  const txMeta = new Map(trades.map(t => [t.hash, { blockNumber: parseInt(t.blockNum, 16), timestamp: t.metadata.blockTimestamp }]));
+  const scan = planSalesScan(Array.from(txMeta, ([hash, meta]) => ({ hash, ...meta })), scannedTo);
+  const hashes = scan.transactions.map(t => t.hash);
+
+  if (txMeta.size > hashes.length) {
+    console.warn(`⚠️ Sales scan for ${contractAddress} limited to the oldest ${hashes.length} of ${txMeta.size} transactions, resuming after block ${scan.scannedTo}`);
+  }
+
+  const sales: SaleRecord[] = [];
+  for (let i = 0; i < hashes.length; i += RECEIPT_BATCH_SIZE) {
+    const receipts = await Promise.all(
+      hashes.slice(i, i + RECEIPT_BATCH_SIZE).map(hash => alchemy.core.getTransactionReceipt(hash).catch(() => null))
+    );
+
+    for (const receipt of receipts) {
+      if (!receipt) continue;
+      const meta = txMeta.get(receipt.transactionHash)!;
+      for (const sale of decodeMarketplaceSales(receipt.logs, contractAddress)) {
+        sales.push({ ...sale, txHash: receipt.transactionHash, ...meta });
+      }
+    }
+  }
+
+  return { sales, scannedTo: scan.scannedTo };
+}
+
+/**
+ * Brings a contract's ledger up to the chain head and returns its sales
+ * The first sync backfills the trailing 30 days; later syncs scan only new blocks
+ */
+export function syncSalesLedger(contractAddress: string): Promise<SaleRecord[]> {
+  const key = contractAddress.toLowerCase();
+  const inFlight = syncInFlight.get(key);
+  if (inFlight) return inFlight;
+
+  const sync = (async () => {
+    const existing = (await readJsonFile<LedgerDocument>(LEDGER_FILE, {}))[key];
+    const latestBlock = await alchemy.core.getBlockNumber();
+
+    const fromBlock = existing
+      ? existing.lastScannedBlock + 1
+      : await findBlockByTimestamp(alchemy, Math.floor(Date.now() / 1000) - ANALYTICS_WINDOWS['30d']);
+
+    if (existing && fromBlock > latestBlock) return existing.sales;
+
+    console.log(`🧾 Scanning ${key} sales from block ${fromBlock}...`);
+    const { transfers, scannedTo } = await fetchTransfersInRange(contractAddress, fromBlock, latestBlock);
+    const decoded = await decodeSalesFromTransfers(contractAddress, transfers, scannedTo);
+    const newSales = decoded.sales;
+
+    return updateLedger(async ledger => {
+      const cutoff = Date.now() - RETENTION_DAYS * DAY_MS;
+      const sales = [...(ledger[key]?.sales ?? []), ...newSales]
+        .filter(sale => Date.parse(sale.timestamp) >= cutoff);
+
+      ledger[key] = { lastScannedBlock: decoded.scannedTo, sales, updatedAt: new Date().toISOString() };
+      console.log(`✅ Sales ledger for ${key}: ${newSales.length} new, ${sales.length} retained`);
+      return sales;
+    });
+  })();
+
+  syncInFlight.set(key, sync);
+  sync.finally(() => syncInFlight.delete(key)).catch(() => undefined);
+  return sync;
+}
+
+/** Median of a non-empty list */
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/** Rounds an ETH amount for display */
+function roundEth(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * Derives floor, volume, median and a daily floor series from ledger sales
+ */
+export function summarizeSales(contractAddress: string, sales: SaleRecord[], now = Date.now()): SalesSummary {
+  const within = (days: number) => sales.filter(sale => Date.parse(sale.timestamp) >= now - days * DAY_MS);
+  const sales30d = within(30);
+  const sales7d = within(7);
+  const floorSource = sales7d.length > 0 ? sales7d : sales30d;
+
+  const floorHistory: FloorPoint[] = [];
+  for (let day = FLOOR_HISTORY_DAYS - 1; day >= 0; day--) {
+    const date = new Date(now - day * DAY_MS).toISOString().slice(0, 10);
+    const daySales = sales30d.filter(sale => sale.timestamp.slice(0, 10) === date);
+    floorHistory.push({
+      date,
+      floor: daySales.length > 0 ? roundEth(Math.min(...daySales.map(sale => sale.price))) : null,
+      sales: daySales.length,
+      volume: roundEth(daySales.reduce((sum, sale) => sum + sale.price * sale.quantity, 0)),
+    });
+  }
+
+  const latest = sales.reduce<string | null>((max, sale) => (!max || sale.timestamp > max ? sale.timestamp : max), null);
+
+  return {
+    contractAddress,
+    salesCount30d: sales30d.length,
+    floorPrice: floorSource.length > 0 ? roundEth(Math.min(...floorSource.map(sale => sale.price))) : null,
+    volume30d: roundEth(sales30d.reduce((sum, sale) => sum + sale.price * sale.quantity, 0)),
+    medianSale30d: sales30d.length > 0 ? roundEth(median(sales30d.map(sale => sale.price))) : null,
+    lastSaleAt: latest,
+    floorHistory,
+    updatedAt: new Date(now).toISOString(),
+  };
+}
+
+/**
+ * Syncs the ledger and returns its price summary
+ */
+export async function getSalesSummary(contractAddress: string): Promise<SalesSummary> {
+  const sales = await syncSalesLedger(contractAddress);
+  return summarizeSales(contractAddress, sales);
+}
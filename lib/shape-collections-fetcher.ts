@@ -9,16 +9,20 @@
 
 import { Alchemy, Network } from 'alchemy-sdk';
 import type { Collection } from './collections-data';
+import { NFT_TRANSFER_CATEGORIES, normalizeTokenId, toTokenStandard } from './token-transfers';
+import { ANALYTICS_WINDOWS, findBlockByTimestamp } from './block-windows';
+import { buildTraitSchema, readTokenAttributes } from './token-traits';
 
 /** Alchemy SDK instance configured for Shape Network mainnet */
 const alchemy = new Alchemy({
-  apiKey: process.env.NEXT_PUBLIC_ALCHEMY_KEY || process.env.ALCHEMY_API_KEY,
+  apiKey: process.env.ALCHEMY_API_KEY || process.env.NEXT_PUBLIC_ALCHEMY_KEY,
   network: Network.SHAPE_MAINNET, // Shape Network mainnet
 });
 
 /**
  * Curated Shape Network collection contracts from actual ecosystem projects
  * 16 verified NFT collections deployed on Shape Network mainnet
+ * Seeds the collection registry; discovered contracts are added alongside them
  */
 export const SHAPE_COLLECTION_CONTRACTS = [
   "0x6E148B55e4Cd30Ea6727d7E0661c3918A6C4E9Db", // Almost Normal
@@ -39,6 +43,74 @@ export const SHAPE_COLLECTION_CONTRACTS = [
   "0x758bb513346939825a2094a1d4fbd9135514d67e", // Fragmented Order
 ];
 
+/** Owner pages read when tallying holders and per-token supply */
+const MAX_OWNER_PAGES = 10;
+
+/** Transfers counted per collection for its 7-day activity (a single page) */
+const RECENT_TRANSFER_CAP = 1000;
+
+/** Token images kept per collection for cards and vision prompts */
+const SAMPLE_IMAGE_COUNT = 4;
+
+/** Holder count and per-token-id supply tallied from owner balances */
+interface OwnershipTally {
+  owners: number;
+  tokenSupply: Record<string, number>;
+}
+
+/**
+ * Tallies unique owners and per-token-id supply (paginated)
+ * ERC-1155 balances carry quantities; ERC-721 balances are always 1
+ */
+async function fetchOwnershipTally(contractAddress: string): Promise<OwnershipTally> {
+  const tokenSupply: Record<string, number> = {};
+  let owners = 0;
+  let pageKey: string | undefined;
+
+  for (let page = 0; page < MAX_OWNER_PAGES; page++) {
+    const response = await alchemy.nft.getOwnersForContract(contractAddress, { withTokenBalances: true, pageKey });
+    for (const owner of response.owners) {
+      owners++;
+      for (const { tokenId, balance } of owner.tokenBalances) {
+        const id = normalizeTokenId(tokenId);
+        tokenSupply[id] = (tokenSupply[id] ?? 0) + Number(balance);
+      }
+    }
+    pageKey = response.pageKey;
+    if (!pageKey) break;
+  }
+
+  return { owners, tokenSupply };
+}
+
+/**
+ * Counts NFT transfers in the trailing 7 days, capped at RECENT_TRANSFER_CAP
+ */
+async function fetchRecentTransferCount(contractAddress: string): Promise<number> {
+  const fromBlock = await findBlockByTimestamp(alchemy, Math.floor(Date.now() / 1000) - ANALYTICS_WINDOWS['7d']);
+  const response = await alchemy.core.getAssetTransfers({
+    contractAddresses: [contractAddress],
+    category: NFT_TRANSFER_CATEGORIES,
+    fromBlock: `0x${fromBlock.toString(16)}`,
+    maxCount: RECENT_TRANSFER_CAP,
+  });
+  return response.transfers.length;
+}
+
+/**
+ * Resolves the contract deployment block to an ISO date, null when unknown
+ */
+async function fetchDeploymentDate(blockNumber: number | undefined): Promise<string | null> {
+  if (!blockNumber) return null;
+  try {
+    const block = await alchemy.core.getBlock(blockNumber);
+    return new Date(block.timestamp * 1000).toISOString();
+  } catch (error) {
+    console.warn(`⚠️ Deployment block ${blockNumber} unavailable:`, error);
+    return null;
+  }
+}
+
 /**
  * Tests connectivity to Shape Network via Alchemy SDK
  * Validates API key and network accessibility
@@ -66,27 +138,51 @@ export async function fetchCollectionData(contractAddress: string): Promise<Coll
   try {
     console.log(`Fetching data for collection: ${contractAddress}`);
 
-    // Fetch collection metadata and owners in parallel
-    const [nftsResponse, ownersResponse] = await Promise.allSettled([
+    // Fetch contract metadata, sample NFTs, ownership and recent activity in parallel
+    const [contractResponse, nftsResponse, ownershipResponse, transfersResponse] = await Promise.allSettled([
+      alchemy.nft.getContractMetadata(contractAddress),
       alchemy.nft.getNftsForContract(contractAddress, {
-        pageSize: 10, // Just need metadata, not all NFTs
+        pageSize: 10, // A sample for images and the trait schema, not all NFTs
         omitMetadata: false,
       }),
-      alchemy.nft.getOwnersForContract(contractAddress),
+      fetchOwnershipTally(contractAddress),
+      fetchRecentTransferCount(contractAddress),
     ]);
 
     // Handle potential API failures gracefully
+    const contractData = contractResponse.status === 'fulfilled' ? contractResponse.value : null;
     const nftsData = nftsResponse.status === 'fulfilled' ? nftsResponse.value : null;
-    const ownersData = ownersResponse.status === 'fulfilled' ? ownersResponse.value : null;
+    const ownership = ownershipResponse.status === 'fulfilled' ? ownershipResponse.value : null;
+    const transfers7d = transfersResponse.status === 'fulfilled' ? transfersResponse.value : null;
 
     // Extract collection metadata
     const firstNft = nftsData?.nfts?.[0];
-    const collectionName = firstNft?.contract?.name || null;
-    const collectionSymbol = firstNft?.contract?.symbol || null;
-    const totalSupply = firstNft?.contract?.totalSupply ? parseInt(firstNft.contract.totalSupply) : null;
-    
+    const contract = contractData ?? firstNft?.contract;
+    const collectionName = contract?.name || null;
+    const collectionSymbol = contract?.symbol || null;
+    const standard = toTokenStandard(contract?.tokenType);
+
+    // ERC-1155 contracts rarely report totalSupply - sum the per-token supply instead
+    const heldSupply = ownership ? Object.values(ownership.tokenSupply).reduce((sum, supply) => sum + supply, 0) : null;
+    const totalSupply = contract?.totalSupply
+      ? parseInt(contract.totalSupply)
+      : standard === 'erc1155' ? heldSupply : null;
+
     // Count unique owners
-    const uniqueOwners = ownersData?.owners ? ownersData.owners.length : null;
+    const uniqueOwners = ownership ? ownership.owners : null;
+
+    // Contract-level metadata: OpenSea's collection record first, token metadata as fallback
+    const openSea = contract?.openSeaMetadata;
+    const sampleNfts = nftsData?.nfts ?? [];
+    const description = openSea?.description || firstNft?.description || null;
+    const homepage = openSea?.externalUrl || firstNft?.collection?.externalUrl || firstNft?.raw?.metadata?.external_url;
+    const externalUrl = typeof homepage === 'string' && /^https?:\/\//i.test(homepage) ? homepage : null;
+    const mintedAt = await fetchDeploymentDate(contract?.deployedBlockNumber);
+    const sampleImages = sampleNfts
+      .map(nft => nft.image?.thumbnailUrl || nft.image?.cachedUrl || nft.image?.originalUrl)
+      .filter((url): url is string => Boolean(url))
+      .slice(0, SAMPLE_IMAGE_COUNT);
+    const traits = buildTraitSchema(sampleNfts.map(nft => readTokenAttributes(nft.raw?.metadata)));
     
     // Get collection image (use first NFT image or placeholder)
     const collectionImage = firstNft?.image?.originalUrl || 
@@ -101,14 +197,27 @@ export async function fetchCollectionData(contractAddress: string): Promise<Coll
       contractAddress,
       name: collectionName,
       symbol: collectionSymbol,
+      standard,
       totalSupply,
+      ...(standard === 'erc1155' && ownership ? { tokenSupply: ownership.tokenSupply } : {}),
       owners: uniqueOwners,
+      transfers7d,
       image: collectionImage,
       openSeaUrl,
-      originalUrl
+      originalUrl,
+      description,
+      externalUrl,
+      creator: contract?.contractDeployer?.toLowerCase() || null,
+      socials: {
+        ...(openSea?.twitterUsername ? { twitter: openSea.twitterUsername.replace(/^@/, '') } : {}),
+        ...(openSea?.discordUrl ? { discord: openSea.discordUrl } : {}),
+      },
+      mintedAt,
+      sampleImages,
+      traits
     };
 
-    console.log(`✅ Fetched: ${collectionName} (${collectionSymbol}) - ${totalSupply} supply, ${uniqueOwners} owners`);
+    console.log(`✅ Fetched: ${collectionName} (${collectionSymbol}, ${standard ?? 'unknown standard'}) - ${totalSupply} supply, ${uniqueOwners} owners`);
     
     return collection;
 
@@ -130,21 +239,23 @@ export async function fetchCollectionData(contractAddress: string): Promise<Coll
 }
 
 /**
- * Fetches all 16 curated Shape Network collections with progress tracking
+ * Fetches all approved Shape Network collections with progress tracking
+ * Defaults to the curated seed list when no registry contracts are supplied
  * Processes collections sequentially with rate limiting to avoid API throttling
  */
 export async function fetchAllShapeCollections(
-  onProgress?: (progress: number, status: string) => void
+  onProgress?: (progress: number, status: string) => void,
+  contracts: string[] = SHAPE_COLLECTION_CONTRACTS
 ): Promise<Collection[]> {
   const collections: Collection[] = [];
-  const totalContracts = SHAPE_COLLECTION_CONTRACTS.length;
+  const totalContracts = contracts.length;
 
   console.log(`🚀 Fetching ${totalContracts} Shape Network collections...`);
   
   onProgress?.(0, 'Starting collection fetch...');
 
-  for (let i = 0; i < SHAPE_COLLECTION_CONTRACTS.length; i++) {
-    const contractAddress = SHAPE_COLLECTION_CONTRACTS[i];
+  for (let i = 0; i < contracts.length; i++) {
+    const contractAddress = contracts[i];
     const progress = Math.round((i / totalContracts) * 100);
     
     onProgress?.(progress, `Fetching collection ${i + 1}/${totalContracts}...`);
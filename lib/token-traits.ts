@@ -0,0 +1,66 @@
+/**
+ * Token attribute parsing and trait schema extraction from NFT metadata
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { type TraitSchema } from './collections-data';
+
+/** One trait on one token */
+export interface TokenAttribute {
+  traitType: string;
+  value: string;
+}
+
+/** Distinct values kept per trait in a collection's schema */
+const MAX_SCHEMA_VALUES = 12;
+
+/** Traits kept in a collection's schema */
+const MAX_SCHEMA_TRAITS = 20;
+
+/**
+ * Reads the attributes array of token metadata (OpenSea convention)
+ * Tolerates missing trait types, numeric values and non-array payloads
+ */
+export function readTokenAttributes(metadata: Record<string, unknown> | undefined): TokenAttribute[] {
+  const attributes = metadata?.attributes;
+  if (!Array.isArray(attributes)) return [];
+
+  return attributes
+    .filter((attribute): attribute is Record<string, unknown> => typeof attribute === 'object' && attribute !== null)
+    .map(attribute => ({
+      traitType: String(attribute.trait_type ?? attribute.traitType ?? 'Property').trim(),
+      value: String(attribute.value ?? '').trim(),
+    }))
+    .filter(attribute => attribute.traitType.length > 0 && attribute.value.length > 0);
+}
+
+/**
+ * Builds trait name → distinct values from a sample of token metadata
+ * Traits are ordered by how many sampled tokens carry them
+ */
+export function buildTraitSchema(tokens: TokenAttribute[][]): TraitSchema {
+  const traits = new Map<string, { tokens: number; values: Set<string> }>();
+
+  for (const attributes of tokens) {
+    for (const traitType of new Set(attributes.map(a => a.traitType))) {
+      const trait = traits.get(traitType) ?? { tokens: 0, values: new Set<string>() };
+      trait.tokens++;
+      traits.set(traitType, trait);
+    }
+    for (const { traitType, value } of attributes) {
+      const values = traits.get(traitType)!.values;
+      if (values.size < MAX_SCHEMA_VALUES) values.add(value);
+    }
+  }
+
+  return Object.fromEntries(
+    Array.from(traits.entries())
+      .sort((a, b) => b[1].tokens - a[1].tokens)
+      .slice(0, MAX_SCHEMA_TRAITS)
+      .map(([traitType, trait]) => [traitType, Array.from(trait.values)])
+  );
+}
@@ -0,0 +1,74 @@
+/**
+ * ERC-721 / ERC-1155 transfer normalization shared by fetching and analytics
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { AssetTransfersCategory, NftTokenType, type AssetTransfersResult } from 'alchemy-sdk';
+import { type TokenStandard } from './collections-data';
+
+/** Transfer categories requested for any NFT contract regardless of standard */
+export const NFT_TRANSFER_CATEGORIES = [AssetTransfersCategory.ERC721, AssetTransfersCategory.ERC1155];
+
+/**
+ * One token id moving between two addresses
+ * ERC-721 transfers are quantity 1; an ERC-1155 TransferBatch expands to one movement per id
+ */
+export interface TokenMovement {
+  hash: string;
+  blockNumber: number;
+  from: string;
+  to: string;
+  tokenId: string; // decimal
+  quantity: number;
+}
+
+/** Normalizes hex or decimal token ids to decimal strings */
+export function normalizeTokenId(tokenId: string): string {
+  try {
+    return BigInt(tokenId).toString();
+  } catch {
+    return tokenId;
+  }
+}
+
+/**
+ * Expands an Alchemy transfer into per-token-id movements
+ * Handles TransferSingle and TransferBatch via erc1155Metadata
+ */
+export function expandTransfer(transfer: AssetTransfersResult): TokenMovement[] {
+  const base = {
+    hash: transfer.hash,
+    blockNumber: parseInt(transfer.blockNum, 16),
+    from: transfer.from.toLowerCase(),
+    to: (transfer.to ?? '').toLowerCase(),
+  };
+
+  if (transfer.erc1155Metadata && transfer.erc1155Metadata.length > 0) {
+    return transfer.erc1155Metadata.map(item => ({
+      ...base,
+      tokenId: normalizeTokenId(item.tokenId),
+      quantity: Number(BigInt(item.value)),
+    }));
+  }
+
+  const tokenId = transfer.tokenId ?? transfer.erc721TokenId;
+  return tokenId ? [{ ...base, tokenId: normalizeTokenId(tokenId), quantity: 1 }] : [];
+}
+
+/** Expands a list of transfers into token movements */
+export function expandTransfers(transfers: AssetTransfersResult[]): TokenMovement[] {
+  return transfers.flatMap(expandTransfer);
+}
+
+/**
+ * Maps Alchemy's contract token type onto our token standard
+ */
+export function toTokenStandard(tokenType: NftTokenType | string | undefined): TokenStandard | undefined {
+  if (tokenType === NftTokenType.ERC721) return 'erc721';
+  if (tokenType === NftTokenType.ERC1155) return 'erc1155';
+  return undefined;
+}
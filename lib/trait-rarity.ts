@@ -0,0 +1,138 @@
+/**
+ * Token-level trait rarity - trait frequencies, statistical and information-content scores
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { type TokenAttribute } from './token-traits';
+
+/** Value recorded for tokens that lack a trait other tokens carry */
+export const MISSING_TRAIT_VALUE = 'None';
+
+/** One token's metadata as read for rarity scoring */
+export interface RarityToken {
+  tokenId: string;
+  name: string | null;
+  image: string | null;
+  attributes: TokenAttribute[];
+}
+
+/** How often one trait value occurs across the collection */
+export interface TraitFrequency {
+  value: string;
+  count: number;
+  frequency: number; // 0-1 share of tokens
+}
+
+/** A token with its rarity scores; rank 1 is the rarest */
+export interface RankedToken extends RarityToken {
+  statisticalRarity: number; // product of trait frequencies - lower is rarer
+  informationContent: number; // Σ -log2(frequency) in bits - higher is rarer
+  rarityScore: number; // information content as 0-100 of the rarest token
+  rank: number;
+}
+
+/** Trait frequencies and ranked tokens for one collection */
+export interface TraitRarity {
+  traits: Record<string, TraitFrequency[]>; // rarest value first
+  tokens: RankedToken[]; // rarest first
+}
+
+/** Numeric token ids order numerically, anything else lexically */
+export function compareTokenIds(a: string, b: string): number {
+  const numeric = /^\d+$/;
+  if (numeric.test(a) && numeric.test(b)) {
+    return a.length - b.length || (a < b ? -1 : a > b ? 1 : 0);
+  }
+  return a.localeCompare(b);
+}
+
+/** One value per trait type - a token listing a trait twice keeps the first */
+function traitValues(token: RarityToken): Map<string, string> {
+  const values = new Map<string, string>();
+  for (const { traitType, value } of token.attributes) {
+    if (!values.has(traitType)) values.set(traitType, value);
+  }
+  return values;
+}
+
+/**
+ * Scores every token against the collection's trait frequencies
+ * Tokens missing a trait count as "None" for it, so lacking a common trait is itself rare
+ */
+export function computeTraitRarity(tokens: RarityToken[]): TraitRarity {
+  const total = tokens.length;
+  const tokenValues = tokens.map(traitValues);
+  const traitTypes = Array.from(new Set(tokenValues.flatMap(values => Array.from(values.keys()))));
+
+  const counts = new Map<string, Map<string, number>>(traitTypes.map(type => [type, new Map()]));
+  for (const values of tokenValues) {
+    for (const type of traitTypes) {
+      const value = values.get(type) ?? MISSING_TRAIT_VALUE;
+      const typeCounts = counts.get(type)!;
+      typeCounts.set(value, (typeCounts.get(value) ?? 0) + 1);
+    }
+  }
+
+  const frequencyOf = (type: string, value: string) => (counts.get(type)!.get(value) ?? 0) / total;
+
+  const scored = tokens.map((token, i) => {
+    let statisticalRarity = 1;
+    let informationContent = 0;
+    for (const type of traitTypes) {
+      const frequency = frequencyOf(type, tokenValues[i].get(type) ?? MISSING_TRAIT_VALUE);
+      statisticalRarity *= frequency;
+      informationContent -= Math.log2(frequency);
+    }
+    return { ...token, statisticalRarity, informationContent };
+  });
+
+  scored.sort((a, b) =>
+    b.informationContent - a.informationContent ||
+    a.statisticalRarity - b.statisticalRarity ||
+    compareTokenIds(a.tokenId, b.tokenId)
+  );
+
+  const maxContent = scored[0]?.informationContent ?? 0;
+
+  return {
+    traits: Object.fromEntries(traitTypes.map(type => [
+      type,
+      Array.from(counts.get(type)!.entries())
+        .map(([value, count]) => ({ value, count, frequency: round(count / total, 4) }))
+        .sort((a, b) => a.count - b.count || a.value.localeCompare(b.value)),
+    ])),
+    tokens: scored.map((token, i) => ({
+      ...token,
+      informationContent: round(token.informationContent, 3),
+      rarityScore: maxContent > 0 ? Math.round((token.informationContent / maxContent) * 100) : 0,
+      rank: i + 1,
+    })),
+  };
+}
+
+/**
+ * Picks a prompt-sized spread of ranked tokens: the rarest half of the budget, then an
+ * even stride through the rest so common-trait tokens are represented too
+ */
+export function selectCandidateTokens(tokens: RankedToken[], limit: number): RankedToken[] {
+  if (tokens.length <= limit) return tokens;
+
+  const rarest = Math.ceil(limit / 2);
+  const rest = tokens.slice(rarest);
+  const stride = rest.length / (limit - rarest);
+
+  return [
+    ...tokens.slice(0, rarest),
+    ...Array.from({ length: limit - rarest }, (_, i) => rest[Math.floor(i * stride)]),
+  ];
+}
+
+/** Rounds to a fixed number of decimals */
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
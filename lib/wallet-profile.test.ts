@@ -0,0 +1,50 @@
+/**
+ * Unit tests for pairing wallet transfers over a shared block range
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { describe, expect, it } from 'vitest';
+import { type AssetTransfersWithMetadataResult } from 'alchemy-sdk';
+import { toSharedRange } from './wallet-profile';
+
+/** Builds transfers at the given blocks, newest first as fetched */
+function history(blocks: number[], truncated: boolean) {
+  return {
+    transfers: blocks.map(block => ({ blockNum: `0x${block.toString(16)}` }) as AssetTransfersWithMetadataResult),
+    truncated,
+  };
+}
+
+/** Block numbers of a transfer list */
+function blocksOf(transfers: AssetTransfersWithMetadataResult[]): number[] {
+  return transfers.map(t => parseInt(t.blockNum, 16));
+}
+
+describe('toSharedRange', () => {
+  it('keeps everything when neither direction hit the page cap', () => {
+    const range = toSharedRange(history([30, 10], false), history([20, 5], false));
+
+    expect(blocksOf(range.incoming)).toEqual([30, 10]);
+    expect(blocksOf(range.outgoing)).toEqual([20, 5]);
+    expect(range.truncated).toBe(false);
+  });
+
+  it('cuts both directions after the oldest block of a truncated one', () => {
+    const range = toSharedRange(history([50, 40, 25], true), history([45, 30, 20, 10], false));
+
+    expect(blocksOf(range.incoming)).toEqual([50, 40]);
+    expect(blocksOf(range.outgoing)).toEqual([45, 30]);
+    expect(range.truncated).toBe(true);
+  });
+
+  it('uses the later cut when both directions are truncated', () => {
+    const range = toSharedRange(history([50, 20], true), history([60, 35], true));
+
+    expect(blocksOf(range.incoming)).toEqual([50]);
+    expect(blocksOf(range.outgoing)).toEqual([60]);
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * Wallet-based persona inference from Shape Network holdings and trading history
+ *
+ * Part of ShapeMeAI - AI-Powered NFT Discovery Engine
+ * ShapeCraft2 Hackathon Submission | Shape Network 2025
+ *
+ * @author ATrnd
+ */
+
+import { Alchemy, Network, AssetTransfersCategory, SortingOrder, type AssetTransfersWithMetadataResult } from 'alchemy-sdk';
+import { PERSONA_DEFINITIONS, type BuiltInPersonaType, type PersonaType } from './collections-data';
+import type { PersonaBlend } from './persona-quiz';
+import { expandTransfer } from './token-transfers';
+
+/** Alchemy SDK instance for Shape Network wallet data */
+const alchemy = new Alchemy({
+  apiKey: process.env.ALCHEMY_API_KEY || process.env.NEXT_PUBLIC_ALCHEMY_KEY,
+  network: Network.SHAPE_MAINNET,
+});
+
+/** Tokens sold within this many days of acquisition count as flips */
+const FLIP_WINDOW_DAYS = 7;
+
+/** Collections at or below this supply are treated as niche */
+const NICHE_SUPPLY = 1000;
+
+/** Page caps keep large wallets within a single request budget */
+const MAX_NFT_PAGES = 5;
+const MAX_TRANSFER_PAGES = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Wallet behaviour summary and the persona blend derived from it */
+export interface WalletProfile {
+  address: string;
+  holdings: number;
+  ownedContracts: string[];
+  distinctCollections: number;
+  nicheShare: number; // 0-1 share of holdings in collections with supply <= 1000
+  avgHoldDays: number | null;
+  flipRate: number | null; // 0-1 share of acquired tokens sold within 7 days
+  truncated: boolean; // trading history exceeded the page cap; hold and flip stats cover the latest part
+  blend: PersonaBlend;
+}
+
+/**
+ * Fetches every Shape NFT currently held by the wallet (paginated)
+ */
+async function fetchHoldings(address: string) {
+  const nfts = [];
+  let pageKey: string | undefined;
+
+  for (let page = 0; page < MAX_NFT_PAGES; page++) {
+    const response = await alchemy.nft.getNftsForOwner(address, { pageKey });
+    nfts.push(...response.ownedNfts);
+    pageKey = response.pageKey;
+    if (!pageKey) break;
+  }
+
+  return nfts;
+}
+
+/** Transfers in one direction, newest first, and whether the page cap cut them off */
+interface TransferHistory {
+  transfers: AssetTransfersWithMetadataResult[];
+  truncated: boolean;
+}
+
+/**
+ * Fetches NFT transfers into or out of the wallet with block timestamps
+ * Newest first, so a truncated result keeps the latest activity and drops the oldest
+ */
+async function fetchTransfers(address: string, direction: 'toAddress' | 'fromAddress'): Promise<TransferHistory> {
+  const transfers: AssetTransfersWithMetadataResult[] = [];
+  let pageKey: string | undefined;
+  let truncated = false;
+
+  for (let page = 0; page < MAX_TRANSFER_PAGES; page++) {
+    const response = await alchemy.core.getAssetTransfers({
+      [direction]: address,
+      category: [AssetTransfersCategory.ERC721, AssetTransfersCategory.ERC1155],
+      order: SortingOrder.DESCENDING,
+      withMetadata: true,
+      pageKey,
+    });
+    transfers.push(...response.transfers);
+    pageKey = response.pageKey;
+    if (!pageKey) break;
+    if (page === MAX_TRANSFER_PAGES - 1) truncated = true;
+  }
+
+  return { transfers, truncated };
+}
+
+/**
+ * Cuts both directions to the block range that both cover in full, so buys and sells
+ * are paired from the same period; a truncated direction covers only the blocks after
+ * its oldest (possibly partially read) one
+ */
+export function toSharedRange(incoming: TransferHistory, outgoing: TransferHistory) {
+  const firstFullBlock = ({ transfers, truncated }: TransferHistory) => truncated
+    ? transfers.reduce((min, t) => Math.min(min, parseInt(t.blockNum, 16)), Infinity) + 1
+    : 0;
+  const fromBlock = Math.max(firstFullBlock(incoming), firstFullBlock(outgoing));
+  const inRange = (t: AssetTransfersWithMetadataResult) => parseInt(t.blockNum, 16) >= fromBlock;
+
+  return {
+    incoming: incoming.transfers.filter(inRange),
+    outgoing: outgoing.transfers.filter(inRange),
+    truncated: incoming.truncated || outgoing.truncated,
+  };
+}
+
+/** Stable key for a token across transfer records */
+function tokenKey(contractAddress: string | null, tokenId: string): string {
+  return `${(contractAddress ?? '').toLowerCase()}:${tokenId}`;
+}
+
+/** One token id entering or leaving the wallet */
+interface TokenEvent {
+  key: string;
+  timestamp: number;
+  inbound: boolean;
+}
+
+/**
+ * Expands transfers into per-token events - ERC-1155 transfers carry their ids in
+ * erc1155Metadata, one event per id
+ */
+function toTokenEvents(transfers: AssetTransfersWithMetadataResult[], inbound: boolean): TokenEvent[] {
+  return transfers.flatMap(transfer => expandTransfer(transfer).map(movement => ({
+    key: tokenKey(transfer.rawContract.address, movement.tokenId),
+    timestamp: Date.parse(transfer.metadata.blockTimestamp),
+    inbound,
+  })));
+}
+
+/**
+ * Builds a wallet profile: holdings, collection mix, hold duration and flip rate
+ * Persona weights are derived deterministically from those behaviours
+ */
+export async function fetchWalletProfile(address: string): Promise<WalletProfile> {
+  console.log(`👛 Building wallet profile for ${address}...`);
+
+  const [holdings, incomingHistory, outgoingHistory] = await Promise.all([
+    fetchHoldings(address),
+    fetchTransfers(address, 'toAddress'),
+    fetchTransfers(address, 'fromAddress'),
+  ]);
+  const { incoming, outgoing, truncated } = toSharedRange(incomingHistory, outgoingHistory);
+
+  // Match each outgoing transfer to the most recent acquisition of that token
+  const acquiredAt = new Map<string, number>();
+  const holdDurations: number[] = [];
+  let flips = 0;
+
+  const inboundEvents = toTokenEvents(incoming, true);
+  const events = [...inboundEvents, ...toTokenEvents(outgoing, false)].sort((a, b) => a.timestamp - b.timestamp);
+
+  for (const { key, timestamp, inbound } of events) {
+    if (inbound) {
+      acquiredAt.set(key, timestamp);
+      continue;
+    }
+
+    const acquired = acquiredAt.get(key);
+    if (acquired === undefined) continue;
+
+    const days = (timestamp - acquired) / DAY_MS;
+    holdDurations.push(days);
+    if (days <= FLIP_WINDOW_DAYS) flips++;
+    acquiredAt.delete(key);
+  }
+
+  // Tokens still held count toward hold duration up to now
+  const now = Date.now();
+  for (const acquired of acquiredAt.values()) {
+    holdDurations.push((now - acquired) / DAY_MS);
+  }
+
+  const ownedContracts = Array.from(new Set(holdings.map(nft => nft.contract.address.toLowerCase())));
+  const nicheHoldings = holdings.filter(nft => {
+    const supply = nft.contract.totalSupply ? parseInt(nft.contract.totalSupply) : null;
+    return supply !== null && supply <= NICHE_SUPPLY;
+  }).length;
+
+  const avgHoldDays = holdDurations.length > 0
+    ? holdDurations.reduce((sum, days) => sum + days, 0) / holdDurations.length
+    : null;
+  const flipRate = inboundEvents.length > 0 ? flips / inboundEvents.length : null;
+  const nicheShare = holdings.length > 0 ? nicheHoldings / holdings.length : 0;
+  const diversity = holdings.length > 0 ? ownedContracts.length / holdings.length : 0;
+
+  const blend = inferPersonaBlend({
+    avgHoldDays,
+    flipRate,
+    nicheShare,
+    diversity,
+    distinctCollections: ownedContracts.length,
+  });
+
+  console.log(`✅ Wallet profile complete: ${holdings.length} NFTs across ${ownedContracts.length} collections → ${blend.primary.toUpperCase()}`);
+
+  return {
+    address,
+    holdings: holdings.length,
+    ownedContracts,
+    distinctCollections: ownedContracts.length,
+    nicheShare: Math.round(nicheShare * 100) / 100,
+    avgHoldDays: avgHoldDays !== null ? Math.round(avgHoldDays * 10) / 10 : null,
+    flipRate: flipRate !== null ? Math.round(flipRate * 100) / 100 : null,
+    truncated,
+    blend,
+  };
+}
+
+/** Behavioural signals used for persona inference */
+interface WalletSignals {
+  avgHoldDays: number | null;
+  flipRate: number | null;
+  nicheShare: number;
+  diversity: number;
+  distinctCollections: number;
+}
+
+/**
+ * Maps wallet behaviour to persona weights
+ * FOMO: fast flips; ZEN: long holds; RENEGADE: niche collections; CHAOS: scattered mix
+ */
+export function inferPersonaBlend(signals: WalletSignals): PersonaBlend {
+  const holdScore = signals.avgHoldDays !== null ? Math.min(1, signals.avgHoldDays / 180) : 0.5;
+  const flipScore = signals.flipRate ?? 0;
+  const breadthScore = Math.min(1, signals.distinctCollections / 15);
+
+  const raw: Record<BuiltInPersonaType, number> = {
+    fomo: 0.1 + flipScore * 0.6 + (1 - holdScore) * 0.3,
+    zen: 0.1 + holdScore * 0.6 + (1 - flipScore) * 0.2,
+    renegade: 0.1 + signals.nicheShare * 0.7,
+    chaos: 0.1 + signals.diversity * 0.4 + breadthScore * 0.4,
+  };
+
+  const order = Object.keys(PERSONA_DEFINITIONS) as BuiltInPersonaType[];
+  const sum = order.reduce((acc, persona) => acc + raw[persona], 0);
+  const weights = Object.fromEntries(
+    order.map(persona => [persona, Math.round((raw[persona] / sum) * 1000) / 1000])
+  ) as Record<PersonaType, number>;
+  const primary = order.reduce((best, persona) => (weights[persona] > weights[best] ? persona : best));
+
+  const traits = [
+    signals.avgHoldDays !== null ? `hold tokens ~${Math.round(signals.avgHoldDays)} days on average` : null,
+    signals.flipRate !== null ? `flip ${Math.round(signals.flipRate * 100)}% of acquisitions within a week` : null,
+    `spread across ${signals.distinctCollections} collections`,
+    signals.nicheShare > 0 ? `${Math.round(signals.nicheShare * 100)}% in niche drops` : null,
+  ].filter(Boolean);
+
+  const definition = PERSONA_DEFINITIONS[primary];
+
+  return {
+    primary,
+    weights,
+    explanation: `Your wallet reads ${definition.title} ${definition.emoji}: you ${traits.join(', ')}.`,
+  };
+}